@@ -0,0 +1,23 @@
+// AcceleratorFormat.ts
+
+// Shared with the renderer, so nothing here may import Node or Electron
+
+/**
+ * Comparable form of an accelerator, so "Ctrl+Shift+A" and
+ * "Shift+Control+a" count as the same shortcut
+ * @param isMac CommandOrControl means Command on macOS and Control elsewhere
+ */
+export function normalizeAccelerator(accelerator: string, isMac: boolean): string {
+  const aliases: Record<string, string> = {
+    cmd: "command",
+    ctrl: "control",
+    option: "alt",
+    esc: "escape",
+    enter: "return",
+    cmdorctrl: isMac ? "command" : "control",
+    commandorcontrol: isMac ? "command" : "control"
+  }
+  const parts = accelerator.split("+").map(part => aliases[part.toLowerCase()] || part.toLowerCase())
+  const key = parts.pop() || ""
+  return [...new Set(parts)].sort().concat(key).join("+")
+}
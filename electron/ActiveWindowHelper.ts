@@ -0,0 +1,147 @@
+// ActiveWindowHelper.ts
+
+import { execFile } from "node:child_process"
+import { promisify } from "node:util"
+import { ActivityRecord } from "./StorageHelper"
+
+const execFileAsync = promisify(execFile)
+
+const XPROP_TIMEOUT_MS = 1000
+
+export interface ActiveWindowInfo {
+  window_class: string | null // WM_CLASS class name, e.g. "Code"
+  window_title: string | null
+  window_pid: number | null
+}
+
+export interface WindowGeometry extends ActiveWindowInfo {
+  // Absolute position in the virtual desktop, in pixels
+  bounds: { x: number; y: number; width: number; height: number }
+}
+
+/**
+ * Reads the focused window from the X server with xprop. Only Linux/X11 is
+ * supported; elsewhere (or under Wayland without XWayland focus, or when
+ * xprop is missing) the lookup resolves to null and capture carries on
+ * without window metadata.
+ */
+export class ActiveWindowHelper {
+  private static warned = false
+
+  public static isSupported(): boolean {
+    return process.platform === "linux" && !!process.env.DISPLAY
+  }
+
+  private static async xprop(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync("xprop", args, { timeout: XPROP_TIMEOUT_MS })
+    return stdout
+  }
+
+  // Value of a string property, e.g. _NET_WM_NAME(UTF8_STRING) = "title"
+  private static parseStrings(output: string, property: string): string[] {
+    const line = output.split("\n").find(l => l.startsWith(`${property}(`))
+    if (!line || !line.includes("=")) return []
+
+    const values: string[] = []
+    const pattern = /"((?:[^"\\]|\\.)*)"/g
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(line)) !== null) {
+      values.push(match[1].replace(/\\(.)/g, "$1"))
+    }
+    return values
+  }
+
+  private static parseNumber(output: string, property: string): number | null {
+    const line = output.split("\n").find(l => l.startsWith(`${property}(`))
+    const value = line ? Number(line.split("=")[1]) : NaN
+    return Number.isFinite(value) ? value : null
+  }
+
+  private static async describeWindow(windowId: string): Promise<ActiveWindowInfo> {
+    const output = await ActiveWindowHelper.xprop([
+      "-id", windowId, "WM_CLASS", "_NET_WM_NAME", "WM_NAME", "_NET_WM_PID"
+    ])
+
+    // WM_CLASS is "instance", "Class"; the class name is the stable one
+    const wmClass = ActiveWindowHelper.parseStrings(output, "WM_CLASS")
+    const title = ActiveWindowHelper.parseStrings(output, "_NET_WM_NAME")[0]
+      ?? ActiveWindowHelper.parseStrings(output, "WM_NAME")[0]
+
+    return {
+      window_class: wmClass[1] || wmClass[0] || null,
+      window_title: title || null,
+      window_pid: ActiveWindowHelper.parseNumber(output, "_NET_WM_PID")
+    }
+  }
+
+  public static async getActiveWindow(): Promise<ActiveWindowInfo | null> {
+    if (!ActiveWindowHelper.isSupported()) return null
+
+    try {
+      const root = await ActiveWindowHelper.xprop(["-root", "_NET_ACTIVE_WINDOW"])
+      const windowId = root.match(/window id # (0x[0-9a-f]+)/i)?.[1]
+      if (!windowId || Number(windowId) === 0) return null
+
+      return await ActiveWindowHelper.describeWindow(windowId)
+    } catch (error: any) {
+      if (!ActiveWindowHelper.warned) {
+        console.warn("[ActiveWindowHelper] Active window lookup unavailable:", error.message)
+        ActiveWindowHelper.warned = true
+      }
+      return null
+    }
+  }
+
+  /**
+   * Every mapped top-level window with its on-screen geometry, or null when
+   * windows cannot be listed on this system.
+   */
+  public static async listVisibleWindows(): Promise<WindowGeometry[] | null> {
+    if (!ActiveWindowHelper.isSupported()) return null
+
+    try {
+      const root = await ActiveWindowHelper.xprop(["-root", "_NET_CLIENT_LIST"])
+      const windowIds = root.match(/0x[0-9a-f]+/gi) || []
+
+      const windows = await Promise.all(windowIds.map(async (windowId): Promise<WindowGeometry | null> => {
+        const { stdout } = await execFileAsync("xwininfo", ["-id", windowId], { timeout: XPROP_TIMEOUT_MS })
+        if (!/Map State:\s+IsViewable/.test(stdout)) return null
+
+        const field = (label: string) => Number(stdout.match(new RegExp(`${label}:\\s+(-?\\d+)`))?.[1])
+        const bounds = {
+          x: field("Absolute upper-left X"),
+          y: field("Absolute upper-left Y"),
+          width: field("Width"),
+          height: field("Height")
+        }
+        if (!Object.values(bounds).every(Number.isFinite)) return null
+
+        return { ...(await ActiveWindowHelper.describeWindow(windowId)), bounds }
+      }))
+
+      return windows.filter((window): window is WindowGeometry => window !== null)
+    } catch (error: any) {
+      console.warn("[ActiveWindowHelper] Window listing unavailable:", error.message)
+      return null
+    }
+  }
+
+  /**
+   * Window metadata stored on a record, or null if none was captured
+   */
+  public static fromRecord(record: ActivityRecord): ActiveWindowInfo | null {
+    if (!record.window_class && !record.window_title) return null
+    return {
+      window_class: record.window_class ?? null,
+      window_title: record.window_title ?? null,
+      window_pid: record.window_pid ?? null
+    }
+  }
+
+  /**
+   * "Class - Title" label used to attribute records the model could not classify
+   */
+  public static describe(window: ActiveWindowInfo): string {
+    return [window.window_class, window.window_title].filter(Boolean).join(" - ")
+  }
+}
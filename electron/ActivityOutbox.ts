@@ -0,0 +1,148 @@
+// ActivityOutbox.ts
+
+import fs from "node:fs"
+import path from "node:path"
+import { ActivityRecord } from "./StorageHelper"
+
+interface OutboxEntry<T> {
+  record: T
+  queuedAt: string
+  attempts: number
+  lastError?: string
+}
+
+type StoreFn<T> = (record: T) => Promise<{ success: boolean; error?: string }>
+
+/**
+ * Durable FIFO of activity records, or tracking events, that could not be
+ * stored. Entries are persisted to a JSON file so they survive restarts,
+ * and are replayed in the order they were queued. Records carry a
+ * record_id and events an event_id, so replaying one that actually reached
+ * the backend is harmless.
+ */
+export class ActivityOutbox<T = ActivityRecord> {
+  private readonly filePath: string
+  private entries: OutboxEntry<T>[] = []
+  private flushing = false
+  private retryInterval: NodeJS.Timeout | null = null
+  // Set when an unreadable file could not be moved aside; it is never overwritten
+  private saveBlocked = false
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    this.entries = this.load()
+
+    if (this.entries.length > 0) {
+      console.log(`[ActivityOutbox] Loaded ${this.entries.length} pending records`)
+    }
+  }
+
+  // An unreadable file is moved aside so the records in it can still be
+  // recovered by hand, instead of being overwritten by the next persist
+  private load(): OutboxEntry<T>[] {
+    try {
+      if (!fs.existsSync(this.filePath)) return []
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf8"))
+      if (!Array.isArray(parsed)) {
+        throw new Error("expected a JSON array of entries")
+      }
+      return parsed
+    } catch (error) {
+      console.error("[ActivityOutbox] Failed to read outbox, starting empty:", error)
+      this.backUpUnreadableFile()
+      return []
+    }
+  }
+
+  private backUpUnreadableFile(): void {
+    const backupPath = `${this.filePath}.unreadable-${Date.now()}`
+    try {
+      fs.renameSync(this.filePath, backupPath)
+      console.warn(`[ActivityOutbox] Moved the unreadable outbox to ${backupPath}`)
+    } catch (error: any) {
+      this.saveBlocked = true
+      console.error("[ActivityOutbox] Failed to back up the unreadable outbox, queued records will not be saved:", error.message)
+    }
+  }
+
+  private persist(): void {
+    if (this.saveBlocked) return
+    // Write to a temp file and rename so a crash never leaves a torn file
+    const tempPath = `${this.filePath}.tmp`
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+    fs.writeFileSync(tempPath, JSON.stringify(this.entries))
+    fs.renameSync(tempPath, this.filePath)
+  }
+
+  public size(): number {
+    return this.entries.length
+  }
+
+  public enqueue(record: T, error?: string): void {
+    this.entries.push({
+      record,
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+      lastError: error
+    })
+    this.persist()
+    console.log(`[ActivityOutbox] Queued record (${this.entries.length} pending)`)
+  }
+
+  /**
+   * Replay queued records oldest first. Stops at the first failure so later
+   * records are never stored ahead of earlier ones.
+   * @returns Number of records stored during this flush
+   */
+  public async flush(store: StoreFn<T>): Promise<number> {
+    if (this.flushing || this.entries.length === 0) return 0
+
+    this.flushing = true
+    let stored = 0
+
+    try {
+      while (this.entries.length > 0) {
+        const entry = this.entries[0]
+        const result = await store(entry.record)
+
+        if (!result.success) {
+          entry.attempts++
+          entry.lastError = result.error
+          this.persist()
+          console.warn(
+            `[ActivityOutbox] Replay failed, ${this.entries.length} records still pending:`,
+            result.error
+          )
+          break
+        }
+
+        this.entries.shift()
+        this.persist()
+        stored++
+      }
+    } finally {
+      this.flushing = false
+    }
+
+    if (stored > 0) {
+      console.log(`[ActivityOutbox] Replayed ${stored} records`)
+    }
+    return stored
+  }
+
+  public startRetrying(intervalMs: number, store: StoreFn<T>): void {
+    this.stopRetrying()
+    this.retryInterval = setInterval(() => {
+      this.flush(store).catch(error => {
+        console.error("[ActivityOutbox] Unexpected error during replay:", error)
+      })
+    }, intervalMs)
+  }
+
+  public stopRetrying(): void {
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval)
+      this.retryInterval = null
+    }
+  }
+}
@@ -0,0 +1,179 @@
+// ActivityRules.ts
+
+import fs from "node:fs"
+import {
+  ACTIVITY_ENUM_FIELDS,
+  ActivityClassification,
+  normalizeEnumValue
+} from "./ActivitySchema"
+import { ActiveWindowInfo } from "./ActiveWindowHelper"
+
+/**
+ * One user-defined rule. Patterns are case-insensitive regular expressions;
+ * every condition given must hold for the rule to match. app_classification
+ * is matched against the model's answer, or the window description before
+ * the model is asked.
+ */
+export interface ActivityRule {
+  match: {
+    window_class?: string
+    window_title?: string
+    app_classification?: string
+    min_idle_seconds?: number
+    max_idle_seconds?: number
+  }
+  classification: Partial<ActivityClassification>
+  project?: string // Name of the goal matching goal_related activity counts toward
+}
+
+interface CompiledRule {
+  windowClass: RegExp | null
+  windowTitle: RegExp | null
+  appClassification: RegExp | null
+  minIdleSeconds: number | null
+  maxIdleSeconds: number | null
+  classification: Partial<ActivityClassification>
+  project: string | null
+}
+
+/**
+ * Rules loaded from a JSON array of ActivityRule. The first matching rule
+ * wins. A rule that sets every field classifies the activity on its own; a
+ * partial rule fixes the fields it sets and leaves the rest to the model.
+ * Rule values also replace the model's answer before a record is stored,
+ * e.g. "VS Code on repo X is always goal_related", and a rule's project
+ * names the goal the activity is attributed to.
+ */
+export class ActivityRules {
+  private rules: CompiledRule[]
+
+  constructor(rules: ActivityRule[]) {
+    this.rules = rules
+      .map((rule, index) => ActivityRules.compile(rule, index))
+      .filter((rule): rule is CompiledRule => rule !== null)
+  }
+
+  /**
+   * Read rules from a file. A missing file means no rules.
+   */
+  public static load(filePath: string): ActivityRules {
+    try {
+      if (!filePath || !fs.existsSync(filePath)) return new ActivityRules([])
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"))
+      if (!Array.isArray(parsed)) {
+        throw new Error("expected a JSON array of rules")
+      }
+      const rules = new ActivityRules(parsed)
+      console.log(`[ActivityRules] Loaded ${rules.size()} rules from ${filePath}`)
+      return rules
+    } catch (error: any) {
+      console.error(`[ActivityRules] Failed to load rules from ${filePath}:`, error.message)
+      return new ActivityRules([])
+    }
+  }
+
+  // Invalid rules are skipped with a warning rather than failing the whole file
+  private static compile(rule: ActivityRule, index: number): CompiledRule | null {
+    try {
+      if (!rule?.match || !rule?.classification) {
+        throw new Error("rule needs both match and classification")
+      }
+      if (rule.project !== undefined && (typeof rule.project !== "string" || !rule.project.trim())) {
+        throw new Error("project must be the name of a goal")
+      }
+
+      const classification: Partial<ActivityClassification> = {}
+      if (typeof rule.classification.app_classification === "string") {
+        classification.app_classification = rule.classification.app_classification
+      }
+      for (const field of ACTIVITY_ENUM_FIELDS) {
+        const raw = rule.classification[field]
+        if (raw === undefined) continue
+        const value = normalizeEnumValue(field, raw)
+        if (value === null) {
+          throw new Error(`"${raw}" is not a valid ${field}`)
+        }
+        (classification as Record<string, string>)[field] = value
+      }
+
+      return {
+        windowClass: rule.match.window_class ? new RegExp(rule.match.window_class, "i") : null,
+        windowTitle: rule.match.window_title ? new RegExp(rule.match.window_title, "i") : null,
+        appClassification: rule.match.app_classification ? new RegExp(rule.match.app_classification, "i") : null,
+        minIdleSeconds: rule.match.min_idle_seconds ?? null,
+        maxIdleSeconds: rule.match.max_idle_seconds ?? null,
+        classification,
+        project: rule.project?.trim() || null
+      }
+    } catch (error: any) {
+      console.warn(`[ActivityRules] Skipping rule ${index}: ${error.message}`)
+      return null
+    }
+  }
+
+  public size(): number {
+    return this.rules.length
+  }
+
+  // idleSeconds is null when unknown; rules with idle conditions then don't match
+  private find(
+    window: ActiveWindowInfo | null,
+    idleSeconds: number | null,
+    appClassification: string
+  ): CompiledRule | undefined {
+    return this.rules.find(r =>
+      (!r.windowClass || r.windowClass.test(window?.window_class || "")) &&
+      (!r.windowTitle || r.windowTitle.test(window?.window_title || "")) &&
+      (!r.appClassification || r.appClassification.test(appClassification)) &&
+      (r.minIdleSeconds === null || (idleSeconds !== null && idleSeconds >= r.minIdleSeconds)) &&
+      (r.maxIdleSeconds === null || (idleSeconds !== null && idleSeconds <= r.maxIdleSeconds))
+    )
+  }
+
+  /**
+   * Fields fixed by the first matching rule, or null when none matches
+   * @param idleSeconds Null when unknown; rules with idle conditions then don't match
+   */
+  public match(
+    window: ActiveWindowInfo | null,
+    idleSeconds: number | null,
+    appClassification = ""
+  ): Partial<ActivityClassification> | null {
+    const rule = this.find(window, idleSeconds, appClassification)
+    return rule ? { ...rule.classification } : null
+  }
+
+  /**
+   * Goal name set by the first matching rule, or null when that rule sets
+   * none or no rule matches
+   */
+  public matchProject(
+    window: ActiveWindowInfo | null,
+    idleSeconds: number | null,
+    appClassification: string
+  ): string | null {
+    return this.find(window, idleSeconds, appClassification)?.project ?? null
+  }
+
+  /**
+   * The model's classification with the fields of the first matching rule
+   * replaced
+   */
+  public apply<T extends ActivityClassification>(
+    classification: T,
+    window: ActiveWindowInfo | null,
+    idleSeconds: number | null
+  ): T {
+    const fields = this.match(window, idleSeconds, classification.app_classification)
+    if (!fields) return classification
+    console.log(`[ActivityRules] Rule applied to ${classification.app_classification}`)
+    return { ...classification, ...fields }
+  }
+
+  /**
+   * Whether a rule result sets every enum field, i.e. needs no model call
+   */
+  public static isComplete(classification: Partial<ActivityClassification>): boolean {
+    return ACTIVITY_ENUM_FIELDS.every(field => classification[field] !== undefined)
+  }
+}
@@ -0,0 +1,222 @@
+// ActivitySchema.ts
+
+import { JsonSchema } from "./ModelProvider"
+
+/**
+ * Single source of truth for the classification vocabulary. The prompt, the
+ * provider response schema, validation and the ActivityRecord types are all
+ * derived from this table, so adding a value here is the only change needed.
+ */
+export const ACTIVITY_ENUMS = {
+  goal_relevance: {
+    values: ["goal_related", "work_unrelated", "personal", "break", "distraction"],
+    criteria: "Work apps (VS Code, Figma, Excel) = goal_related; Social media/entertainment = distraction",
+    aliases: { work: "goal_related", productive: "goal_related", unrelated: "work_unrelated", distracted: "distraction" }
+  },
+  cognitive_state: {
+    values: ["deep_focus", "light_work", "browsing", "communication", "break"],
+    criteria: "Full screen work app = deep_focus; Multiple tabs/windows = light_work; Social/video = browsing",
+    aliases: { focus: "deep_focus", focused: "deep_focus", coding: "deep_focus", chat: "communication", email: "communication", idle: "break" }
+  },
+  context_switching: {
+    values: ["continuing_task", "new_task", "rapid_switching"],
+    criteria: "Same app as likely previous = continuing_task; Different app type = new_task",
+    aliases: { continuing: "continuing_task", same_task: "continuing_task", switching: "rapid_switching" }
+  },
+  attention_residue: {
+    values: ["clean_focus", "previous_task_visible", "multiple_contexts"],
+    criteria: "Clean desktop/single app = clean_focus; Multiple apps/tabs visible = multiple_contexts",
+    aliases: { clean: "clean_focus", multiple: "multiple_contexts" }
+  },
+  procrastination_signal: {
+    values: ["none", "social_media_after_work", "research_rabbit_hole", "entertainment"],
+    criteria: "Social media, YouTube, news sites = check type based on context",
+    aliases: { no: "none", social_media: "social_media_after_work", rabbit_hole: "research_rabbit_hole" }
+  },
+  energy_level: {
+    values: ["high_focus_work", "medium_complexity", "low_energy_tasks", "break_time"],
+    criteria: "Complex work (coding, design, writing) = high_focus_work; Email, admin = low_energy_tasks",
+    aliases: { high: "high_focus_work", medium: "medium_complexity", low: "low_energy_tasks", break: "break_time" }
+  }
+} as const
+
+export type ActivityEnumField = keyof typeof ACTIVITY_ENUMS
+
+type EnumValue<F extends ActivityEnumField> = (typeof ACTIVITY_ENUMS)[F]["values"][number]
+
+export type GoalRelevance = EnumValue<"goal_relevance">
+export type CognitiveState = EnumValue<"cognitive_state">
+export type ContextSwitching = EnumValue<"context_switching">
+export type AttentionResidue = EnumValue<"attention_residue">
+export type ProcrastinationSignal = EnumValue<"procrastination_signal">
+export type EnergyLevel = EnumValue<"energy_level">
+
+export interface ActivityClassification {
+  app_classification: string
+  goal_relevance: GoalRelevance
+  cognitive_state: CognitiveState
+  context_switching: ContextSwitching
+  attention_residue: AttentionResidue
+  procrastination_signal: ProcrastinationSignal
+  energy_level: EnergyLevel
+}
+
+export const ACTIVITY_ENUM_FIELDS = Object.keys(ACTIVITY_ENUMS) as ActivityEnumField[]
+
+export const ACTIVITY_CLASSIFICATION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    app_classification: {
+      type: "string",
+      description: "Main app with focus + specific file/page/tab title, as 'AppName - DocumentName'"
+    },
+    ...Object.fromEntries(
+      ACTIVITY_ENUM_FIELDS.map(field => [
+        field,
+        { type: "string" as const, enum: [...ACTIVITY_ENUMS[field].values], description: ACTIVITY_ENUMS[field].criteria }
+      ])
+    )
+  },
+  required: ["app_classification", ...ACTIVITY_ENUM_FIELDS]
+}
+
+/**
+ * JSON outline and per-field criteria for the classification prompt
+ */
+export function describeActivitySchema(): { format: string; criteria: string } {
+  const formatLines = [
+    `  "app_classification": "AppName - DocumentName"`,
+    ...ACTIVITY_ENUM_FIELDS.map(
+      field => `  "${field}": ${ACTIVITY_ENUMS[field].values.map(value => `"${value}"`).join(" | ")}`
+    )
+  ]
+
+  const criteriaLines = [
+    "- app_classification: Main app with focus + specific file/page/tab title",
+    ...ACTIVITY_ENUM_FIELDS.map(field => `- ${field}: ${ACTIVITY_ENUMS[field].criteria}`)
+  ]
+
+  return {
+    format: `{\n${formatLines.join(",\n")}\n}`,
+    criteria: criteriaLines.join("\n")
+  }
+}
+
+export interface OutOfVocabularyValue {
+  field: ActivityEnumField
+  value: string
+}
+
+export interface ClassificationValidation {
+  classification: ActivityClassification | null
+  outOfVocabulary: OutOfVocabularyValue[]
+  missingFields: string[]
+}
+
+const toToken = (value: string): string => value.trim().toLowerCase().replace(/[\s-]+/g, "_")
+
+/**
+ * Map a raw model value onto the vocabulary: exact match, then a
+ * case/spacing-insensitive match ("Deep Focus"), then a known alias.
+ */
+export function normalizeEnumValue(field: ActivityEnumField, raw: unknown): string | null {
+  if (typeof raw !== "string") return null
+
+  const { values, aliases } = ACTIVITY_ENUMS[field]
+  const allowed = values as readonly string[]
+  if (allowed.includes(raw)) return raw
+
+  const token = toToken(raw)
+  if (allowed.includes(token)) return token
+
+  const alias = (aliases as Record<string, string>)[token]
+  return alias || null
+}
+
+/**
+ * Strictly validate a parsed model response. The classification is null
+ * unless every field is present and every enum value is in vocabulary.
+ */
+export function validateClassification(raw: any): ClassificationValidation {
+  const missingFields: string[] = []
+  const outOfVocabulary: OutOfVocabularyValue[] = []
+
+  if (!raw || typeof raw !== "object") {
+    return { classification: null, outOfVocabulary, missingFields: ["app_classification", ...ACTIVITY_ENUM_FIELDS] }
+  }
+
+  const appClassification = typeof raw.app_classification === "string" ? raw.app_classification.trim() : ""
+  if (!appClassification) {
+    missingFields.push("app_classification")
+  }
+
+  const normalized: Record<string, string> = {}
+  for (const field of ACTIVITY_ENUM_FIELDS) {
+    if (raw[field] === null || raw[field] === undefined) {
+      missingFields.push(field)
+      continue
+    }
+
+    const value = normalizeEnumValue(field, raw[field])
+    if (value === null) {
+      outOfVocabulary.push({ field, value: String(raw[field]) })
+    } else {
+      normalized[field] = value
+    }
+  }
+
+  const valid = missingFields.length === 0 && outOfVocabulary.length === 0
+  return {
+    classification: valid
+      ? ({ app_classification: appClassification, ...normalized } as ActivityClassification)
+      : null,
+    outOfVocabulary,
+    missingFields
+  }
+}
+
+/**
+ * Fields a user corrected by hand. Only the fields present are overridden.
+ */
+export type ActivityOverrides = Partial<ActivityClassification> & {
+  project_id?: string | null // Goal id, or null to attribute the record to no project
+}
+
+/**
+ * Check corrections entered by the user. Unlike model output nothing is
+ * normalized: unknown fields and out-of-vocabulary values throw.
+ */
+export function validateActivityOverrides(input: unknown): ActivityOverrides {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("Overrides must be an object")
+  }
+
+  const overrides: Record<string, string | null> = {}
+  for (const [field, value] of Object.entries(input)) {
+    if (value === undefined) continue
+
+    // null is a correction of its own here: the record belongs to no project
+    if (field === "project_id") {
+      if (value !== null && (typeof value !== "string" || !value.trim())) {
+        throw new Error("project_id must be a goal id or null")
+      }
+      overrides[field] = value === null ? null : value.trim()
+    } else if (value === null) {
+      continue
+    } else if (field === "app_classification") {
+      if (typeof value !== "string" || !value.trim()) {
+        throw new Error("app_classification must be non-empty text")
+      }
+      overrides[field] = value.trim()
+    } else if (ACTIVITY_ENUM_FIELDS.includes(field as ActivityEnumField)) {
+      const allowed = ACTIVITY_ENUMS[field as ActivityEnumField].values as readonly string[]
+      if (!allowed.includes(value)) {
+        throw new Error(`${field} must be one of: ${allowed.join(", ")}`)
+      }
+      overrides[field] = value
+    } else {
+      throw new Error(`Unknown activity field: ${field}`)
+    }
+  }
+  return overrides as ActivityOverrides
+}
@@ -0,0 +1,193 @@
+// AdaptiveCaptureScheduler.ts
+
+import { NativeImage } from "electron"
+import { CaptureSource } from "./CaptureSource"
+import { ActiveWindowHelper } from "./ActiveWindowHelper"
+
+export interface CaptureScheduleOptions {
+  frameIntervalMs: number // How often a cheap sample is checked for changes
+  minIntervalMs: number // Never classify more often than this
+  maxIntervalMs: number // Classify at least this often, even if nothing changed
+  changeThreshold: number // Differing frame hash bits (of 64) that count as a change
+}
+
+export const DEFAULT_CAPTURE_SCHEDULE: CaptureScheduleOptions = {
+  frameIntervalMs: 5000,
+  minIntervalMs: 15000,
+  maxIntervalMs: 300000,
+  changeThreshold: 10
+}
+
+// Frames are only hashed, so a thumbnail this wide is plenty
+const FRAME_WIDTH = 160
+
+/**
+ * 64-bit difference hash: the frame is shrunk to 9x8 grayscale and each bit
+ * records whether a pixel is brighter than its right neighbour. Small visual
+ * noise (cursor blink, clock) flips few bits; switching apps flips many.
+ */
+export function computeFrameHash(frame: NativeImage): string {
+  const small = frame.resize({ width: 9, height: 8, quality: "good" })
+  const bitmap = small.toBitmap() // 4 bytes per pixel, channel order varies by platform
+  const { width } = small.getSize()
+
+  const luma = (x: number, y: number): number => {
+    const offset = (y * width + x) * 4
+    return bitmap[offset] + bitmap[offset + 1] + bitmap[offset + 2]
+  }
+
+  let bits = ""
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      bits += luma(x, y) > luma(x + 1, y) ? "1" : "0"
+    }
+  }
+  return bits
+}
+
+export function hashDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) distance++
+  }
+  return distance
+}
+
+/**
+ * Cheap snapshot of what the user is looking at, compared between checks
+ */
+export interface ChangeDetector {
+  sample(): Promise<string>
+  hasChanged(previous: string, current: string): boolean
+}
+
+// Compares perceptual hashes of low-resolution frames of every display; a
+// change on any display, or a display added or removed, counts
+export function createFrameChangeDetector(captureSource: CaptureSource, changeThreshold: number): ChangeDetector {
+  return {
+    sample: async () => (await captureSource.captureFrames(FRAME_WIDTH)).map(computeFrameHash).join(","),
+    hasChanged: (previous, current) => {
+      const previousHashes = previous.split(",")
+      const currentHashes = current.split(",")
+      return previousHashes.length !== currentHashes.length ||
+        currentHashes.some((hash, i) => hashDistance(previousHashes[i], hash) >= changeThreshold)
+    }
+  }
+}
+
+// Compares the focused window's class and title; never reads the screen
+export function createWindowChangeDetector(): ChangeDetector {
+  return {
+    sample: async () => {
+      const window = await ActiveWindowHelper.getActiveWindow()
+      return window ? ActiveWindowHelper.describe(window) : ""
+    },
+    hasChanged: (previous, current) => previous !== current
+  }
+}
+
+/**
+ * Called when a capture should be taken and classified
+ * @param durationSeconds Time this capture accounts for, up to the next capture
+ */
+type CaptureFn = (durationSeconds: number) => Promise<void>
+
+/**
+ * Decides when automatic captures are worth classifying. A cheap sample
+ * (a frame hash, or the focused window) is checked every frameIntervalMs;
+ * a capture is triggered when it changed meaningfully since the last one
+ * (but not sooner than minIntervalMs) or when maxIntervalMs passes
+ * without one.
+ */
+export class AdaptiveCaptureScheduler {
+  private readonly detector: ChangeDetector
+  private readonly options: CaptureScheduleOptions
+  private readonly onCapture: CaptureFn
+  private readonly isPaused: () => boolean
+  private interval: NodeJS.Timeout | null = null
+  private ticking = false
+  private lastSample: string | null = null
+  private lastCaptureAt: number | null = null
+
+  constructor(
+    detector: ChangeDetector,
+    options: CaptureScheduleOptions,
+    onCapture: CaptureFn,
+    isPaused: () => boolean = () => false
+  ) {
+    this.detector = detector
+    this.options = options
+    this.onCapture = onCapture
+    this.isPaused = isPaused
+  }
+
+  public start(): void {
+    this.stop()
+    this.interval = setInterval(() => {
+      this.tick().catch(error => {
+        console.error("[AdaptiveCaptureScheduler] Change check failed:", error)
+      })
+    }, this.options.frameIntervalMs)
+  }
+
+  public stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval)
+      this.interval = null
+    }
+    this.reset()
+  }
+
+  public isRunning(): boolean {
+    return this.interval !== null
+  }
+
+  // Forget the last capture so the next frame is classified right away
+  private reset(): void {
+    this.lastSample = null
+    this.lastCaptureAt = null
+  }
+
+  private async tick(): Promise<void> {
+    if (this.ticking) return
+
+    // Time spent paused must not be credited to the next capture
+    if (this.isPaused()) {
+      this.reset()
+      return
+    }
+
+    this.ticking = true
+    try {
+      // A failed sample says nothing about change, but maxIntervalMs still holds
+      let sample: string | null = null
+      try {
+        sample = await this.detector.sample()
+      } catch (error: any) {
+        console.warn("[AdaptiveCaptureScheduler] Change sample failed:", error.message)
+      }
+      const now = Date.now()
+      const elapsedMs = this.lastCaptureAt === null ? null : now - this.lastCaptureAt
+
+      const changed = sample !== null && (
+        this.lastSample === null || this.detector.hasChanged(this.lastSample, sample)
+      )
+      const due = elapsedMs === null ||
+        elapsedMs >= this.options.maxIntervalMs ||
+        (changed && elapsedMs >= this.options.minIntervalMs)
+
+      if (!due) return
+
+      // A capture accounts for the time until the next one, which comes within
+      // maxIntervalMs while capture runs. withCaptureDurations replaces this
+      // estimate with the real gap once the next capture is stored.
+      const durationMs = this.options.maxIntervalMs
+
+      this.lastSample = sample
+      this.lastCaptureAt = now
+      await this.onCapture(Math.round(durationMs / 1000))
+    } finally {
+      this.ticking = false
+    }
+  }
+}
@@ -0,0 +1,70 @@
+// CaptureSource.ts
+
+import { NativeImage } from "electron"
+import { ActiveWindowInfo } from "./ActiveWindowHelper"
+
+/**
+ * Where screenshots come from. The desktop source is used in normal runs;
+ * the fixture source replays saved images so the pipeline can run headless.
+ */
+export interface DisplayInfo {
+  id: string | number // Identifier the capture library uses for the display
+  name: string
+  primary: boolean
+  // Position in the virtual desktop, when the platform reports it
+  bounds: { x: number; y: number; width: number; height: number } | null
+}
+
+export interface CaptureSource {
+  readonly name: "desktop" | "fixtures"
+
+  /**
+   * Displays that can be captured, primary first
+   */
+  listDisplays(): Promise<DisplayInfo[]>
+
+  /**
+   * Write a PNG of the current screen to the given path.
+   * @param displayId Display to capture; the primary display when omitted
+   */
+  capture(filename: string, displayId?: DisplayInfo["id"]): Promise<void>
+
+  /**
+   * Grab cheap, low-resolution frames for change detection, one per display
+   * in a stable order.
+   * @param width Target width; height follows the screen's aspect ratio
+   */
+  captureFrames(width: number): Promise<NativeImage[]>
+}
+
+/**
+ * What is known about an automatic capture besides its pixels
+ */
+export interface CaptureMetadata {
+  capturedAt: string // ISO time the screenshot was taken
+  durationSeconds?: number // Scheduler's estimate of the time the capture accounts for
+  activeWindow?: ActiveWindowInfo | null // Focused window at capture time, where supported
+  idleSeconds?: number // Time since the last keyboard or mouse input
+  primaryDisplay?: string | null // Display the capture was taken from, or that had focus
+}
+
+/**
+ * One captured image and the display it came from
+ */
+export interface DisplayScreenshot {
+  path: string
+  display: string | null
+}
+
+/**
+ * With several displays, "focused" captures and classifies only the display
+ * under the cursor; "combined" sends every display in one request and lets
+ * the model say which one holds the primary activity.
+ */
+export type MultiDisplayStrategy = "focused" | "combined"
+
+/**
+ * "screenshot" classifies screen captures; "window_metadata" never reads
+ * the screen and classifies from the focused window and rules instead.
+ */
+export type CaptureMode = "screenshot" | "window_metadata"
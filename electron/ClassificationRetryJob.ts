@@ -0,0 +1,175 @@
+// ClassificationRetryJob.ts
+
+import fs from "node:fs"
+import { ActivityRecord, StorageHelper, getRecordTimestamp } from "./StorageHelper"
+import { ActivityClassification } from "./ActivitySchema"
+
+type ClassifyFn = (record: ActivityRecord) => Promise<ActivityClassification>
+type ExclusionCheck = (classification: ActivityClassification) => boolean
+
+export interface ClassificationRetryOptions {
+  batchSize: number
+  maxAttempts: number
+  // Screenshots older than this are deleted even if never classified
+  retentionMs: number
+}
+
+export const DEFAULT_RETRY_OPTIONS: ClassificationRetryOptions = {
+  batchSize: 5,
+  maxAttempts: 5,
+  retentionMs: 24 * 60 * 60 * 1000
+}
+
+/**
+ * Periodically re-runs classification for records stored as unclassified.
+ * Their screenshots are kept on disk only until a retry succeeds, the
+ * attempt limit is reached or the retention window passes; after that the
+ * file is deleted. Records with window metadata and no screenshot are
+ * retried from the metadata until the attempt limit; everything else stays
+ * unclassified for good. A retry that recognises an excluded site turns
+ * the record private.
+ */
+export class ClassificationRetryJob {
+  private readonly classify: ClassifyFn
+  private readonly isExcluded: ExclusionCheck
+  private readonly options: ClassificationRetryOptions
+  private running = false
+  private retryInterval: NodeJS.Timeout | null = null
+
+  /**
+   * @param isExcluded Whether a classification shows an excluded app or
+   * site; such records become private instead of classified
+   */
+  constructor(
+    classify: ClassifyFn,
+    isExcluded: ExclusionCheck,
+    options: Partial<ClassificationRetryOptions> = {}
+  ) {
+    this.classify = classify
+    this.isExcluded = isExcluded
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...options }
+  }
+
+  private async discardScreenshot(record: ActivityRecord, reason: string): Promise<void> {
+    if (record.screenshot_path) {
+      await fs.promises.unlink(record.screenshot_path).catch(() => {})
+    }
+    await StorageHelper.updateActivityRecord(record.record_id, { screenshot_path: null })
+    console.log(`[ClassificationRetryJob] Discarded screenshot of record ${record.record_id}: ${reason}`)
+  }
+
+  private isExpired(record: ActivityRecord): boolean {
+    const timestamp = getRecordTimestamp(record)
+    if (!timestamp) return false
+    return Date.now() - new Date(timestamp).getTime() > this.options.retentionMs
+  }
+
+  private async retryRecord(record: ActivityRecord): Promise<boolean> {
+    const attempts = record.classification_attempts || 0
+
+    if (record.screenshot_path) {
+      if (!fs.existsSync(record.screenshot_path)) {
+        await this.discardScreenshot(record, "screenshot missing")
+        return false
+      }
+      if (attempts >= this.options.maxAttempts) {
+        await this.discardScreenshot(record, `${attempts} attempts failed`)
+        return false
+      }
+      if (this.isExpired(record)) {
+        await this.discardScreenshot(record, "retention window passed")
+        return false
+      }
+    } else if (attempts >= this.options.maxAttempts) {
+      return false
+    }
+
+    try {
+      const classification = await this.classify(record)
+      const changes: Partial<ActivityRecord> = this.isExcluded(classification)
+        ? ClassificationRetryJob.privateChanges()
+        : { ...classification, classification_status: "classified" }
+      const result = await StorageHelper.updateActivityRecord(record.record_id, {
+        ...changes,
+        classification_error: null,
+        classification_attempts: attempts + 1,
+        screenshot_path: null
+      })
+
+      // Keep the screenshot if the update did not land so the next run can retry
+      if (result.success && record.screenshot_path) {
+        await fs.promises.unlink(record.screenshot_path).catch(() => {})
+      }
+      return result.success
+    } catch (error: any) {
+      await StorageHelper.updateActivityRecord(record.record_id, {
+        classification_error: error.message,
+        classification_attempts: attempts + 1
+      })
+      return false
+    }
+  }
+
+  // Same as a live capture of an excluded site: only time and duration are kept
+  private static privateChanges(): Partial<ActivityRecord> {
+    return {
+      app_classification: "Private",
+      classification_status: "private",
+      window_class: null,
+      window_title: null,
+      window_pid: null,
+      primary_display: null,
+      project_id: null,
+      goal_relevance: null,
+      cognitive_state: null,
+      context_switching: null,
+      attention_residue: null,
+      procrastination_signal: null,
+      energy_level: null
+    }
+  }
+
+  /**
+   * Retry one batch of unclassified records, oldest first
+   * @returns Number of records classified during this run
+   */
+  public async run(): Promise<number> {
+    if (this.running) return 0
+
+    this.running = true
+    let classified = 0
+
+    try {
+      const records = await StorageHelper.getUnclassifiedActivities(this.options.batchSize, this.options.maxAttempts)
+      for (const record of records) {
+        if (!record.record_id) continue
+        if (await this.retryRecord(record)) {
+          classified++
+        }
+      }
+    } finally {
+      this.running = false
+    }
+
+    if (classified > 0) {
+      console.log(`[ClassificationRetryJob] Classified ${classified} previously unclassified records`)
+    }
+    return classified
+  }
+
+  public start(intervalMs: number): void {
+    this.stop()
+    this.retryInterval = setInterval(() => {
+      this.run().catch(error => {
+        console.error("[ClassificationRetryJob] Unexpected error during retry:", error)
+      })
+    }, intervalMs)
+  }
+
+  public stop(): void {
+    if (this.retryInterval) {
+      clearInterval(this.retryInterval)
+      this.retryInterval = null
+    }
+  }
+}
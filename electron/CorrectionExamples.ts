@@ -0,0 +1,205 @@
+// CorrectionExamples.ts
+
+import fs from "node:fs"
+import path from "node:path"
+import { ActiveWindowInfo } from "./ActiveWindowHelper"
+import { ActivityOverrides } from "./ActivitySchema"
+import { ActivityRecord } from "./StorageProvider"
+
+/**
+ * A classification the user corrected, kept so the model can be shown how
+ * similar activity should be classified
+ */
+export interface CorrectionExample {
+  app: string // App part of the corrected app_classification
+  window_class: string | null
+  window_title: string | null
+  model: ActivityOverrides // What the model answered for the corrected fields
+  corrected: ActivityOverrides
+  corrected_at: string
+}
+
+// Oldest examples are dropped beyond this
+const MAX_EXAMPLES = 200
+// A relabeled range adds at most this many examples, its most common windows first
+const MAX_EXAMPLES_PER_LEARN = 20
+
+const appName = (appClassification: string): string => appClassification.split(" - ")[0].trim()
+
+const words = (text: string | null): Set<string> =>
+  new Set((text || "").toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2))
+
+/**
+ * Corrections from the activity log, stored as a JSON array in userData
+ * and keyed by app and window title: correcting the same window again
+ * replaces the earlier example. The most similar examples are added to the
+ * classification prompts as guidance.
+ */
+export class CorrectionExamples {
+  private readonly filePath: string
+  private examples: CorrectionExample[] = []
+  // Set when an unreadable file could not be moved aside; it is never overwritten
+  private saveBlocked = false
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    this.load()
+  }
+
+  // A missing file means no corrections yet. An unreadable one is moved
+  // aside so saving new corrections does not destroy it.
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) return
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf8"))
+      if (!Array.isArray(parsed)) {
+        throw new Error("expected a JSON array of examples")
+      }
+      this.examples = parsed
+      console.log(`[CorrectionExamples] Loaded ${this.examples.length} examples from ${this.filePath}`)
+    } catch (error: any) {
+      console.error(`[CorrectionExamples] Failed to load examples from ${this.filePath}:`, error.message)
+      this.backUpUnreadableFile()
+    }
+  }
+
+  private backUpUnreadableFile(): void {
+    const backupPath = `${this.filePath}.unreadable-${Date.now()}`
+    try {
+      fs.renameSync(this.filePath, backupPath)
+      console.warn(`[CorrectionExamples] Moved the unreadable file to ${backupPath}`)
+    } catch (error: any) {
+      this.saveBlocked = true
+      console.error("[CorrectionExamples] Failed to back up the unreadable file, corrections will not be saved:", error.message)
+    }
+  }
+
+  private static key(example: Pick<CorrectionExample, "app" | "window_class" | "window_title">): string {
+    return [example.window_class || example.app, example.window_title || ""].join("|").toLowerCase()
+  }
+
+  // Project corrections are goal ids, which mean nothing to the model
+  private static hasCorrections(record: ActivityRecord): boolean {
+    return Object.keys(record.overrides || {}).some(field => field !== "project_id")
+  }
+
+  public size(): number {
+    return this.examples.length
+  }
+
+  /**
+   * Remember corrected records, one example per window. Records without
+   * overrides, such as ones restored to the model output, remove their
+   * window's example. A large relabel keeps only its most common windows
+   * so it cannot push every earlier correction out.
+   */
+  public async learn(records: ActivityRecord[]): Promise<void> {
+    if (records.length === 0) return
+
+    // The latest record of each window, counted so common windows win
+    const byWindow = new Map<string, { record: ActivityRecord; count: number }>()
+    for (const record of records) {
+      const key = CorrectionExamples.key({
+        app: appName(record.overrides?.app_classification || record.app_classification),
+        window_class: record.window_class ?? null,
+        window_title: record.window_title ?? null
+      })
+      byWindow.set(key, { record, count: (byWindow.get(key)?.count || 0) + 1 })
+    }
+    const learned = [...byWindow.values()]
+      .sort((a, b) => b.count - a.count)
+      .map(({ record }) => record)
+    const kept = new Set(
+      learned.filter(record => CorrectionExamples.hasCorrections(record)).slice(0, MAX_EXAMPLES_PER_LEARN)
+    )
+
+    // Least common first, so the most common windows end up newest
+    for (const record of learned.reverse()) {
+      const corrected = Object.fromEntries(
+        Object.entries(record.overrides || {}).filter(([field]) => field !== "project_id")
+      ) as ActivityOverrides
+      const example: CorrectionExample = {
+        app: appName(record.overrides?.app_classification || record.app_classification),
+        window_class: record.window_class ?? null,
+        window_title: record.window_title ?? null,
+        model: {},
+        corrected,
+        corrected_at: record.overridden_at || new Date().toISOString()
+      }
+      for (const field of Object.keys(example.corrected) as Array<keyof ActivityOverrides>) {
+        const original = record[field]
+        if (original) (example.model as Record<string, string>)[field] = original
+      }
+
+      const key = CorrectionExamples.key(example)
+      this.examples = this.examples.filter(existing => CorrectionExamples.key(existing) !== key)
+      if (kept.has(record)) {
+        this.examples.push(example)
+      }
+    }
+    this.examples = this.examples.slice(-MAX_EXAMPLES)
+
+    if (this.saveBlocked) {
+      console.warn("[CorrectionExamples] Not saving over the unreadable examples file")
+      return
+    }
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+      await fs.promises.writeFile(this.filePath, JSON.stringify(this.examples, null, 2))
+      console.log(`[CorrectionExamples] Saved ${this.examples.length} examples`)
+    } catch (error: any) {
+      console.error("[CorrectionExamples] Failed to save examples:", error.message)
+    }
+  }
+
+  /**
+   * Examples most similar to the focused window: same app first, then by
+   * words shared with the window title, newest first on ties
+   * @param limit Maximum number of examples returned
+   */
+  public findRelevant(window: ActiveWindowInfo | null, limit: number): CorrectionExample[] {
+    if (!window) return []
+
+    const windowClass = (window.window_class || "").toLowerCase()
+    const titleWords = words(window.window_title)
+
+    return this.examples
+      .map((example, index) => {
+        const sameApp = !!windowClass && (
+          (example.window_class || "").toLowerCase() === windowClass ||
+          example.app.toLowerCase() === windowClass
+        )
+        const exampleWords = words(example.window_title)
+        const shared = [...exampleWords].filter(word => titleWords.has(word)).length
+        const overlap = shared / Math.max(1, Math.min(exampleWords.size, titleWords.size))
+        return { example, index, score: (sameApp ? 1 : 0) + overlap }
+      })
+      .filter(candidate => candidate.score > 0)
+      .sort((a, b) => b.score - a.score || b.index - a.index)
+      .slice(0, limit)
+      .map(candidate => candidate.example)
+  }
+
+  /**
+   * Prompt section describing the examples, or an empty string
+   */
+  public static describe(examples: CorrectionExample[]): string {
+    if (examples.length === 0) return ""
+
+    const lines = examples.map(example => {
+      const window = [example.window_class, example.window_title].filter(Boolean).join(": ") || example.app
+      const fields = Object.entries(example.corrected)
+        .map(([field, value]) => {
+          const model = example.model[field as keyof ActivityOverrides]
+          return model ? `${field}: ${value} (not ${model})` : `${field}: ${value}`
+        })
+        .join(", ")
+      return `- "${window}" -> ${fields}`
+    })
+
+    return `
+USER CORRECTIONS (the user corrected earlier classifications of similar windows; classify matching activity the same way):
+${lines.join("\n")}
+`
+  }
+}
@@ -0,0 +1,60 @@
+// DesktopCaptureSource.ts
+
+import { desktopCapturer, NativeImage } from "electron"
+import screenshot from "screenshot-desktop"
+import { CaptureSource, DisplayInfo } from "./CaptureSource"
+
+export class DesktopCaptureSource implements CaptureSource {
+  public readonly name = "desktop" as const
+
+  // Display fields differ by platform: Linux reports offsetX/offsetY from
+  // xrandr, Windows top/left, macOS no position at all
+  public async listDisplays(): Promise<DisplayInfo[]> {
+    const displays = (await screenshot.listDisplays()) as Array<Record<string, any>>
+
+    return displays
+      .map((display, index): DisplayInfo => {
+        const x = display.offsetX ?? display.left
+        const y = display.offsetY ?? display.top
+        const hasBounds = [x, y, display.width, display.height].every(value => typeof value === "number")
+
+        return {
+          id: display.id,
+          name: String(display.name || `Display ${index + 1}`),
+          primary: !!display.primary,
+          bounds: hasBounds ? { x, y, width: display.width, height: display.height } : null
+        }
+      })
+      .sort((a, b) => Number(b.primary) - Number(a.primary))
+  }
+
+  public async capture(filename: string, displayId?: DisplayInfo["id"]): Promise<void> {
+    if (displayId === undefined) {
+      await screenshot({ filename })
+      return
+    }
+
+    // Ids are numbers on macOS and Windows but names on Linux, so pass the
+    // library back its own id rather than trusting its typings
+    const display = (await screenshot.listDisplays()).find(d => String(d.id) === String(displayId))
+    if (!display) {
+      throw new Error(`Display ${displayId} is no longer connected`)
+    }
+    await screenshot({ filename, screen: display.id })
+  }
+
+  // Thumbnails are scaled down by the OS, far cheaper than a full capture
+  public async captureFrames(width: number): Promise<NativeImage[]> {
+    const sources = await desktopCapturer.getSources({
+      types: ["screen"],
+      thumbnailSize: { width, height: Math.round((width * 9) / 16) }
+    })
+
+    if (sources.length === 0) {
+      throw new Error("No screen available for frame capture")
+    }
+    return sources
+      .sort((a, b) => a.display_id.localeCompare(b.display_id))
+      .map(source => source.thumbnail)
+  }
+}
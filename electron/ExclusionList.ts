@@ -0,0 +1,150 @@
+// ExclusionList.ts
+
+import fs from "node:fs"
+import path from "node:path"
+import { ActiveWindowInfo } from "./ActiveWindowHelper"
+
+/**
+ * One user-defined exclusion. Window patterns are case-insensitive regular
+ * expressions; every pattern given must match. A domain (e.g. "mybank.com")
+ * is looked for in the window title before capture and in the model's app
+ * classification afterwards, since browsers rarely put the URL in the title.
+ */
+export interface ExclusionEntry {
+  label?: string // Shown in the UI only
+  window_class?: string
+  window_title?: string
+  domain?: string
+}
+
+interface CompiledEntry {
+  windowClass: RegExp | null
+  windowTitle: RegExp | null
+  domain: string | null
+}
+
+/**
+ * Apps and sites that are never captured. A match replaces the capture
+ * with a "private" record that keeps only its time and duration. The list
+ * is stored as a JSON array of ExclusionEntry and edited from the app.
+ * While the file cannot be read, everything counts as excluded so a broken
+ * list never lets an excluded site through.
+ */
+export class ExclusionList {
+  private readonly filePath: string
+  private entries: ExclusionEntry[] = []
+  private compiled: CompiledEntry[] = []
+  private loadError: string | null = null
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    this.load()
+  }
+
+  // A missing file means nothing is excluded
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) return
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf8"))
+      if (!Array.isArray(parsed)) {
+        throw new Error("expected a JSON array of exclusions")
+      }
+      this.apply(parsed)
+      console.log(`[ExclusionList] Loaded ${this.compiled.length} exclusions from ${this.filePath}`)
+    } catch (error: any) {
+      console.error(`[ExclusionList] Failed to load exclusions from ${this.filePath}, treating everything as private:`, error.message)
+      this.loadError = `${this.filePath}: ${error.message}`
+    }
+  }
+
+  private apply(entries: ExclusionEntry[]): void {
+    this.loadError = null
+    this.entries = entries
+    this.compiled = entries
+      .map((entry, index) => ExclusionList.compile(entry, index))
+      .filter((entry): entry is CompiledEntry => entry !== null)
+  }
+
+  // Invalid entries are skipped with a warning rather than failing the whole list
+  private static compile(entry: ExclusionEntry, index: number): CompiledEntry | null {
+    try {
+      if (!entry?.window_class && !entry?.window_title && !entry?.domain) {
+        throw new Error("entry needs a window_class, window_title or domain")
+      }
+      return {
+        windowClass: entry.window_class ? new RegExp(entry.window_class, "i") : null,
+        windowTitle: entry.window_title ? new RegExp(entry.window_title, "i") : null,
+        domain: entry.domain ? entry.domain.trim().toLowerCase() : null
+      }
+    } catch (error: any) {
+      console.warn(`[ExclusionList] Skipping exclusion ${index}: ${error.message}`)
+      return null
+    }
+  }
+
+  /**
+   * Why the saved list could not be read, or null. Cleared once a valid
+   * list is saved.
+   */
+  public getLoadError(): string | null {
+    return this.loadError
+  }
+
+  public getEntries(): ExclusionEntry[] {
+    return this.entries.map(entry => ({ ...entry }))
+  }
+
+  /**
+   * Replace the list and save it. Throws if any entry is invalid so the
+   * user is told instead of an exclusion being silently dropped.
+   */
+  public async setEntries(entries: ExclusionEntry[]): Promise<void> {
+    if (!Array.isArray(entries)) {
+      throw new Error("Exclusions must be an array")
+    }
+    entries.forEach((entry, index) => {
+      if (!entry?.window_class && !entry?.window_title && !entry?.domain) {
+        throw new Error(`Exclusion ${index + 1} needs a window class, title or domain`)
+      }
+      for (const pattern of [entry.window_class, entry.window_title]) {
+        if (!pattern) continue
+        try {
+          new RegExp(pattern, "i")
+        } catch (error: any) {
+          throw new Error(`Exclusion ${index + 1}: ${error.message}`)
+        }
+      }
+    })
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.promises.writeFile(this.filePath, JSON.stringify(entries, null, 2))
+    this.apply(entries)
+    console.log(`[ExclusionList] Saved ${this.compiled.length} exclusions`)
+  }
+
+  /**
+   * Whether capture must be skipped while this window has focus
+   */
+  public matchesWindow(window: ActiveWindowInfo | null): boolean {
+    if (this.loadError) return true
+    if (!window) return false
+    const title = (window.window_title || "").toLowerCase()
+
+    return this.compiled.some(entry =>
+      (!entry.windowClass || entry.windowClass.test(window.window_class || "")) &&
+      (!entry.windowTitle || entry.windowTitle.test(window.window_title || "")) &&
+      (!entry.domain || title.includes(entry.domain))
+    )
+  }
+
+  /**
+   * Whether a classified activity turned out to be on an excluded domain
+   */
+  public matchesClassification(appClassification: string): boolean {
+    if (this.loadError) return true
+    const text = appClassification.toLowerCase()
+    return this.compiled.some(entry =>
+      !!entry.domain && !entry.windowClass && !entry.windowTitle && text.includes(entry.domain)
+    )
+  }
+}
@@ -0,0 +1,56 @@
+// FixtureCaptureSource.ts
+
+import fs from "node:fs"
+import path from "node:path"
+import { nativeImage, NativeImage } from "electron"
+import { CaptureSource, DisplayInfo } from "./CaptureSource"
+
+/**
+ * Replays the PNGs in a directory, in file name order, wrapping around
+ * when it runs out. A frame taken for change detection is the one the
+ * following capture saves, mirroring a screen that has not moved on.
+ */
+export class FixtureCaptureSource implements CaptureSource {
+  public readonly name = "fixtures" as const
+  private frames: string[]
+  private index = 0
+  private pendingFrame: string | null = null
+
+  constructor(fixturesDir: string) {
+    if (!fixturesDir || !fs.existsSync(fixturesDir)) {
+      throw new Error(`Capture fixtures directory not found: ${fixturesDir}`)
+    }
+
+    this.frames = fs
+      .readdirSync(fixturesDir)
+      .filter(file => file.toLowerCase().endsWith(".png"))
+      .sort()
+      .map(file => path.join(fixturesDir, file))
+
+    if (this.frames.length === 0) {
+      throw new Error(`No PNG fixtures found in ${fixturesDir}`)
+    }
+  }
+
+  private nextFrame(): string {
+    const frame = this.frames[this.index % this.frames.length]
+    this.index++
+    return frame
+  }
+
+  // Fixtures stand in for a single display
+  public async listDisplays(): Promise<DisplayInfo[]> {
+    return [{ id: "fixtures", name: "fixtures", primary: true, bounds: null }]
+  }
+
+  public async capture(filename: string, _displayId?: DisplayInfo["id"]): Promise<void> {
+    const frame = this.pendingFrame || this.nextFrame()
+    this.pendingFrame = null
+    await fs.promises.copyFile(frame, filename)
+  }
+
+  public async captureFrames(width: number): Promise<NativeImage[]> {
+    this.pendingFrame = this.nextFrame()
+    return [nativeImage.createFromPath(this.pendingFrame).resize({ width })]
+  }
+}
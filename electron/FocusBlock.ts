@@ -0,0 +1,75 @@
+// FocusBlock.ts
+
+import { v4 as uuidv4 } from "uuid"
+import { TrackingEvent } from "./StorageHelper"
+
+/**
+ * A period the user explicitly declared as focused work, started and
+ * stopped by hand. Each block is stored as a "focus_block" tracking event,
+ * opened when it starts and closed when it stops, so the analysis can
+ * compare declared focus with what was captured.
+ */
+export class FocusBlock {
+  private readonly storeEvent: (event: TrackingEvent) => Promise<void>
+  private currentBlock: TrackingEvent | null = null
+
+  /**
+   * @param storeEvent Stores or queues the event
+   */
+  constructor(storeEvent: (event: TrackingEvent) => Promise<void>) {
+    this.storeEvent = storeEvent
+  }
+
+  /**
+   * Start a block, or rename the one in progress
+   * @param label What the block is for, e.g. a project or task
+   */
+  public start(label: string | null = null): void {
+    const trimmed = label?.trim() || null
+    if (this.currentBlock) {
+      this.currentBlock = { ...this.currentBlock, label: trimmed }
+      console.log("[FocusBlock] Focus block renamed")
+    } else {
+      this.currentBlock = {
+        event_id: uuidv4(),
+        event_type: "focus_block",
+        reason: "user",
+        label: trimmed,
+        started_at: new Date().toISOString(),
+        ended_at: null
+      }
+      console.log(`[FocusBlock] Focus block started${trimmed ? `: ${trimmed}` : ""}`)
+    }
+    this.persist(this.currentBlock)
+  }
+
+  /**
+   * @returns Whether a block was in progress
+   */
+  public stop(): boolean {
+    if (!this.currentBlock) return false
+
+    this.persist({ ...this.currentBlock, ended_at: new Date().toISOString() })
+    this.currentBlock = null
+    console.log("[FocusBlock] Focus block stopped")
+    return true
+  }
+
+  public isActive(): boolean {
+    return this.currentBlock !== null
+  }
+
+  /**
+   * The block in progress, or null
+   */
+  public getCurrent(): { label: string | null; startedAt: string } | null {
+    if (!this.currentBlock) return null
+    return { label: this.currentBlock.label ?? null, startedAt: this.currentBlock.started_at }
+  }
+
+  private persist(event: TrackingEvent): void {
+    this.storeEvent(event).catch(error => {
+      console.error("[FocusBlock] Failed to store focus block:", error)
+    })
+  }
+}
@@ -0,0 +1,90 @@
+// GeminiModelProvider.ts
+
+import { GoogleGenAI, Part, Schema, Type } from "@google/genai"
+import {
+  DEFAULT_GENERATION_CONFIG,
+  GenerateOptions,
+  GenerationConfig,
+  InlineData,
+  JsonSchema,
+  ModelProvider,
+  ModelProviderConfig
+} from "./ModelProvider"
+
+const SCHEMA_TYPES: Record<JsonSchema["type"], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN
+}
+
+export class GeminiModelProvider implements ModelProvider {
+  public readonly name = "gemini" as const
+  public readonly model: string
+  private client: GoogleGenAI
+  private generation: GenerationConfig
+
+  constructor(config: ModelProviderConfig) {
+    if (!config.apiKey || config.apiKey.length < 10) {
+      throw new Error("Invalid Gemini API key provided")
+    }
+
+    this.model = config.model
+    this.generation = { ...DEFAULT_GENERATION_CONFIG, ...config.generation }
+    this.client = new GoogleGenAI({ apiKey: config.apiKey })
+  }
+
+  // Gemini uses its own schema dialect with upper-case type names
+  private toGeminiSchema(schema: JsonSchema): Schema {
+    return {
+      type: SCHEMA_TYPES[schema.type],
+      description: schema.description,
+      enum: schema.enum,
+      nullable: schema.nullable,
+      required: schema.required,
+      items: schema.items ? this.toGeminiSchema(schema.items) : undefined,
+      properties: schema.properties
+        ? Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, this.toGeminiSchema(value)])
+          )
+        : undefined,
+      propertyOrdering: schema.properties ? Object.keys(schema.properties) : undefined
+    }
+  }
+
+  private async generate(parts: Part[], options?: GenerateOptions): Promise<string> {
+    const response = await this.client.models.generateContent({
+      model: this.model,
+      contents: [{ role: "user", parts }],
+      config: {
+        ...this.generation,
+        ...(options?.json || options?.responseSchema ? { responseMimeType: "application/json" } : {}),
+        ...(options?.responseSchema ? { responseSchema: this.toGeminiSchema(options.responseSchema) } : {})
+      }
+    })
+
+    const text = response.text
+    if (typeof text !== "string") {
+      throw new Error("Gemini response did not contain text")
+    }
+    return text
+  }
+
+  private toPart(inline: InlineData): Part {
+    return { inlineData: { data: inline.data, mimeType: inline.mimeType } }
+  }
+
+  public async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.generate([{ text: prompt }], options)
+  }
+
+  public async generateFromImages(prompt: string, images: InlineData[], options?: GenerateOptions): Promise<string> {
+    return this.generate([{ text: prompt }, ...images.map(image => this.toPart(image))], options)
+  }
+
+  public async generateFromAudio(prompt: string, audio: InlineData, options?: GenerateOptions): Promise<string> {
+    return this.generate([{ text: prompt }, this.toPart(audio)], options)
+  }
+}
@@ -0,0 +1,217 @@
+// GoalList.ts
+
+import fs from "node:fs"
+import path from "node:path"
+import { v4 as uuidv4 } from "uuid"
+import { ActiveWindowInfo } from "./ActiveWindowHelper"
+
+/**
+ * Something the user is working toward. Activity that advances an active
+ * goal is goal_related and is attributed to it as its project.
+ */
+export interface Goal {
+  id: string // Assigned on save; stored on ActivityRecord.project_id
+  name: string
+  description?: string
+  keywords?: string[] // Words in window titles or on screen that point to this goal
+  apps?: string[] // Apps used for it, e.g. "Figma"
+  repos?: string[] // Repositories or project folders, usually shown in editor titles
+  daily_target_minutes?: number | null
+  active: boolean // Inactive goals are kept for past records but left out of prompts
+}
+
+/**
+ * Time attributed to one goal on a day
+ */
+export interface ProjectTime {
+  goal_id: string
+  name: string
+  minutes: number
+  daily_target_minutes: number | null
+  active: boolean
+}
+
+const readList = (value: unknown, label: string): string[] | undefined => {
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+    throw new Error(`${label} must be a list of text`)
+  }
+  const items = value.map(item => item.trim()).filter(Boolean)
+  return items.length > 0 ? items : undefined
+}
+
+const describeGoal = (goal: Goal): string => {
+  const details = [
+    goal.description,
+    goal.keywords && `keywords: ${goal.keywords.join(", ")}`,
+    goal.apps && `apps: ${goal.apps.join(", ")}`,
+    goal.repos && `repos: ${goal.repos.join(", ")}`
+  ].filter(Boolean)
+  return `- "${goal.name}"${details.length > 0 ? `: ${details.join("; ")}` : ""}`
+}
+
+/**
+ * The user's goals and projects, stored as a JSON array of Goal in
+ * userData and edited from the app. Active goals are given to the
+ * classification prompts so goal_relevance reflects what the user is
+ * actually working toward.
+ */
+export class GoalList {
+  private readonly filePath: string
+  private goals: Goal[] = []
+  // Set when an unreadable file could not be moved aside; it is never overwritten
+  private saveBlocked = false
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    this.load()
+  }
+
+  // A missing file means no goals yet. An unreadable one is moved aside
+  // so saving new goals does not destroy the ones records still point to.
+  private load(): void {
+    try {
+      if (!fs.existsSync(this.filePath)) return
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, "utf8"))
+      this.goals = GoalList.validate(parsed)
+      console.log(`[GoalList] Loaded ${this.goals.length} goals from ${this.filePath}`)
+    } catch (error: any) {
+      console.error(`[GoalList] Failed to load goals from ${this.filePath}:`, error.message)
+      this.backUpUnreadableFile()
+    }
+  }
+
+  private backUpUnreadableFile(): void {
+    const backupPath = `${this.filePath}.unreadable-${Date.now()}`
+    try {
+      fs.renameSync(this.filePath, backupPath)
+      console.warn(`[GoalList] Moved the unreadable file to ${backupPath}`)
+    } catch (error: any) {
+      this.saveBlocked = true
+      console.error("[GoalList] Failed to back up the unreadable file, goals will not be saved:", error.message)
+    }
+  }
+
+  /**
+   * Check goals entered by the user and assign ids to new ones. Throws on
+   * the first invalid goal.
+   */
+  private static validate(input: unknown): Goal[] {
+    if (!Array.isArray(input)) {
+      throw new Error("Goals must be an array")
+    }
+
+    const names = new Set<string>()
+    return input.map((goal: any, index) => {
+      const label = `Goal ${index + 1}`
+      const name = typeof goal?.name === "string" ? goal.name.trim() : ""
+      if (!name) {
+        throw new Error(`${label} needs a name`)
+      }
+      // Names identify goals in the model's answer
+      if (names.has(name.toLowerCase()) || name.toLowerCase() === "none") {
+        throw new Error(`${label}: the name "${name}" is already used`)
+      }
+      names.add(name.toLowerCase())
+
+      const target = goal.daily_target_minutes ?? null
+      if (target !== null && (typeof target !== "number" || !Number.isFinite(target) || target <= 0)) {
+        throw new Error(`${label}: the daily target must be a positive number of minutes`)
+      }
+      if (goal.description !== undefined && goal.description !== null && typeof goal.description !== "string") {
+        throw new Error(`${label}: the description must be text`)
+      }
+
+      return {
+        id: typeof goal.id === "string" && goal.id ? goal.id : uuidv4(),
+        name,
+        description: goal.description?.trim() || undefined,
+        keywords: readList(goal.keywords, `${label} keywords`),
+        apps: readList(goal.apps, `${label} apps`),
+        repos: readList(goal.repos, `${label} repos`),
+        daily_target_minutes: target,
+        active: goal.active !== false
+      }
+    })
+  }
+
+  public getGoals(): Goal[] {
+    return this.goals.map(goal => ({ ...goal }))
+  }
+
+  public getActiveGoals(): Goal[] {
+    return this.getGoals().filter(goal => goal.active)
+  }
+
+  /**
+   * Replace the list and save it. Throws if any goal is invalid.
+   */
+  public async setGoals(goals: Goal[]): Promise<void> {
+    if (this.saveBlocked) {
+      throw new Error(`The goals file ${this.filePath} could not be read; fix or remove it before saving goals`)
+    }
+    const validated = GoalList.validate(goals)
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.promises.writeFile(this.filePath, JSON.stringify(validated, null, 2))
+    this.goals = validated
+    console.log(`[GoalList] Saved ${this.goals.length} goals`)
+  }
+
+  /**
+   * Time per goal from minutes keyed by goal id. Active goals are listed
+   * even without time; removed goals are left out.
+   */
+  public getProjectTime(projectMinutes: Record<string, number>): ProjectTime[] {
+    return this.goals
+      .filter(goal => goal.active || projectMinutes[goal.id])
+      .map(goal => ({
+        goal_id: goal.id,
+        name: goal.name,
+        minutes: Math.round(projectMinutes[goal.id] || 0),
+        daily_target_minutes: goal.daily_target_minutes ?? null,
+        active: goal.active
+      }))
+  }
+
+  /**
+   * Id of the goal the model named, or null for "none" and unknown names
+   */
+  public static findByName(goals: Goal[], name: unknown): string | null {
+    if (typeof name !== "string") return null
+    const normalized = name.trim().toLowerCase()
+    return goals.find(goal => goal.name.toLowerCase() === normalized)?.id ?? null
+  }
+
+  /**
+   * Id of the first goal whose apps name the window's app, or whose repos
+   * or keywords appear in its title; null when none does
+   */
+  public static matchWindow(goals: Goal[], window: ActiveWindowInfo | null): string | null {
+    if (!window) return null
+
+    const windowClass = (window.window_class || "").toLowerCase()
+    const title = (window.window_title || "").toLowerCase()
+    const inTitle = (term: string) => !!title && title.includes(term.toLowerCase())
+
+    const goal = goals.find(goal =>
+      (!!windowClass && (goal.apps || []).some(app => windowClass.includes(app.toLowerCase()))) ||
+      (goal.repos || []).some(inTitle) ||
+      (goal.keywords || []).some(inTitle)
+    )
+    return goal?.id ?? null
+  }
+
+  /**
+   * Prompt section listing the goals, or an empty string
+   */
+  public static describe(goals: Goal[]): string {
+    if (goals.length === 0) return ""
+
+    return `
+USER GOALS (goal_related means the activity advances one of these goals; other work is work_unrelated):
+${goals.map(describeGoal).join("\n")}
+Add "project": the name of the goal this activity advances, or "none".
+`
+  }
+}
@@ -0,0 +1,124 @@
+// IdleMonitor.ts
+
+import { powerMonitor } from "electron"
+import { v4 as uuidv4 } from "uuid"
+import { AwayReason, TrackingEvent } from "./StorageHelper"
+
+export interface IdleMonitorCallbacks {
+  onAway: (reason: AwayReason) => void
+  onReturn: () => void
+  storeEvent: (event: TrackingEvent) => Promise<void> // Stores or queues the event
+}
+
+const POLL_INTERVAL_MS = 15000
+
+/**
+ * Watches powerMonitor for idle time, screen locks and sleep. Each away
+ * period is stored as an "away" tracking event, opened when it starts and
+ * closed when the user is back, and the callbacks pause and resume capture.
+ * Must be started after the app is ready.
+ */
+export class IdleMonitor {
+  private readonly idleThresholdSeconds: number
+  private readonly callbacks: IdleMonitorCallbacks
+  private pollInterval: NodeJS.Timeout | null = null
+  private currentAway: TrackingEvent | null = null
+  private suspended = false
+
+  private readonly handleLock = () => this.beginAway("lock_screen", new Date())
+  private readonly handleSuspend = () => {
+    this.suspended = true
+    this.beginAway("suspend", new Date())
+  }
+  private readonly handleResume = () => {
+    this.suspended = false
+    this.check()
+  }
+  private readonly handleUnlock = () => this.check()
+
+  constructor(idleThresholdSeconds: number, callbacks: IdleMonitorCallbacks) {
+    this.idleThresholdSeconds = idleThresholdSeconds
+    this.callbacks = callbacks
+  }
+
+  public start(): void {
+    this.stop()
+    powerMonitor.on("lock-screen", this.handleLock)
+    powerMonitor.on("unlock-screen", this.handleUnlock)
+    powerMonitor.on("suspend", this.handleSuspend)
+    powerMonitor.on("resume", this.handleResume)
+    this.pollInterval = setInterval(() => this.check(), POLL_INTERVAL_MS)
+    console.log(`[IdleMonitor] Started (idle after ${this.idleThresholdSeconds}s)`)
+  }
+
+  /**
+   * Stop watching and close any open away period, e.g. on quit
+   */
+  public stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval)
+      this.pollInterval = null
+    }
+    powerMonitor.removeListener("lock-screen", this.handleLock)
+    powerMonitor.removeListener("unlock-screen", this.handleUnlock)
+    powerMonitor.removeListener("suspend", this.handleSuspend)
+    powerMonitor.removeListener("resume", this.handleResume)
+
+    if (this.currentAway) {
+      this.endAway()
+    }
+  }
+
+  public getIdleThresholdSeconds(): number {
+    return this.idleThresholdSeconds
+  }
+
+  public isAway(): boolean {
+    return this.currentAway !== null
+  }
+
+  private check(): void {
+    if (this.suspended) return
+
+    const state = powerMonitor.getSystemIdleState(this.idleThresholdSeconds)
+
+    if (state === "locked") {
+      this.beginAway("lock_screen", new Date())
+    } else if (state === "idle") {
+      // The user left when input stopped, not when the threshold passed
+      const idleSeconds = powerMonitor.getSystemIdleTime()
+      this.beginAway("idle", new Date(Date.now() - idleSeconds * 1000))
+    } else if (state === "active" && this.currentAway) {
+      this.endAway()
+    }
+  }
+
+  private beginAway(reason: AwayReason, startedAt: Date): void {
+    if (this.currentAway) return
+
+    this.currentAway = {
+      event_id: uuidv4(),
+      event_type: "away",
+      reason,
+      started_at: startedAt.toISOString(),
+      ended_at: null
+    }
+    console.log(`[IdleMonitor] User away (${reason}) since ${startedAt.toLocaleTimeString()}`)
+    this.persist(this.currentAway)
+    this.callbacks.onAway(reason)
+  }
+
+  private endAway(): void {
+    const event = { ...this.currentAway, ended_at: new Date().toISOString() }
+    this.currentAway = null
+    console.log(`[IdleMonitor] User back after ${event.reason} period`)
+    this.persist(event)
+    this.callbacks.onReturn()
+  }
+
+  private persist(event: TrackingEvent): void {
+    this.callbacks.storeEvent(event).catch(error => {
+      console.error("[IdleMonitor] Failed to store away period:", error)
+    })
+  }
+}
@@ -1,6 +1,38 @@
-import { GoogleGenerativeAI, GenerativeModel, GenerateContentResult } from "@google/generative-ai"
 import fs from "fs/promises"
-import { ActivityRecord } from "./StorageHelper"
+import {
+  ActivityRecord,
+  ClassifiedActivityRecord,
+  TrackingEvent,
+  getRecordDuration,
+  getRecordTimestamp,
+  isClassifiedRecord,
+  isPrivateRecord
+} from "./StorageHelper"
+import {
+  DEFAULT_MODELS,
+  ModelProvider,
+  ModelProviderConfig,
+  ModelProviderName,
+  ModelTask
+} from "./ModelProvider"
+import { GeminiModelProvider } from "./GeminiModelProvider"
+import { OpenAICompatibleModelProvider } from "./OpenAICompatibleModelProvider"
+import { OllamaModelProvider } from "./OllamaModelProvider"
+import { MockModelProvider } from "./MockModelProvider"
+import { ActiveWindowInfo } from "./ActiveWindowHelper"
+import { DisplayScreenshot } from "./CaptureSource"
+import { CorrectionExample, CorrectionExamples } from "./CorrectionExamples"
+import { Goal, GoalList } from "./GoalList"
+import { JsonSchema } from "./ModelProvider"
+import { AnalysisSettings, ModelSettings, SettingsHelper } from "./SettingsHelper"
+import { TimeGapReason, getGapReason } from "./TimeGaps"
+import {
+  ACTIVITY_CLASSIFICATION_SCHEMA,
+  ActivityClassification,
+  OutOfVocabularyValue,
+  describeActivitySchema,
+  validateClassification
+} from "./ActivitySchema"
 
 // Proper type definitions
 interface WorkSession {
@@ -18,7 +50,7 @@ interface TimeGap {
   startTime: Date
   endTime: Date
   durationMinutes: number
-  reason: 'away_from_computer' | 'app_closed' | 'system_idle'
+  reason: TimeGapReason
 }
 
 interface SessionAnalysis {
@@ -26,6 +58,9 @@ interface SessionAnalysis {
   gaps: TimeGap[]
   totalActiveMinutes: number
   totalGapMinutes: number
+  // Time-weighted minutes per value, over all analyzed records
+  cognitiveStateMinutes: Record<string, number>
+  goalRelevanceMinutes: Record<string, number>
   dataQuality: 'high' | 'medium' | 'low'
   warnings: string[]
 }
@@ -39,44 +74,125 @@ interface DailyInsights {
     generatedAt: string
     dataPoints: number
     sessionsAnalyzed: number
+    unclassifiedExcluded?: number
+    privateExcluded?: number
     promptTokensUsed?: number
   }
 }
 
-// Configuration
-const CONFIG = {
-  MIN_GAP_MINUTES: 5,
-  MAX_SESSION_HOURS: 4,
-  MAX_ACTIVITIES_PER_PROMPT: 200,
-  MAX_PROMPT_RETRIES: 3,
-  RETRY_DELAY_MS: 1000,
-  TOKEN_LIMIT_BUFFER: 0.8, // Use only 80% of token limit
-} as const
+// Provider and model used for each task
+export type LLMConfig = Record<ModelTask, ModelProviderConfig>
+
+/**
+ * What the user has told the app, added to the classification prompts
+ */
+export interface ClassificationGuidance {
+  examples?: CorrectionExample[] // Corrections of similar windows
+  goals?: Goal[] // Active goals; the model names the one the activity advances
+}
+
+// Classification with the goal the model attributed it to
+type GoalClassification = ActivityClassification & { project_id?: string | null }
+
+// With goals the model also answers which one the activity belongs to
+const withProjectField = (schema: JsonSchema, goals: Goal[]): JsonSchema =>
+  goals.length === 0
+    ? schema
+    : {
+        ...schema,
+        properties: {
+          ...schema.properties,
+          project: {
+            type: "string",
+            enum: [...goals.map(goal => goal.name), "none"],
+            description: "Name of the user goal this activity advances, or none"
+          }
+        },
+        required: [...(schema.required || []), "project"]
+      }
 
 export class LLMHelper {
-  private model: GenerativeModel
+  private providers: Record<ModelTask, ModelProvider>
   private readonly logger = this.createLogger()
+  // "field:value" -> times the model returned that value
+  private outOfVocabularyCounts = new Map<string, number>()
 
-  constructor(apiKey: string) {
-    if (!apiKey || apiKey.length < 10) {
-      throw new Error("Invalid Gemini API key provided")
-    }
-    
+  constructor(config: LLMConfig) {
     try {
-      const genAI = new GoogleGenerativeAI(apiKey)
-      this.model = genAI.getGenerativeModel({ 
-        model: "gemini-2.0-flash",
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 8192,
-        }
-      })
+      this.providers = {
+        vision: LLMHelper.createProvider(config.vision),
+        text: LLMHelper.createProvider(config.text),
+        audio: LLMHelper.createProvider(config.audio)
+      }
     } catch (error) {
-      this.logger.error("Failed to initialize Gemini model", error)
+      this.logger.error("Failed to initialize model providers", error)
       throw new Error(`LLMHelper initialization failed: ${error.message}`)
     }
+
+    this.logger.info("Model providers ready", this.getProviderInfo())
+  }
+
+  private static createProvider(config: ModelProviderConfig): ModelProvider {
+    switch (config.provider) {
+      case "gemini":
+        return new GeminiModelProvider(config)
+      case "openai":
+        return new OpenAICompatibleModelProvider(config)
+      case "ollama":
+        return new OllamaModelProvider(config)
+      case "mock":
+        return new MockModelProvider(config)
+      default:
+        throw new Error(`Unknown model provider: ${config.provider}`)
+    }
+  }
+
+  /**
+   * Build the per-task configuration from the model settings. The default
+   * provider and model apply to every task unless the task's own settings
+   * override them.
+   */
+  public static configFromSettings(settings: ModelSettings): LLMConfig {
+    const resolve = (task: ModelTask): ModelProviderConfig => {
+      const override = settings.tasks[task]
+      const provider = override.provider || settings.provider
+
+      return {
+        provider,
+        model:
+          override.model ||
+          (provider === settings.provider ? settings.model : null) ||
+          DEFAULT_MODELS[provider],
+        apiKey: (provider === "gemini" ? settings.geminiApiKey : provider === "openai" ? settings.openaiApiKey : null) || undefined,
+        baseUrl: (provider === "openai" ? settings.openaiBaseUrl : provider === "ollama" ? settings.ollamaBaseUrl : null) || undefined,
+        fixturesDir: (provider === "mock" ? settings.mockFixturesDir : null) || undefined,
+        generation: settings.generation
+      }
+    }
+
+    return {
+      vision: resolve("vision"),
+      text: resolve("text"),
+      audio: resolve("audio")
+    }
+  }
+
+  public getProvider(task: ModelTask): ModelProvider {
+    return this.providers[task]
+  }
+
+  public getProviderInfo(): Record<ModelTask, { provider: ModelProviderName; model: string }> {
+    const info = (provider: ModelProvider) => ({ provider: provider.name, model: provider.model })
+    return {
+      vision: info(this.providers.vision),
+      text: info(this.providers.text),
+      audio: info(this.providers.audio)
+    }
+  }
+
+  // Read on every use so edits in the settings apply right away
+  private get analysis(): AnalysisSettings {
+    return SettingsHelper.get().analysis
   }
 
   private createLogger() {
@@ -113,7 +229,7 @@ export class LLMHelper {
 
   private async retryWithBackoff<T>(
     operation: () => Promise<T>,
-    maxRetries: number = CONFIG.MAX_PROMPT_RETRIES
+    maxRetries: number = this.analysis.maxPromptRetries
   ): Promise<T> {
     let lastError: Error | null = null
     
@@ -125,7 +241,7 @@ export class LLMHelper {
         this.logger.warn(`Attempt ${attempt} failed`, error)
         
         if (attempt < maxRetries) {
-          const delay = CONFIG.RETRY_DELAY_MS * Math.pow(2, attempt - 1)
+          const delay = this.analysis.retryDelayMs * Math.pow(2, attempt - 1)
           await new Promise(resolve => setTimeout(resolve, delay))
         }
       }
@@ -134,20 +250,59 @@ export class LLMHelper {
     throw new Error(`Operation failed after ${maxRetries} attempts: ${lastError?.message}`)
   }
 
-  private validateActivityRecord(record: any): record is ActivityRecord {
-    const required = [
-      'app_classification',
-      'goal_relevance',
-      'cognitive_state',
-      'context_switching',
-      'attention_residue',
-      'procrastination_signal',
-      'energy_level'
-    ]
-    
-    return required.every(field => 
-      record.hasOwnProperty(field) && record[field] !== null && record[field] !== undefined
-    )
+  /**
+   * @param goals Goals listed in the prompt; the one named in "project"
+   * becomes project_id
+   * @param displayNames Displays listed in the prompt; the one named in
+   * "primary_display" is returned with the classification
+   */
+  private parseActivityClassification(
+    text: string,
+    goals: Goal[] = [],
+    displayNames: string[] = []
+  ): GoalClassification & { primary_display?: string } {
+    const raw = JSON.parse(this.cleanJsonResponse(text))
+    const validation = validateClassification(raw)
+
+    if (validation.outOfVocabulary.length > 0) {
+      validation.outOfVocabulary.forEach(({ field, value }) => {
+        const key = `${field}:${value}`
+        this.outOfVocabularyCounts.set(key, (this.outOfVocabularyCounts.get(key) || 0) + 1)
+      })
+      this.logger.warn("Model returned out-of-vocabulary values", validation.outOfVocabulary)
+    }
+
+    if (!validation.classification) {
+      const problems = [
+        ...validation.missingFields.map(field => `missing ${field}`),
+        ...validation.outOfVocabulary.map(({ field, value }) => `${field}="${value}"`)
+      ]
+      throw new Error(`Invalid activity classification from LLM: ${problems.join(", ")}`)
+    }
+
+    const classification: GoalClassification & { primary_display?: string } = goals.length > 0
+      ? { ...validation.classification, project_id: GoalList.findByName(goals, raw.project) }
+      : validation.classification
+    if (displayNames.includes(raw.primary_display)) {
+      classification.primary_display = raw.primary_display
+    }
+    return classification
+  }
+
+  /**
+   * Out-of-vocabulary values seen since startup, most frequent first
+   */
+  public getOutOfVocabularyReport(): Array<OutOfVocabularyValue & { count: number }> {
+    return Array.from(this.outOfVocabularyCounts.entries())
+      .map(([key, count]) => {
+        const separator = key.indexOf(":")
+        return {
+          field: key.slice(0, separator) as OutOfVocabularyValue["field"],
+          value: key.slice(separator + 1),
+          count
+        }
+      })
+      .sort((a, b) => b.count - a.count)
   }
 
   private async readImageFile(imagePath: string): Promise<string> {
@@ -160,64 +315,81 @@ export class LLMHelper {
     }
   }
 
-  public async classifyProductivityActivity(imagePath: string): Promise<ActivityRecord> {
-    if (!imagePath || typeof imagePath !== 'string') {
+  /**
+   * @param screenshots A screenshot path, or one screenshot per display; with
+   * several the model also reports which display holds the main activity
+   * @param activeWindow Focused window reported by the OS, given to the
+   * model as ground truth for the app and document
+   * @param guidance User corrections of similar windows and the active goals
+   */
+  public async classifyProductivityActivity(
+    screenshots: string | DisplayScreenshot[],
+    activeWindow: ActiveWindowInfo | null = null,
+    guidance: ClassificationGuidance = {}
+  ): Promise<GoalClassification & { primary_display?: string }> {
+    const { examples = [], goals = [] } = guidance
+    const images = typeof screenshots === 'string'
+      ? [{ path: screenshots, display: null }]
+      : screenshots
+    if (images.length === 0 || images.some(image => !image.path || typeof image.path !== 'string')) {
       throw new Error("Invalid image path provided")
     }
 
-    this.logger.info(`Classifying activity from screenshot: ${imagePath}`)
+    this.logger.info(`Classifying activity from screenshot: ${images.map(image => image.path).join(', ')}`)
 
     try {
-      const imageData = await this.readImageFile(imagePath)
+      const imageData = await Promise.all(images.map(image => this.readImageFile(image.path)))
       
-      const imagePart = {
-        inlineData: {
-          data: imageData,
-          mimeType: "image/png"
-        }
-      }
+      const schema = describeActivitySchema()
+
+      // Several displays: name each image and ask which one holds the main activity
+      const displayNames = images.map((image, i) => image.display || `Display ${i + 1}`)
+      const multiDisplay = images.length > 1
+      const displayContext = multiDisplay
+        ? `
+DISPLAYS: ${images.length} screenshots follow, one per display, in this order: ${displayNames.map((name, i) => `${i + 1}. ${name}`).join('; ')}.
+Classify the user's primary activity across all displays and add "primary_display": the name of the display that holds it.
+`
+        : ''
+      const classificationSchema = withProjectField(ACTIVITY_CLASSIFICATION_SCHEMA, goals)
+      const responseSchema: JsonSchema = multiDisplay
+        ? {
+            ...classificationSchema,
+            properties: {
+              ...classificationSchema.properties,
+              primary_display: { type: "string", enum: displayNames, description: "Display holding the primary activity" }
+            },
+            required: [...(classificationSchema.required || []), "primary_display"]
+          }
+        : classificationSchema
       
+      const windowContext = activeWindow
+        ? `
+FOCUSED WINDOW (reported by the operating system, trust this over the pixels for app_classification):
+- Application class: ${activeWindow.window_class || 'unknown'}
+- Window title: ${activeWindow.window_title || 'unknown'}
+`
+        : ''
+
       const prompt = `You are a productivity behavior analyst. Analyze this screenshot objectively for work patterns. Return JSON format:
 
-{
-  "app_classification": "AppName - DocumentName",
-  "goal_relevance": "goal_related" | "work_unrelated" | "personal" | "break" | "distraction",
-  "cognitive_state": "deep_focus" | "light_work" | "browsing" | "communication" | "break",
-  "context_switching": "continuing_task" | "new_task" | "rapid_switching",
-  "attention_residue": "clean_focus" | "previous_task_visible" | "multiple_contexts",
-  "procrastination_signal": "none" | "social_media_after_work" | "research_rabbit_hole" | "entertainment",
-  "energy_level": "high_focus_work" | "medium_complexity" | "low_energy_tasks" | "break_time"
-}
+${schema.format}
 
 VISUAL ANALYSIS CRITERIA:
-- app_classification: Main app with focus + specific file/page/tab title
-- goal_relevance: Work apps (VS Code, Figma, Excel) = goal_related; Social media/entertainment = distraction
-- cognitive_state: Full screen work app = deep_focus; Multiple tabs/windows = light_work; Social/video = browsing
-- context_switching: Same app as likely previous = continuing_task; Different app type = new_task
-- attention_residue: Clean desktop/single app = clean_focus; Multiple apps/tabs visible = multiple_contexts
-- procrastination_signal: Social media, YouTube, news sites = check type based on context
-- energy_level: Complex work (coding, design, writing) = high_focus_work; Email, admin = low_energy_tasks
-
-Analyze only what you can see. Return ONLY the JSON object.`
-
-      const result = await this.retryWithBackoff(async () => {
-        return await this.model.generateContent([prompt, imagePart])
+${schema.criteria}
+${windowContext}${displayContext}${GoalList.describe(goals)}${CorrectionExamples.describe(examples)}
+Use only the listed values for each field. Analyze only what you can see. Return ONLY the JSON object.`
+
+      // Invalid or out-of-vocabulary responses are retried like API errors
+      const activityRecord = await this.retryWithBackoff(async () => {
+        const responseText = await this.providers.vision.generateFromImages(
+          prompt,
+          imageData.map(data => ({ data, mimeType: "image/png" })),
+          { responseSchema }
+        )
+        return this.parseActivityClassification(responseText, goals, multiDisplay ? displayNames : [])
       })
       
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
-      const parsed = JSON.parse(text)
-      
-      // Validate the response structure
-      if (!this.validateActivityRecord(parsed)) {
-        throw new Error("Invalid activity classification format from LLM")
-      }
-      
-      // Return the activity record
-      const activityRecord: ActivityRecord = {
-        ...parsed
-      }
-      
       this.logger.info("Successfully classified activity", {
         app: activityRecord.app_classification,
         state: activityRecord.cognitive_state
@@ -226,22 +398,65 @@ Analyze only what you can see. Return ONLY the JSON object.`
       return activityRecord
       
     } catch (error) {
+      // Callers store the capture as unclassified rather than inventing values
       this.logger.error("Failed to classify productivity activity", error)
-      
-      // Return a safe default if classification fails
-      return {
-        app_classification: "Unknown - Error in classification",
-        goal_relevance: "work_unrelated",
-        cognitive_state: "break",
-        context_switching: "new_task",
-        attention_residue: "multiple_contexts",
-        procrastination_signal: "none",
-        energy_level: "low_energy_tasks"
-      }
+      throw new Error(`Activity classification failed: ${error.message}`)
     }
   }
 
-  private analyzeWorkSessions(activities: ActivityRecord[]): SessionAnalysis {
+  /**
+   * Classify from window metadata alone with a text-only call, for the
+   * mode that never takes screenshots.
+   * @param fixed Fields already decided by a matching rule; they are given
+   * to the model as context and always win over its answer
+   * @param guidance User corrections of similar windows and the active goals
+   */
+  public async classifyWindowActivity(
+    activeWindow: ActiveWindowInfo,
+    idleSeconds: number | null, // Null when unknown, e.g. for retried records
+    fixed: Partial<ActivityClassification> = {},
+    guidance: ClassificationGuidance = {}
+  ): Promise<GoalClassification> {
+    const { examples = [], goals = [] } = guidance
+    this.logger.info(`Classifying activity from window: ${activeWindow.window_class}`)
+
+    try {
+      const schema = describeActivitySchema()
+      const fixedLines = Object.entries(fixed).map(([field, value]) => `- ${field}: ${value}`)
+
+      const prompt = `You are a productivity behavior analyst. No screenshot is available; classify the user's current activity from the focused window reported by the operating system. Return JSON format:
+
+${schema.format}
+
+CLASSIFICATION CRITERIA:
+${schema.criteria}
+
+FOCUSED WINDOW:
+- Application class: ${activeWindow.window_class || 'unknown'}
+- Window title: ${activeWindow.window_title || 'unknown'}
+- Seconds since last keyboard/mouse input: ${idleSeconds ?? 'unknown'}
+${fixedLines.length > 0 ? `\nALREADY DECIDED (use these values exactly):\n${fixedLines.join('\n')}\n` : ''}${GoalList.describe(goals)}${CorrectionExamples.describe(examples)}
+For app_classification use 'AppName - DocumentName' from the window. Use only the listed values for each field. Return ONLY the JSON object.`
+
+      const classification = await this.retryWithBackoff(async () => {
+        const responseText = await this.providers.text.generateText(
+          prompt,
+          { responseSchema: withProjectField(ACTIVITY_CLASSIFICATION_SCHEMA, goals) }
+        )
+        return this.parseActivityClassification(responseText, goals)
+      })
+
+      return { ...classification, ...fixed }
+    } catch (error) {
+      this.logger.error("Failed to classify window activity", error)
+      throw new Error(`Activity classification failed: ${error.message}`)
+    }
+  }
+
+  private analyzeWorkSessions(
+    activities: ClassifiedActivityRecord[],
+    trackingEvents: TrackingEvent[] = []
+  ): SessionAnalysis {
     const sessions: WorkSession[] = []
     const gaps: TimeGap[] = []
     const warnings: string[] = []
@@ -252,6 +467,8 @@ Analyze only what you can see. Return ONLY the JSON object.`
         gaps: [],
         totalActiveMinutes: 0,
         totalGapMinutes: 0,
+        cognitiveStateMinutes: {},
+        goalRelevanceMinutes: {},
         dataQuality: 'low',
         warnings: ['No activity data provided']
       }
@@ -259,11 +476,15 @@ Analyze only what you can see. Return ONLY the JSON object.`
 
     // Sort activities by timestamp to ensure chronological order
     const sortedActivities = [...activities].sort((a, b) => {
-      const timeA = new Date(a.created_at || 0).getTime()
-      const timeB = new Date(b.created_at || 0).getTime()
+      const timeA = new Date(getRecordTimestamp(a) || 0).getTime()
+      const timeB = new Date(getRecordTimestamp(b) || 0).getTime()
       return timeA - timeB
     })
 
+    const awayEvents = trackingEvents.filter(event =>
+      event.event_type === 'away' || event.event_type === 'paused'
+    )
+
     let currentSession: WorkSession | null = null
     let sessionCounter = 0
 
@@ -273,7 +494,7 @@ Analyze only what you can see. Return ONLY the JSON object.`
       // Get activity timestamp safely
       const activityTime = (() => {
         try {
-          const time = new Date(activity.created_at || 0)
+          const time = new Date(getRecordTimestamp(activity) || 0)
           if (isNaN(time.getTime())) {
             warnings.push(`Invalid timestamp at index ${i}`)
             return null
@@ -287,25 +508,30 @@ Analyze only what you can see. Return ONLY the JSON object.`
 
       if (!activityTime) continue
 
+      // Each record covers its duration from the moment it was captured
+      const activityEnd = new Date(activityTime.getTime() + getRecordDuration(activity) * 1000)
+
       // Check for time gaps
       if (i > 0 && currentSession) {
         const prevActivity = sortedActivities[i - 1]
-        const prevTime = new Date(prevActivity.created_at || 0)
-        const gapMinutes = Math.round((activityTime.getTime() - prevTime.getTime()) / 1000 / 60)
+        const prevTime = new Date(getRecordTimestamp(prevActivity) || 0)
+        const captureGapMinutes = Math.round((activityTime.getTime() - prevTime.getTime()) / 1000 / 60)
         
-        if (gapMinutes > CONFIG.MIN_GAP_MINUTES) {
+        if (captureGapMinutes > this.analysis.minGapMinutes) {
           // Close current session
           sessions.push({
             ...currentSession,
+            dominantCognitiveState: this.getDominantCognitiveState(currentSession.activities),
             isComplete: true
           })
           
-          // Record gap
+          // The gap starts where the previous record's time runs out
+          const gapStart = currentSession.endTime < activityTime ? currentSession.endTime : activityTime
           gaps.push({
-            startTime: prevTime,
+            startTime: gapStart,
             endTime: activityTime,
-            durationMinutes: gapMinutes,
-            reason: gapMinutes > 60 ? 'app_closed' : 'away_from_computer'
+            durationMinutes: Math.round((activityTime.getTime() - gapStart.getTime()) / 1000 / 60),
+            reason: getGapReason(gapStart, activityTime, awayEvents)
           })
           
           currentSession = null
@@ -318,24 +544,25 @@ Analyze only what you can see. Return ONLY the JSON object.`
         currentSession = {
           id: `session_${sessionCounter}`,
           startTime: activityTime,
-          endTime: activityTime,
-          durationMinutes: 0,
+          endTime: activityEnd,
+          durationMinutes: Math.round(getRecordDuration(activity) / 60),
           activities: [activity],
           dominantCognitiveState: activity.cognitive_state,
           appsUsed: new Set([activity.app_classification.split(' - ')[0]]),
           isComplete: false
         }
       } else {
-        currentSession.endTime = activityTime
+        currentSession.endTime = activityEnd
         currentSession.activities.push(activity)
+        // Tracked time, not wall-clock span, so dropped captures don't inflate it
         currentSession.durationMinutes = Math.round(
-          (currentSession.endTime.getTime() - currentSession.startTime.getTime()) / 1000 / 60
+          currentSession.activities.reduce((sum, a) => sum + getRecordDuration(a), 0) / 60
         )
         currentSession.appsUsed.add(activity.app_classification.split(' - ')[0])
         
         // Check for excessively long sessions
-        if (currentSession.durationMinutes > CONFIG.MAX_SESSION_HOURS * 60) {
-          warnings.push(`Session ${currentSession.id} exceeds ${CONFIG.MAX_SESSION_HOURS} hours`)
+        if (currentSession.durationMinutes > this.analysis.maxSessionHours * 60) {
+          warnings.push(`Session ${currentSession.id} exceeds ${this.analysis.maxSessionHours} hours`)
         }
       }
     }
@@ -344,6 +571,7 @@ Analyze only what you can see. Return ONLY the JSON object.`
     if (currentSession) {
       sessions.push({
         ...currentSession,
+        dominantCognitiveState: this.getDominantCognitiveState(currentSession.activities),
         isComplete: false // Last session might be ongoing
       })
     }
@@ -351,6 +579,8 @@ Analyze only what you can see. Return ONLY the JSON object.`
     // Calculate totals
     const totalActiveMinutes = sessions.reduce((sum, session) => sum + session.durationMinutes, 0)
     const totalGapMinutes = gaps.reduce((sum, gap) => sum + gap.durationMinutes, 0)
+    const cognitiveStateMinutes = this.sumMinutesBy(sortedActivities, a => a.cognitive_state)
+    const goalRelevanceMinutes = this.sumMinutesBy(sortedActivities, a => a.goal_relevance)
 
     // Determine data quality
     const dataQuality = (() => {
@@ -365,28 +595,57 @@ Analyze only what you can see. Return ONLY the JSON object.`
       gaps,
       totalActiveMinutes,
       totalGapMinutes,
+      cognitiveStateMinutes,
+      goalRelevanceMinutes,
       dataQuality,
       warnings
     }
   }
 
+  private sumMinutesBy(
+    activities: ClassifiedActivityRecord[],
+    key: (activity: ClassifiedActivityRecord) => string
+  ): Record<string, number> {
+    const seconds: Record<string, number> = {}
+    for (const activity of activities) {
+      const value = key(activity)
+      seconds[value] = (seconds[value] || 0) + getRecordDuration(activity)
+    }
+    return Object.fromEntries(
+      Object.entries(seconds).map(([value, total]) => [value, Math.round(total / 60)])
+    )
+  }
+
+  // The state the session spent the most time in
+  private getDominantCognitiveState(activities: ClassifiedActivityRecord[]): string {
+    const minutes = this.sumMinutesBy(activities, a => a.cognitive_state)
+    return Object.entries(minutes).sort((a, b) => b[1] - a[1])[0]?.[0] || 'unknown'
+  }
+
   private truncateActivitiesForPrompt(activities: ActivityRecord[]): {
     truncated: ActivityRecord[]
     isTruncated: boolean
   } {
-    if (activities.length <= CONFIG.MAX_ACTIVITIES_PER_PROMPT) {
+    const { maxActivitiesPerPrompt } = this.analysis
+    if (activities.length <= maxActivitiesPerPrompt) {
       return { truncated: activities, isTruncated: false }
     }
 
     // Take evenly distributed sample
-    const step = Math.floor(activities.length / CONFIG.MAX_ACTIVITIES_PER_PROMPT)
+    const step = Math.floor(activities.length / maxActivitiesPerPrompt)
     const truncated = activities.filter((_, index) => index % step === 0)
-      .slice(0, CONFIG.MAX_ACTIVITIES_PER_PROMPT)
+      .slice(0, maxActivitiesPerPrompt)
 
     return { truncated, isTruncated: true }
   }
 
-  public async generateDailyInsights(activities: ActivityRecord[]): Promise<DailyInsights> {
+  /**
+   * @param trackingEvents Away periods for the day, used to explain gaps
+   */
+  public async generateDailyInsights(
+    activities: ActivityRecord[],
+    trackingEvents: TrackingEvent[] = []
+  ): Promise<DailyInsights> {
     this.logger.info(`Generating daily insights for ${activities.length} activities`)
 
     // Validate input
@@ -408,29 +667,52 @@ Analyze only what you can see. Return ONLY the JSON object.`
       }
     }
 
+    // Unclassified and private captures carry no behavioral data, so only their count is reported
+    const classified = activities.filter(isClassifiedRecord)
+    const privateCount = activities.filter(isPrivateRecord).length
+    const unclassifiedCount = activities.length - classified.length - privateCount
+    if (unclassifiedCount > 0) {
+      this.logger.warn(`Excluding ${unclassifiedCount} unclassified activities from insights`)
+    }
+
+    if (classified.length === 0) {
+      return {
+        executiveSummary: `None of the ${activities.length} captures recorded for this day could be classified yet.`,
+        productivityNarrative: "No classified work sessions are available.",
+        behavioralPatterns: "Insufficient data to identify patterns.",
+        recommendations: "Check the model provider configuration; unclassified captures are retried automatically.",
+        metadata: {
+          generatedAt: new Date().toISOString(),
+          dataPoints: 0,
+          sessionsAnalyzed: 0,
+          unclassifiedExcluded: unclassifiedCount,
+          privateExcluded: privateCount
+        }
+      }
+    }
+
     try {
       // Analyze work sessions
-      const sessionAnalysis = this.analyzeWorkSessions(activities)
+      const sessionAnalysis = this.analyzeWorkSessions(classified, trackingEvents)
       
       if (sessionAnalysis.dataQuality === 'low') {
         this.logger.warn("Low quality data detected", sessionAnalysis.warnings)
       }
 
       // Prepare data for prompt (with truncation if needed)
-      const { truncated, isTruncated } = this.truncateActivitiesForPrompt(activities)
+      const { truncated, isTruncated } = this.truncateActivitiesForPrompt(classified)
       
       if (isTruncated) {
-        this.logger.warn(`Truncated activities from ${activities.length} to ${truncated.length} for prompt`)
+        this.logger.warn(`Truncated activities from ${classified.length} to ${truncated.length} for prompt`)
       }
 
-      const prompt = this.buildDailyInsightsPrompt(sessionAnalysis, truncated, isTruncated)
+      const prompt = this.buildDailyInsightsPrompt(sessionAnalysis, truncated, isTruncated, unclassifiedCount, privateCount)
 
-      const result = await this.retryWithBackoff(async () => {
-        return await this.model.generateContent(prompt)
+      const responseText = await this.retryWithBackoff(async () => {
+        return await this.providers.text.generateText(prompt, { json: true })
       })
 
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
+      const text = this.cleanJsonResponse(responseText)
       const insights = JSON.parse(text)
 
       // Validate response structure
@@ -445,8 +727,10 @@ Analyze only what you can see. Return ONLY the JSON object.`
         ...insights,
         metadata: {
           generatedAt: new Date().toISOString(),
-          dataPoints: activities.length,
-          sessionsAnalyzed: sessionAnalysis.sessions.length
+          dataPoints: classified.length,
+          sessionsAnalyzed: sessionAnalysis.sessions.length,
+          unclassifiedExcluded: unclassifiedCount,
+          privateExcluded: privateCount
         }
       }
 
@@ -459,15 +743,22 @@ Analyze only what you can see. Return ONLY the JSON object.`
   private buildDailyInsightsPrompt(
     analysis: SessionAnalysis, 
     activities: ActivityRecord[], 
-    isTruncated: boolean
+    isTruncated: boolean,
+    unclassifiedCount: number,
+    privateCount: number
   ): string {
     const { sessions, gaps, totalActiveMinutes, totalGapMinutes, warnings } = analysis
+    const formatMinutes = (minutes: Record<string, number>) =>
+      Object.entries(minutes)
+        .sort((a, b) => b[1] - a[1])
+        .map(([value, total]) => `${value} ${total} min`)
+        .join(', ')
 
     return `You are an expert productivity analyst. Analyze this complete day of work activity data and provide detailed insights that help the user understand their productivity patterns.
 
 ANALYSIS CONTEXT:
 - Total activity records: ${activities.length}${isTruncated ? ' (sampled for analysis)' : ''}
-- Work sessions identified: ${sessions.length}
+${unclassifiedCount > 0 ? `- Unclassified captures excluded from analysis: ${unclassifiedCount} (their activity is unknown; do not count them as breaks)\n` : ''}${privateCount > 0 ? `- Private captures excluded at the user's request: ${privateCount} (an excluded app or site was in use; do not speculate about it)\n` : ''}- Work sessions identified: ${sessions.length}
 - Time gaps (away from computer): ${gaps.length}
 - Total active time: ${Math.round(totalActiveMinutes / 60 * 10) / 10} hours
 - Total gap time: ${Math.round(totalGapMinutes / 60 * 10) / 10} hours
@@ -485,7 +776,11 @@ Session ${i + 1} (${session.id}):
 `).join('\n')}
 ${sessions.length > 10 ? `\n... and ${sessions.length - 10} more sessions` : ''}
 
-TIME GAPS (> ${CONFIG.MIN_GAP_MINUTES} minutes):
+TIME-WEIGHTED BREAKDOWN (each record counts for the time until the next capture; see duration_seconds):
+- Cognitive state: ${formatMinutes(analysis.cognitiveStateMinutes)}
+- Goal relevance: ${formatMinutes(analysis.goalRelevanceMinutes)}
+
+TIME GAPS (> ${this.analysis.minGapMinutes} minutes; system_idle, screen_locked and system_asleep were detected, user_paused means tracking was paused on purpose, other reasons are estimates):
 ${gaps.slice(0, 5).map(gap => 
   `- ${gap.durationMinutes} min gap (${gap.reason}) at ${gap.startTime.toLocaleTimeString()}`
 ).join('\n')}
@@ -542,12 +837,10 @@ IMPORTANT INSTRUCTIONS:
   // Preserve existing Cluely methods for backward compatibility
   public async extractProblemFromImages(imagePaths: string[]) {
     try {
-      const imageParts = await Promise.all(
+      const images = await Promise.all(
         imagePaths.map(async (path) => ({
-          inlineData: {
-            data: await this.readImageFile(path),
-            mimeType: "image/png"
-          }
+          data: await this.readImageFile(path),
+          mimeType: "image/png"
         }))
       )
       
@@ -560,9 +853,8 @@ IMPORTANT INSTRUCTIONS:
 }
 Important: Return ONLY the JSON object, without any markdown formatting or code blocks.`
 
-      const result = await this.model.generateContent([prompt, ...imageParts])
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
+      const responseText = await this.providers.vision.generateFromImages(prompt, images, { json: true })
+      const text = this.cleanJsonResponse(responseText)
       return JSON.parse(text)
     } catch (error) {
       this.logger.error("Error extracting problem from images", error)
@@ -587,9 +879,8 @@ Please provide your response in the following JSON format:
 Important: Return ONLY the JSON object, without any markdown formatting or code blocks.`
 
     try {
-      const result = await this.model.generateContent(prompt)
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
+      const responseText = await this.providers.text.generateText(prompt, { json: true })
+      const text = this.cleanJsonResponse(responseText)
       return JSON.parse(text)
     } catch (error) {
       this.logger.error("Error in generateSolution", error)
@@ -599,12 +890,10 @@ Important: Return ONLY the JSON object, without any markdown formatting or code
 
   public async debugSolutionWithImages(problemInfo: any, currentCode: string, debugImagePaths: string[]) {
     try {
-      const imageParts = await Promise.all(
+      const images = await Promise.all(
         debugImagePaths.map(async (path) => ({
-          inlineData: {
-            data: await this.readImageFile(path),
-            mimeType: "image/png"
-          }
+          data: await this.readImageFile(path),
+          mimeType: "image/png"
         }))
       )
       
@@ -625,9 +914,8 @@ Please analyze the debug information and provide feedback in this JSON format:
 }
 Important: Return ONLY the JSON object, without any markdown formatting or code blocks.`
 
-      const result = await this.model.generateContent([prompt, ...imageParts])
-      const response = await result.response
-      const text = this.cleanJsonResponse(response.text())
+      const responseText = await this.providers.vision.generateFromImages(prompt, images, { json: true })
+      const text = this.cleanJsonResponse(responseText)
       return JSON.parse(text)
     } catch (error) {
       this.logger.error("Error debugging solution with images", error)
@@ -638,17 +926,13 @@ Important: Return ONLY the JSON object, without any markdown formatting or code
   public async analyzeAudioFile(audioPath: string) {
     try {
       const audioData = await fs.readFile(audioPath)
-      const audioPart = {
-        inlineData: {
-          data: audioData.toString("base64"),
-          mimeType: "audio/mp3"
-        }
+      const audio = {
+        data: audioData.toString("base64"),
+        mimeType: "audio/mp3"
       }
       const prompt = `Describe this audio clip in a short, concise answer. In addition to your main answer, suggest several possible actions or responses the user could take next based on the audio. Do not return a structured JSON object, just answer naturally as you would to a user.`
       
-      const result = await this.model.generateContent([prompt, audioPart])
-      const response = await result.response
-      const text = response.text()
+      const text = await this.providers.audio.generateFromAudio(prompt, audio)
       return { text, timestamp: Date.now() }
     } catch (error) {
       this.logger.error("Error analyzing audio file", error)
@@ -658,17 +942,10 @@ Important: Return ONLY the JSON object, without any markdown formatting or code
 
   public async analyzeAudioFromBase64(data: string, mimeType: string) {
     try {
-      const audioPart = {
-        inlineData: {
-          data,
-          mimeType
-        }
-      }
+      const audio = { data, mimeType }
       const prompt = `Describe this audio clip in a short, concise answer. In addition to your main answer, suggest several possible actions or responses the user could take next based on the audio. Do not return a structured JSON object, just answer naturally as you would to a user and be concise.`
       
-      const result = await this.model.generateContent([prompt, audioPart])
-      const response = await result.response
-      const text = response.text()
+      const text = await this.providers.audio.generateFromAudio(prompt, audio)
       return { text, timestamp: Date.now() }
     } catch (error) {
       this.logger.error("Error analyzing audio from base64", error)
@@ -679,22 +956,15 @@ Important: Return ONLY the JSON object, without any markdown formatting or code
   public async analyzeImageFile(imagePath: string) {
     try {
       const imageData = await this.readImageFile(imagePath)
-      const imagePart = {
-        inlineData: {
-          data: imageData,
-          mimeType: "image/png"
-        }
-      }
       const prompt = `Describe the content of this image in a short, concise answer. In addition to your main answer, suggest several possible actions or responses the user could take next based on the image. Do not return a structured JSON object, just answer naturally as you would to a user. Be concise and brief.`
       
-      const result = await this.model.generateContent([prompt, imagePart])
-      const response = await result.response
-      const text = response.text()
+      const text = await this.providers.vision.generateFromImages(prompt, [
+        { data: imageData, mimeType: "image/png" }
+      ])
       return { text, timestamp: Date.now() }
     } catch (error) {
       this.logger.error("Error analyzing image file", error)
       throw error
     }
   }
-}/ /   U p d a t e d  
- 
\ No newline at end of file
+}
@@ -0,0 +1,100 @@
+// MockModelProvider.ts
+
+import fs from "node:fs"
+import path from "node:path"
+import { GenerateOptions, InlineData, ModelProvider, ModelProviderConfig } from "./ModelProvider"
+
+type ScriptedReply = Record<string, any> | { error: string }
+
+export interface MockModelCall {
+  method: "generateText" | "generateFromImages" | "generateFromAudio"
+  prompt: string
+  attachments: number
+  reply: string | null
+  error?: string
+}
+
+const DEFAULT_TEXT_REPLY = "Mock response"
+
+/**
+ * Deterministic provider for headless runs. Replies are scripted from a
+ * fixtures directory:
+ *
+ *   classifications.json  array of ActivityRecord-shaped objects, returned in
+ *                         order (wrapping around) for classification prompts
+ *   insights.json         object returned for daily insights prompts
+ *   text.txt              reply for every other prompt
+ *
+ * An entry of the form { "error": "message" } makes that call throw, which
+ * is how failure paths are exercised. Every call is recorded in getCalls().
+ */
+export class MockModelProvider implements ModelProvider {
+  public readonly name = "mock" as const
+  public readonly model: string
+  private classifications: ScriptedReply[]
+  private insights: ScriptedReply | null
+  private textReply: string
+  private classificationIndex = 0
+  private calls: MockModelCall[] = []
+
+  constructor(config: ModelProviderConfig) {
+    this.model = config.model
+    const fixturesDir = config.fixturesDir
+    if (!fixturesDir || !fs.existsSync(fixturesDir)) {
+      throw new Error(`Mock model fixtures directory not found: ${fixturesDir}`)
+    }
+
+    this.classifications = this.readJson(path.join(fixturesDir, "classifications.json")) || []
+    this.insights = this.readJson(path.join(fixturesDir, "insights.json"))
+
+    const textPath = path.join(fixturesDir, "text.txt")
+    this.textReply = fs.existsSync(textPath) ? fs.readFileSync(textPath, "utf8") : DEFAULT_TEXT_REPLY
+  }
+
+  private readJson(filePath: string): any {
+    if (!fs.existsSync(filePath)) return null
+    return JSON.parse(fs.readFileSync(filePath, "utf8"))
+  }
+
+  // Prompts are told apart by the output fields they ask for
+  private pickReply(prompt: string): ScriptedReply | string {
+    if (prompt.includes('"app_classification"') && this.classifications.length > 0) {
+      const reply = this.classifications[this.classificationIndex % this.classifications.length]
+      this.classificationIndex++
+      return reply
+    }
+    if (prompt.includes('"executiveSummary"') && this.insights) {
+      return this.insights
+    }
+    return this.textReply
+  }
+
+  private respond(method: MockModelCall["method"], prompt: string, attachments: number): string {
+    const reply = this.pickReply(prompt)
+
+    if (typeof reply === "object" && typeof reply.error === "string") {
+      this.calls.push({ method, prompt, attachments, reply: null, error: reply.error })
+      throw new Error(reply.error)
+    }
+
+    const text = typeof reply === "string" ? reply : JSON.stringify(reply)
+    this.calls.push({ method, prompt, attachments, reply: text })
+    return text
+  }
+
+  public getCalls(): MockModelCall[] {
+    return [...this.calls]
+  }
+
+  public async generateText(prompt: string, _options?: GenerateOptions): Promise<string> {
+    return this.respond("generateText", prompt, 0)
+  }
+
+  public async generateFromImages(prompt: string, images: InlineData[], _options?: GenerateOptions): Promise<string> {
+    return this.respond("generateFromImages", prompt, images.length)
+  }
+
+  public async generateFromAudio(prompt: string, _audio: InlineData, _options?: GenerateOptions): Promise<string> {
+    return this.respond("generateFromAudio", prompt, 1)
+  }
+}
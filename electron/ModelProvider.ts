@@ -0,0 +1,98 @@
+// ModelProvider.ts
+
+export type ModelProviderName = "gemini" | "openai" | "ollama" | "mock"
+
+export const MODEL_PROVIDERS: ModelProviderName[] = ["gemini", "openai", "ollama", "mock"]
+
+// Model used when the settings name none for a provider
+export const DEFAULT_MODELS: Record<ModelProviderName, string> = {
+  gemini: "gemini-2.0-flash",
+  openai: "gpt-4o-mini",
+  ollama: "llama3.2-vision",
+  mock: "mock"
+}
+
+/**
+ * Kinds of work LLMHelper sends to a model. Each can be routed to a
+ * different provider and model.
+ */
+export type ModelTask = "vision" | "text" | "audio"
+
+export const MODEL_TASKS: ModelTask[] = ["vision", "text", "audio"]
+
+export interface GenerationConfig {
+  temperature: number
+  topK: number
+  topP: number
+  maxOutputTokens: number
+}
+
+export const DEFAULT_GENERATION_CONFIG: GenerationConfig = {
+  temperature: 0.7,
+  topK: 40,
+  topP: 0.95,
+  maxOutputTokens: 8192
+}
+
+export interface ModelProviderConfig {
+  provider: ModelProviderName
+  model: string
+  apiKey?: string
+  baseUrl?: string
+  fixturesDir?: string // Scripted replies for the mock provider
+  generation?: Partial<GenerationConfig>
+}
+
+/**
+ * Base64 payload sent alongside a prompt
+ */
+export interface InlineData {
+  data: string
+  mimeType: string
+}
+
+/**
+ * The subset of JSON Schema every provider's structured output mode accepts
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean"
+  description?: string
+  enum?: string[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  nullable?: boolean
+}
+
+export interface GenerateOptions {
+  // Ask the provider for a JSON object when it supports a JSON mode
+  json?: boolean
+  // Constrain the JSON object to this schema where supported; implies json
+  responseSchema?: JsonSchema
+}
+
+// Wording providers use for rate limits and exhausted quotas
+const QUOTA_ERROR_PATTERN = /\b429\b|quota|rate.?limit|resource.?exhausted|too many requests/i
+
+/**
+ * Whether a model call failed because the provider's quota or rate limit
+ * was hit, rather than because of the request itself
+ */
+export function isQuotaError(message: string): boolean {
+  return QUOTA_ERROR_PATTERN.test(message)
+}
+
+/**
+ * Contract every model backend implements. Methods resolve to the raw text
+ * of the model's reply; parsing and validation stay in LLMHelper.
+ */
+export interface ModelProvider {
+  readonly name: ModelProviderName
+  readonly model: string
+
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>
+
+  generateFromImages(prompt: string, images: InlineData[], options?: GenerateOptions): Promise<string>
+
+  generateFromAudio(prompt: string, audio: InlineData, options?: GenerateOptions): Promise<string>
+}
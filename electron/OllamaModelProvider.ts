@@ -0,0 +1,82 @@
+// OllamaModelProvider.ts
+
+import axios, { AxiosInstance } from "axios"
+import {
+  DEFAULT_GENERATION_CONFIG,
+  GenerateOptions,
+  GenerationConfig,
+  InlineData,
+  ModelProvider,
+  ModelProviderConfig
+} from "./ModelProvider"
+
+const DEFAULT_BASE_URL = "http://localhost:11434"
+// Local models can take a while to load on first use
+const REQUEST_TIMEOUT_MS = 300000
+
+/**
+ * Runs prompts against a local Ollama server so nothing leaves the machine.
+ * Vision requires a multimodal model such as llava or llama3.2-vision.
+ */
+export class OllamaModelProvider implements ModelProvider {
+  public readonly name = "ollama" as const
+  public readonly model: string
+  private client: AxiosInstance
+  private generation: GenerationConfig
+
+  constructor(config: ModelProviderConfig) {
+    this.model = config.model
+    this.generation = { ...DEFAULT_GENERATION_CONFIG, ...config.generation }
+    this.client = axios.create({
+      baseURL: (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+      timeout: REQUEST_TIMEOUT_MS
+    })
+  }
+
+  private async chat(prompt: string, images: string[], options?: GenerateOptions): Promise<string> {
+    try {
+      const { data } = await this.client.post("/api/chat", {
+        model: this.model,
+        messages: [
+          {
+            role: "user",
+            content: prompt,
+            ...(images.length > 0 ? { images } : {})
+          }
+        ],
+        stream: false,
+        // Ollama accepts a JSON schema directly as the format
+        ...(options?.responseSchema
+          ? { format: options.responseSchema }
+          : options?.json ? { format: "json" } : {}),
+        options: {
+          temperature: this.generation.temperature,
+          top_k: this.generation.topK,
+          top_p: this.generation.topP,
+          num_predict: this.generation.maxOutputTokens
+        }
+      })
+
+      const text = data?.message?.content
+      if (typeof text !== "string") {
+        throw new Error("Response did not contain a message")
+      }
+      return text
+    } catch (error: any) {
+      const detail = error.response?.data?.error || error.message
+      throw new Error(`Ollama request failed: ${detail}`)
+    }
+  }
+
+  public async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.chat(prompt, [], options)
+  }
+
+  public async generateFromImages(prompt: string, images: InlineData[], options?: GenerateOptions): Promise<string> {
+    return this.chat(prompt, images.map(image => image.data), options)
+  }
+
+  public async generateFromAudio(_prompt: string, _audio: InlineData, _options?: GenerateOptions): Promise<string> {
+    throw new Error("Ollama does not support audio input; route the audio task to another provider")
+  }
+}
@@ -0,0 +1,120 @@
+// OpenAICompatibleModelProvider.ts
+
+import axios, { AxiosInstance } from "axios"
+import {
+  DEFAULT_GENERATION_CONFIG,
+  GenerateOptions,
+  GenerationConfig,
+  InlineData,
+  ModelProvider,
+  ModelProviderConfig
+} from "./ModelProvider"
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1"
+const REQUEST_TIMEOUT_MS = 120000
+
+// The API names audio formats by extension rather than MIME type
+const AUDIO_FORMATS: Record<string, string> = {
+  "audio/mp3": "mp3",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+  "audio/wave": "wav",
+  "audio/x-wav": "wav"
+}
+
+type ContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "input_audio"; input_audio: { data: string; format: string } }
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API:
+ * OpenAI itself, vLLM, LM Studio, llama.cpp server, LiteLLM and similar.
+ */
+export class OpenAICompatibleModelProvider implements ModelProvider {
+  public readonly name = "openai" as const
+  public readonly model: string
+  private client: AxiosInstance
+  private generation: GenerationConfig
+
+  constructor(config: ModelProviderConfig) {
+    const baseUrl = config.baseUrl || DEFAULT_BASE_URL
+    if (baseUrl === DEFAULT_BASE_URL && !config.apiKey) {
+      throw new Error("An API key is required for the OpenAI API")
+    }
+
+    this.model = config.model
+    this.generation = { ...DEFAULT_GENERATION_CONFIG, ...config.generation }
+    this.client = axios.create({
+      baseURL: baseUrl.replace(/\/+$/, ""),
+      timeout: REQUEST_TIMEOUT_MS,
+      headers: config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}
+    })
+  }
+
+  private responseFormat(options?: GenerateOptions): Record<string, any> {
+    if (options?.responseSchema) {
+      return {
+        response_format: {
+          type: "json_schema",
+          json_schema: { name: "response", schema: options.responseSchema }
+        }
+      }
+    }
+    return options?.json ? { response_format: { type: "json_object" } } : {}
+  }
+
+  private async complete(content: ContentPart[], options?: GenerateOptions): Promise<string> {
+    try {
+      const { data } = await this.client.post("/chat/completions", {
+        model: this.model,
+        messages: [{ role: "user", content }],
+        temperature: this.generation.temperature,
+        top_p: this.generation.topP,
+        max_tokens: this.generation.maxOutputTokens,
+        ...this.responseFormat(options)
+      })
+
+      const text = data?.choices?.[0]?.message?.content
+      if (typeof text !== "string") {
+        throw new Error("Response did not contain a message")
+      }
+      return text
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.message || error.message
+      throw new Error(`OpenAI-compatible request failed: ${detail}`)
+    }
+  }
+
+  public async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.complete([{ type: "text", text: prompt }], options)
+  }
+
+  public async generateFromImages(prompt: string, images: InlineData[], options?: GenerateOptions): Promise<string> {
+    return this.complete(
+      [
+        { type: "text", text: prompt },
+        ...images.map(image => ({
+          type: "image_url" as const,
+          image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+        }))
+      ],
+      options
+    )
+  }
+
+  public async generateFromAudio(prompt: string, audio: InlineData, options?: GenerateOptions): Promise<string> {
+    const format = AUDIO_FORMATS[audio.mimeType]
+    if (!format) {
+      throw new Error(`Unsupported audio format for OpenAI-compatible providers: ${audio.mimeType}`)
+    }
+
+    return this.complete(
+      [
+        { type: "text", text: prompt },
+        { type: "input_audio", input_audio: { data: audio.data, format } }
+      ],
+      options
+    )
+  }
+}
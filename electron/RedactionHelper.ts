@@ -0,0 +1,375 @@
+// RedactionHelper.ts
+
+import fs from "node:fs"
+import path from "node:path"
+import sharp from "sharp"
+import { createWorker, Line, Worker } from "tesseract.js"
+import { ActiveWindowHelper, ActiveWindowInfo, WindowGeometry } from "./ActiveWindowHelper"
+import { DisplayInfo } from "./CaptureSource"
+
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * A fixed area to black out, in the display's own pixel coordinates
+ */
+export interface RedactionRegion extends Rect {
+  display?: string // Display name; applies to every display when omitted
+}
+
+export type PiiPattern = "email" | "card" | "token"
+
+/**
+ * Contents of the redaction config file. Window patterns are
+ * case-insensitive regular expressions tested against class and title.
+ */
+export interface RedactionConfig {
+  regions: RedactionRegion[]
+  windowDenylist: string[]
+  ocr: {
+    enabled: boolean
+    patterns: PiiPattern[]
+    customPatterns: string[] // Extra regular expressions to blur
+    language: string
+    langPath?: string // Local traineddata directory, for offline use
+  }
+}
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  regions: [],
+  windowDenylist: ["1password", "bitwarden", "keepass", "lastpass", "dashlane"],
+  ocr: {
+    enabled: false,
+    patterns: ["email", "card", "token"],
+    customPatterns: [],
+    language: "eng"
+  }
+}
+
+const PII_PATTERNS: Record<PiiPattern, RegExp> = {
+  email: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  card: /\b\d(?:[ -]?\d){12,18}\b/g,
+  // Prefixed API keys, then long opaque strings such as hex digests and JWT parts
+  token: /\b(?:sk|pk|rk|ghp|gho|ghs|xox[abprs]|AKIA)[-_A-Za-z0-9]{12,}|\b[A-Za-z0-9_\-+/]{32,}={0,2}/g
+}
+
+const BLUR_SIGMA = 12
+const BLUR_PADDING = 4
+
+export interface RedactionTarget {
+  path: string
+  display: DisplayInfo | null
+}
+
+/**
+ * Scrubs screenshots in place before they are classified: configured
+ * regions and denylisted windows are blacked out, and with OCR enabled any
+ * text matching a PII pattern is blurred. Recognition runs locally; only
+ * the language data may be downloaded, never the image.
+ */
+export class RedactionHelper {
+  private readonly config: RedactionConfig
+  private readonly denylist: RegExp[]
+  private readonly textPatterns: RegExp[]
+  private readonly cachePath: string
+  // Set when the config file could not be read; every capture is then refused
+  private readonly loadError: string | null
+  private worker: Promise<Worker> | null = null
+
+  constructor(config: RedactionConfig, cachePath: string, loadError: string | null = null) {
+    this.config = config
+    this.cachePath = cachePath
+    this.loadError = loadError
+    this.denylist = RedactionHelper.compile(config.windowDenylist, "i", "window pattern")
+    this.textPatterns = [
+      ...config.ocr.patterns
+        .filter(name => PII_PATTERNS[name])
+        .map(name => PII_PATTERNS[name]),
+      ...RedactionHelper.compile(config.ocr.customPatterns, "gi", "OCR pattern")
+    ]
+  }
+
+  /**
+   * Read config from a file, filling gaps with defaults. A missing file
+   * means the defaults. An unreadable one blocks capture instead of falling
+   * back, since dropping the user's redactions would leak what they meant
+   * to hide.
+   */
+  public static load(filePath: string, cachePath: string): RedactionHelper {
+    if (!filePath || !fs.existsSync(filePath)) {
+      return new RedactionHelper(DEFAULT_REDACTION_CONFIG, cachePath)
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(filePath, "utf8"))
+      const config: RedactionConfig = {
+        regions: Array.isArray(parsed.regions) ? parsed.regions : DEFAULT_REDACTION_CONFIG.regions,
+        windowDenylist: Array.isArray(parsed.windowDenylist)
+          ? parsed.windowDenylist
+          : DEFAULT_REDACTION_CONFIG.windowDenylist,
+        ocr: { ...DEFAULT_REDACTION_CONFIG.ocr, ...(parsed.ocr || {}) }
+      }
+      console.log(
+        `[RedactionHelper] Loaded ${config.regions.length} regions and ` +
+        `${config.windowDenylist.length} window patterns from ${filePath}` +
+        (config.ocr.enabled ? ", OCR enabled" : "")
+      )
+      return new RedactionHelper(config, cachePath)
+    } catch (error: any) {
+      console.error(`[RedactionHelper] Failed to load config from ${filePath}:`, error.message)
+      return new RedactionHelper(DEFAULT_REDACTION_CONFIG, cachePath, error.message)
+    }
+  }
+
+  /**
+   * Check a config before it is saved, filling gaps with defaults. Unlike
+   * load(), invalid values and patterns that don't compile are rejected.
+   */
+  public static validate(input: any): RedactionConfig {
+    if (!input || typeof input !== "object") {
+      throw new Error("Redaction config must be an object")
+    }
+
+    const regions: RedactionRegion[] = input.regions ?? DEFAULT_REDACTION_CONFIG.regions
+    const isRegion = (region: any) =>
+      ["x", "y", "width", "height"].every(key => Number.isFinite(region?.[key]))
+    if (!Array.isArray(regions) || !regions.every(isRegion)) {
+      throw new Error("Regions need numeric x, y, width and height")
+    }
+
+    const ocr = { ...DEFAULT_REDACTION_CONFIG.ocr, ...(input.ocr || {}) }
+    if (!Array.isArray(ocr.patterns) || ocr.patterns.some((name: string) => !(name in PII_PATTERNS))) {
+      throw new Error(`OCR patterns must be among: ${Object.keys(PII_PATTERNS).join(", ")}`)
+    }
+
+    const windowDenylist = input.windowDenylist ?? DEFAULT_REDACTION_CONFIG.windowDenylist
+    const checkPatterns = (patterns: unknown, label: string): string[] => {
+      if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== "string")) {
+        throw new Error(`${label}s must be a list of text`)
+      }
+      patterns.forEach(pattern => {
+        try {
+          new RegExp(pattern)
+        } catch (error: any) {
+          throw new Error(`Invalid ${label.toLowerCase()} "${pattern}": ${error.message}`)
+        }
+      })
+      return patterns.map(pattern => pattern.trim()).filter(Boolean)
+    }
+
+    return {
+      regions,
+      windowDenylist: checkPatterns(windowDenylist, "Window pattern"),
+      ocr: {
+        enabled: !!ocr.enabled,
+        patterns: ocr.patterns,
+        customPatterns: checkPatterns(ocr.customPatterns, "OCR pattern"),
+        language: String(ocr.language || DEFAULT_REDACTION_CONFIG.ocr.language),
+        ...(ocr.langPath ? { langPath: String(ocr.langPath) } : {})
+      }
+    }
+  }
+
+  public getConfig(): RedactionConfig {
+    return JSON.parse(JSON.stringify(this.config))
+  }
+
+  // Invalid patterns are skipped with a warning rather than failing the whole file
+  private static compile(patterns: string[], flags: string, label: string): RegExp[] {
+    return patterns.flatMap(pattern => {
+      try {
+        return [new RegExp(pattern, flags)]
+      } catch (error: any) {
+        console.warn(`[RedactionHelper] Skipping ${label} "${pattern}": ${error.message}`)
+        return []
+      }
+    })
+  }
+
+  public isDenied(window: ActiveWindowInfo): boolean {
+    return this.denylist.some(pattern =>
+      pattern.test(window.window_class || "") || pattern.test(window.window_title || "")
+    )
+  }
+
+  /**
+   * Window metadata as it may be stored and sent to a model: a denylisted
+   * window keeps its class but loses its title. Throws like redactCapture
+   * when the config could not be read.
+   */
+  public redactWindow(window: ActiveWindowInfo | null): ActiveWindowInfo | null {
+    if (this.loadError) {
+      throw new Error(`Redaction config unreadable: ${this.loadError}`)
+    }
+    if (!window || !this.isDenied(window)) return window
+    return { ...window, window_title: null }
+  }
+
+  /**
+   * Redact every screenshot of one capture. Throws if any image could not
+   * be processed; the caller must then discard the capture unsent.
+   */
+  public async redactCapture(targets: RedactionTarget[], activeWindow: ActiveWindowInfo | null): Promise<void> {
+    if (this.loadError) {
+      throw new Error(`Redaction config unreadable: ${this.loadError}`)
+    }
+
+    const denied = await this.findDeniedWindows(activeWindow)
+
+    for (const target of targets) {
+      await this.redactImage(target, denied)
+    }
+  }
+
+  /**
+   * Geometry of denylisted windows on screen, or null when a denylisted
+   * window has focus but window positions cannot be read
+   */
+  private async findDeniedWindows(activeWindow: ActiveWindowInfo | null): Promise<WindowGeometry[] | null> {
+    if (this.denylist.length === 0) return []
+
+    const windows = await ActiveWindowHelper.listVisibleWindows()
+    if (windows === null) {
+      return activeWindow && this.isDenied(activeWindow) ? null : []
+    }
+    return windows.filter(window => this.isDenied(window))
+  }
+
+  private async redactImage(target: RedactionTarget, denied: WindowGeometry[] | null): Promise<void> {
+    const { width, height } = await sharp(target.path).metadata()
+    if (!width || !height) {
+      throw new Error(`Cannot read image size of ${target.path}`)
+    }
+
+    const origin = target.display?.bounds ?? { x: 0, y: 0 }
+    const blackouts: Rect[] = denied === null
+      ? [{ x: 0, y: 0, width, height }]
+      : [
+        ...this.config.regions.filter(region =>
+          !region.display || region.display === target.display?.name
+        ),
+        ...denied.map(window => ({
+          ...window.bounds,
+          x: window.bounds.x - origin.x,
+          y: window.bounds.y - origin.y
+        }))
+      ]
+
+    const blurs = this.config.ocr.enabled && denied !== null
+      ? await this.findSensitiveText(target.path)
+      : []
+
+    const overlays: sharp.OverlayOptions[] = []
+    for (const rect of blurs.map(rect => RedactionHelper.clip(rect, width, height))) {
+      if (!rect) continue
+      const blurred = await sharp(target.path)
+        .extract({ left: rect.x, top: rect.y, width: rect.width, height: rect.height })
+        .blur(BLUR_SIGMA)
+        .toBuffer()
+      overlays.push({ input: blurred, left: rect.x, top: rect.y })
+    }
+    for (const rect of blackouts.map(rect => RedactionHelper.clip(rect, width, height))) {
+      if (!rect) continue
+      overlays.push({
+        input: {
+          create: { width: rect.width, height: rect.height, channels: 4, background: "#000000" }
+        },
+        left: rect.x,
+        top: rect.y
+      })
+    }
+
+    if (overlays.length === 0) return
+
+    // sharp cannot write to the file it is reading from
+    const redactedPath = path.join(path.dirname(target.path), `redacting_${path.basename(target.path)}`)
+    await sharp(target.path).composite(overlays).png().toFile(redactedPath)
+    await fs.promises.rename(redactedPath, target.path)
+    console.log(
+      `[RedactionHelper] Redacted ${blackouts.length} areas and ${blurs.length} text matches ` +
+      `in ${path.basename(target.path)}`
+    )
+  }
+
+  // Rounds to whole pixels and trims to the image; null when nothing is left
+  private static clip(rect: Rect, width: number, height: number): Rect | null {
+    const x0 = Math.max(0, Math.floor(rect.x))
+    const y0 = Math.max(0, Math.floor(rect.y))
+    const x1 = Math.min(width, Math.ceil(rect.x + rect.width))
+    const y1 = Math.min(height, Math.ceil(rect.y + rect.height))
+    if (x1 <= x0 || y1 <= y0) return null
+    return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      this.worker = createWorker(this.config.ocr.language, 1, {
+        cachePath: this.cachePath,
+        ...(this.config.ocr.langPath ? { langPath: this.config.ocr.langPath } : {})
+      })
+      // Let a failed start be retried on the next capture
+      this.worker.catch(() => {
+        this.worker = null
+      })
+    }
+    return this.worker
+  }
+
+  /**
+   * Boxes around recognized words that form part of a PII match. Patterns
+   * run per line so numbers split by spaces are still caught.
+   */
+  private async findSensitiveText(imagePath: string): Promise<Rect[]> {
+    if (this.textPatterns.length === 0) return []
+
+    const worker = await this.getWorker()
+    const { data } = await worker.recognize(imagePath)
+
+    return data.lines.flatMap(line => RedactionHelper.matchLine(line, this.textPatterns))
+  }
+
+  private static matchLine(line: Line, patterns: RegExp[]): Rect[] {
+    const matches: Array<[number, number]> = []
+    for (const pattern of patterns) {
+      for (const match of line.text.matchAll(new RegExp(pattern.source, pattern.flags))) {
+        matches.push([match.index ?? 0, (match.index ?? 0) + match[0].length])
+      }
+    }
+    if (matches.length === 0) return []
+
+    // Locate each word in the line text and keep those overlapping a match
+    const rects: Rect[] = []
+    let offset = 0
+    for (const word of line.words) {
+      const start = line.text.indexOf(word.text, offset)
+      if (start === -1) continue
+      const end = start + word.text.length
+      offset = end
+
+      if (matches.some(([from, to]) => start < to && end > from)) {
+        rects.push({
+          x: word.bbox.x0 - BLUR_PADDING,
+          y: word.bbox.y0 - BLUR_PADDING,
+          width: word.bbox.x1 - word.bbox.x0 + BLUR_PADDING * 2,
+          height: word.bbox.y1 - word.bbox.y0 + BLUR_PADDING * 2
+        })
+      }
+    }
+    return rects
+  }
+
+  /**
+   * Shut down the OCR worker; it is started again on demand
+   */
+  public async terminate(): Promise<void> {
+    const worker = this.worker
+    this.worker = null
+    if (worker) {
+      await worker.then(w => w.terminate()).catch(() => {})
+    }
+  }
+}
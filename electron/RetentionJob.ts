@@ -0,0 +1,55 @@
+// RetentionJob.ts
+
+import { StorageHelper } from "./StorageHelper"
+import { SettingsHelper } from "./SettingsHelper"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Periodically deletes stored records older than the retention period in
+ * the storage settings. Nothing is deleted while retention is unset.
+ */
+export class RetentionJob {
+  private running = false
+  private interval: NodeJS.Timeout | null = null
+
+  /**
+   * Delete everything older than the retention period
+   * @returns Number of records deleted during this run
+   */
+  public async run(): Promise<number> {
+    const { retentionDays } = SettingsHelper.get().storage
+    if (this.running || retentionDays === null) return 0
+
+    this.running = true
+    try {
+      const cutoff = new Date(Date.now() - retentionDays * DAY_MS)
+      const result = await StorageHelper.deleteDataBefore(cutoff)
+      const deleted = result.deleted ?? 0
+      if (deleted > 0) {
+        console.log(`[RetentionJob] Deleted ${deleted} records older than ${retentionDays} days`)
+      }
+      return deleted
+    } finally {
+      this.running = false
+    }
+  }
+
+  public start(intervalMs: number): void {
+    this.stop()
+    const run = () => {
+      this.run().catch(error => {
+        console.error("[RetentionJob] Unexpected error during cleanup:", error)
+      })
+    }
+    run()
+    this.interval = setInterval(run, intervalMs)
+  }
+
+  public stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval)
+      this.interval = null
+    }
+  }
+}
@@ -0,0 +1,572 @@
+// SettingsHelper.ts
+
+import fs from "node:fs"
+import path from "node:path"
+import { CaptureScheduleOptions, DEFAULT_CAPTURE_SCHEDULE } from "./AdaptiveCaptureScheduler"
+import { CaptureMode, MultiDisplayStrategy } from "./CaptureSource"
+import {
+  DEFAULT_GENERATION_CONFIG,
+  GenerationConfig,
+  MODEL_PROVIDERS,
+  MODEL_TASKS,
+  ModelProviderName,
+  ModelTask
+} from "./ModelProvider"
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_ACTIONS,
+  ShortcutBindings,
+  checkAccelerator,
+  normalizeAccelerator
+} from "./ShortcutRegistry"
+import { StorageBackend } from "./StorageProvider"
+
+export interface StorageSettings {
+  backend: StorageBackend
+  sqlitePath: string | null // null keeps activity.db in userData
+  supabaseUrl: string | null
+  supabaseAnonKey: string | null
+  retentionDays: number | null // Older records are deleted; null keeps everything
+}
+
+export interface CaptureSettings {
+  mode: CaptureMode // "window_metadata" tracks the focused window and never takes screenshots
+  // With several displays: "focused" classifies the display under the cursor,
+  // "combined" sends all of them in one request
+  multiDisplayStrategy: MultiDisplayStrategy
+  schedule: CaptureScheduleOptions
+  idleThresholdSeconds: number // Capture pauses after this long without keyboard or mouse input
+  source: "desktop" | "fixtures" // "fixtures" replays the PNGs in fixturesDir instead of the screen
+  fixturesDir: string | null
+  redactionConfigPath: string | null // null uses redaction.json in userData
+}
+
+export interface ClassificationSettings {
+  // "rules" classifies window-only captures from rules alone, with no model call
+  windowClassifier: "llm" | "rules"
+  activityRulesPath: string | null // null uses activity-rules.json in userData
+}
+
+/**
+ * Provider and model for one task; null falls back to the defaults
+ */
+export interface TaskModelSettings {
+  provider: ModelProviderName | null
+  model: string | null
+}
+
+export interface ModelSettings {
+  provider: ModelProviderName
+  model: string | null // null uses the provider's default model
+  tasks: Record<ModelTask, TaskModelSettings>
+  generation: GenerationConfig
+  geminiApiKey: string | null
+  openaiApiKey: string | null
+  openaiBaseUrl: string | null
+  ollamaBaseUrl: string | null
+  mockFixturesDir: string | null // Scripted replies for the mock provider
+}
+
+export interface AnalysisSettings {
+  minGapMinutes: number // Shorter breaks between captures are not reported as gaps
+  maxSessionHours: number // Longer sessions are flagged in the analysis
+  maxActivitiesPerPrompt: number // Larger days are sampled down to this many records
+  maxPromptRetries: number
+  retryDelayMs: number // Doubled after each failed attempt
+}
+
+export interface Settings {
+  version: number
+  storage: StorageSettings
+  capture: CaptureSettings
+  classification: ClassificationSettings
+  models: ModelSettings
+  analysis: AnalysisSettings
+  shortcuts: ShortcutBindings // Accelerator per shortcut action; null disables it
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] }
+
+/**
+ * Changes to apply on top of the current settings. Nested objects are
+ * merged, everything else is replaced.
+ */
+export type SettingsPatch = DeepPartial<Omit<Settings, "version">>
+
+export type SettingsListener = (settings: Settings, previous: Settings) => void
+
+// Keys and credentials the renderer never receives. Set ones are sent as
+// MASKED_SECRET instead.
+const SECRET_SETTINGS = [
+  ["storage", "supabaseAnonKey"],
+  ["models", "geminiApiKey"],
+  ["models", "openaiApiKey"]
+] as const
+
+export const MASKED_SECRET = "********"
+
+// MIGRATIONS[n] turns a version n settings object into version n + 1
+const MIGRATIONS: Array<(input: any) => any> = [
+  // 0 -> 1: before the settings file existed, everything came from .env
+  () => settingsFromEnv(process.env)
+]
+
+export const SETTINGS_VERSION = MIGRATIONS.length
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  storage: {
+    backend: "sqlite",
+    sqlitePath: null,
+    supabaseUrl: null,
+    supabaseAnonKey: null,
+    retentionDays: null
+  },
+  capture: {
+    mode: "screenshot",
+    multiDisplayStrategy: "focused",
+    schedule: DEFAULT_CAPTURE_SCHEDULE,
+    idleThresholdSeconds: 300,
+    source: "desktop",
+    fixturesDir: null,
+    redactionConfigPath: null
+  },
+  classification: {
+    windowClassifier: "llm",
+    activityRulesPath: null
+  },
+  models: {
+    provider: "gemini",
+    model: null,
+    tasks: {
+      vision: { provider: null, model: null },
+      text: { provider: null, model: null },
+      audio: { provider: null, model: null }
+    },
+    generation: DEFAULT_GENERATION_CONFIG,
+    geminiApiKey: null,
+    openaiApiKey: null,
+    openaiBaseUrl: null,
+    ollamaBaseUrl: null,
+    mockFixturesDir: null
+  },
+  analysis: {
+    minGapMinutes: 5,
+    maxSessionHours: 4,
+    maxActivitiesPerPrompt: 200,
+    maxPromptRetries: 3,
+    retryDelayMs: 1000
+  },
+  shortcuts: DEFAULT_SHORTCUTS
+}
+
+/**
+ * Settings as they were configured through environment variables. Only
+ * variables that are set and valid are carried over.
+ */
+function settingsFromEnv(env: NodeJS.ProcessEnv): SettingsPatch {
+  const value = (key: string): string | undefined => env[key] || undefined
+  const provider = (key: string): ModelProviderName | undefined => {
+    const name = value(key)
+    if (name && !MODEL_PROVIDERS.includes(name as ModelProviderName)) {
+      console.warn(`[SettingsHelper] Ignoring unknown provider ${key}=${name}`)
+      return undefined
+    }
+    return name as ModelProviderName | undefined
+  }
+
+  const backend = value("STORAGE_BACKEND")
+  const idleThresholdSeconds = Number(value("IDLE_THRESHOLD_SECONDS"))
+
+  const tasks: DeepPartial<Record<ModelTask, TaskModelSettings>> = {}
+  for (const task of MODEL_TASKS) {
+    const prefix = `LLM_${task.toUpperCase()}`
+    tasks[task] = { provider: provider(`${prefix}_PROVIDER`), model: value(`${prefix}_MODEL`) }
+  }
+
+  return {
+    storage: {
+      // Supabase was used whenever it was configured
+      backend: backend === "supabase" || backend === "sqlite"
+        ? backend
+        : value("SUPABASE_URL") ? "supabase" : "sqlite",
+      sqlitePath: value("SQLITE_PATH"),
+      supabaseUrl: value("SUPABASE_URL"),
+      supabaseAnonKey: value("SUPABASE_ANON_KEY")
+    },
+    capture: {
+      mode: value("CAPTURE_MODE") === "window_metadata" ? "window_metadata" : undefined,
+      multiDisplayStrategy: value("MULTI_DISPLAY_STRATEGY") === "combined" ? "combined" : undefined,
+      idleThresholdSeconds: idleThresholdSeconds > 0 ? idleThresholdSeconds : undefined,
+      source: value("CAPTURE_SOURCE") === "fixtures" ? "fixtures" : undefined,
+      fixturesDir: value("CAPTURE_FIXTURES_DIR"),
+      redactionConfigPath: value("REDACTION_CONFIG_PATH")
+    },
+    classification: {
+      windowClassifier: value("WINDOW_CLASSIFIER") === "rules" ? "rules" : undefined,
+      activityRulesPath: value("ACTIVITY_RULES_PATH")
+    },
+    models: {
+      provider: provider("LLM_PROVIDER"),
+      model: value("LLM_MODEL"),
+      tasks,
+      geminiApiKey: value("GEMINI_API_KEY"),
+      openaiApiKey: value("OPENAI_API_KEY"),
+      openaiBaseUrl: value("OPENAI_BASE_URL"),
+      ollamaBaseUrl: value("OLLAMA_BASE_URL"),
+      mockFixturesDir: value("MOCK_LLM_FIXTURES_DIR")
+    }
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === "object" && !Array.isArray(value)
+
+// Nested objects are merged key by key; undefined leaves the base value
+function merge(base: any, patch: any): any {
+  if (!isObject(base) || !isObject(patch)) return patch === undefined ? base : patch
+
+  const result: Record<string, any> = { ...base }
+  for (const [key, value] of Object.entries(patch)) {
+    result[key] = merge(base[key], value)
+  }
+  return result
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === "object") {
+    Object.values(value).forEach(deepFreeze)
+    Object.freeze(value)
+  }
+  return value
+}
+
+// Field readers for validate(). Missing fields take the default; present
+// ones must be valid.
+
+function readNumber(input: any, defaults: any, key: string, label: string, min: number, max = Infinity): number {
+  const value = input?.[key] ?? defaults[key]
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`
+    throw new Error(`${label}.${key} must be a number ${range}`)
+  }
+  return value
+}
+
+function readChoice<T extends string>(input: any, defaults: any, key: string, label: string, choices: readonly T[]): T {
+  const value = input?.[key] ?? defaults[key]
+  if (!choices.includes(value)) {
+    throw new Error(`${label}.${key} must be one of: ${choices.join(", ")}`)
+  }
+  return value
+}
+
+function readOptionalNumber(input: any, defaults: any, key: string, label: string, min: number): number | null {
+  const value = input?.[key] === undefined ? defaults[key] : input[key]
+  return value === null ? null : readNumber({ [key]: value }, defaults, key, label, min)
+}
+
+// Empty strings count as unset
+function readOptionalString(input: any, defaults: any, key: string, label: string): string | null {
+  const value = input?.[key] === undefined ? defaults[key] : input[key]
+  if (value !== null && typeof value !== "string") {
+    throw new Error(`${label}.${key} must be text`)
+  }
+  return value?.trim() || null
+}
+
+// Each accelerator must be well formed and bound to at most one action
+function readShortcuts(input: any): ShortcutBindings {
+  const shortcuts = {} as ShortcutBindings
+  const used = new Map<string, string>()
+  for (const action of SHORTCUT_ACTIONS) {
+    const accelerator = readOptionalString(input, DEFAULT_SHORTCUTS, action, "shortcuts")
+    if (accelerator !== null) {
+      const problem = checkAccelerator(accelerator)
+      if (problem) {
+        throw new Error(`shortcuts.${action}: ${problem}`)
+      }
+      const normalized = normalizeAccelerator(accelerator)
+      const other = used.get(normalized)
+      if (other) {
+        throw new Error(`shortcuts.${action}: ${accelerator} is already bound to ${other}`)
+      }
+      used.set(normalized, action)
+    }
+    shortcuts[action] = accelerator
+  }
+  return shortcuts
+}
+
+/**
+ * Typed, versioned application settings stored as JSON in userData. The
+ * file is created on first run from the environment variables used
+ * before, and migrated forward when the format changes. Helpers read the
+ * current values with get() and subscribe to onChange() to apply edits
+ * made at runtime.
+ */
+export class SettingsHelper {
+  private static filePath: string | null = null
+  private static settings: Settings | null = null
+  private static listeners = new Set<SettingsListener>()
+  // Set while the file on disk is one this app could not use; it is
+  // copied aside before the first save replaces it
+  private static backUpBeforeSave = false
+
+  /**
+   * Load, migrate and validate the settings file. Call this once at app
+   * startup, after .env is loaded.
+   */
+  public static initialize(filePath: string): void {
+    SettingsHelper.filePath = filePath
+    SettingsHelper.backUpBeforeSave = false
+    SettingsHelper.settings = deepFreeze(SettingsHelper.load(filePath))
+  }
+
+  private static load(filePath: string): Settings {
+    let input: any = { version: 0 }
+    try {
+      if (fs.existsSync(filePath)) {
+        input = JSON.parse(fs.readFileSync(filePath, "utf8"))
+      }
+    } catch (error: any) {
+      // Left in place so a hand-edited file can be repaired
+      console.error(`[SettingsHelper] Failed to read ${filePath}, using defaults:`, error.message)
+      SettingsHelper.backUpBeforeSave = true
+      return DEFAULT_SETTINGS
+    }
+
+    const version = typeof input?.version === "number" ? input.version : 0
+    if (version > SETTINGS_VERSION) {
+      // Saving would write it back in the older format
+      console.warn(`[SettingsHelper] Settings version ${version} is newer than this app (${SETTINGS_VERSION})`)
+      SettingsHelper.backUpBeforeSave = true
+    }
+
+    try {
+      let migrated = input
+      for (let from = version; from < SETTINGS_VERSION; from++) {
+        migrated = MIGRATIONS[from](migrated)
+        console.log(`[SettingsHelper] Migrated settings from version ${from} to ${from + 1}`)
+      }
+
+      const settings = SettingsHelper.validate(migrated)
+      if (version < SETTINGS_VERSION) {
+        SettingsHelper.writeFile(filePath, settings)
+      }
+      console.log(`[SettingsHelper] Loaded settings from ${filePath}`)
+      return settings
+    } catch (error: any) {
+      console.error(`[SettingsHelper] Invalid settings in ${filePath}, using defaults:`, error.message)
+      SettingsHelper.backUpBeforeSave = true
+      return DEFAULT_SETTINGS
+    }
+  }
+
+  private static writeFile(filePath: string, settings: Settings): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true })
+    // Written next to the target and renamed so a crash never leaves half a file
+    const tempPath = `${filePath}.tmp`
+    fs.writeFileSync(tempPath, JSON.stringify(settings, null, 2))
+    fs.renameSync(tempPath, filePath)
+  }
+
+  /**
+   * Copy a file this app could not use aside, so saving the settings in
+   * use does not destroy it. Throws when the copy fails, which keeps the
+   * file untouched.
+   */
+  private static backUpFile(filePath: string): void {
+    if (!fs.existsSync(filePath)) return
+    const backupPath = `${filePath}.backup-${Date.now()}`
+    try {
+      fs.copyFileSync(filePath, backupPath)
+      console.warn(`[SettingsHelper] Kept the previous settings file as ${backupPath}`)
+    } catch (error: any) {
+      throw new Error(`Could not back up ${filePath} before saving: ${error.message}`)
+    }
+  }
+
+  /**
+   * Check settings and fill in missing values from the defaults. Throws on
+   * invalid values.
+   */
+  public static validate(input: any): Settings {
+    if (!isObject(input)) {
+      throw new Error("Settings must be an object")
+    }
+
+    const defaults = DEFAULT_SETTINGS
+    const { storage, capture, classification, models, analysis, shortcuts } = input
+    const schedule = capture?.schedule
+
+    const captureSchedule: CaptureScheduleOptions = {
+      frameIntervalMs: readNumber(schedule, defaults.capture.schedule, "frameIntervalMs", "capture.schedule", 1000),
+      minIntervalMs: readNumber(schedule, defaults.capture.schedule, "minIntervalMs", "capture.schedule", 1000),
+      maxIntervalMs: readNumber(schedule, defaults.capture.schedule, "maxIntervalMs", "capture.schedule", 1000),
+      changeThreshold: readNumber(schedule, defaults.capture.schedule, "changeThreshold", "capture.schedule", 1, 64)
+    }
+    if (captureSchedule.minIntervalMs > captureSchedule.maxIntervalMs) {
+      throw new Error("capture.schedule.minIntervalMs must not exceed maxIntervalMs")
+    }
+
+    const tasks = {} as Record<ModelTask, TaskModelSettings>
+    for (const task of MODEL_TASKS) {
+      const override = models?.tasks?.[task]
+      const label = `models.tasks.${task}`
+      const provider = override?.provider || null
+      if (provider !== null && !MODEL_PROVIDERS.includes(provider)) {
+        throw new Error(`${label}.provider must be one of: ${MODEL_PROVIDERS.join(", ")}`)
+      }
+      tasks[task] = { provider, model: readOptionalString(override, defaults.models.tasks[task], "model", label) }
+    }
+
+    const generation = models?.generation
+    const defaultGeneration = defaults.models.generation
+
+    return {
+      version: SETTINGS_VERSION,
+      storage: {
+        backend: readChoice(storage, defaults.storage, "backend", "storage", ["sqlite", "supabase"] as const),
+        sqlitePath: readOptionalString(storage, defaults.storage, "sqlitePath", "storage"),
+        supabaseUrl: readOptionalString(storage, defaults.storage, "supabaseUrl", "storage"),
+        supabaseAnonKey: readOptionalString(storage, defaults.storage, "supabaseAnonKey", "storage"),
+        retentionDays: readOptionalNumber(storage, defaults.storage, "retentionDays", "storage", 1)
+      },
+      capture: {
+        mode: readChoice(capture, defaults.capture, "mode", "capture", ["screenshot", "window_metadata"] as const),
+        multiDisplayStrategy: readChoice(
+          capture, defaults.capture, "multiDisplayStrategy", "capture", ["focused", "combined"] as const
+        ),
+        schedule: captureSchedule,
+        idleThresholdSeconds: readNumber(capture, defaults.capture, "idleThresholdSeconds", "capture", 30),
+        source: readChoice(capture, defaults.capture, "source", "capture", ["desktop", "fixtures"] as const),
+        fixturesDir: readOptionalString(capture, defaults.capture, "fixturesDir", "capture"),
+        redactionConfigPath: readOptionalString(capture, defaults.capture, "redactionConfigPath", "capture")
+      },
+      classification: {
+        windowClassifier: readChoice(
+          classification, defaults.classification, "windowClassifier", "classification", ["llm", "rules"] as const
+        ),
+        activityRulesPath: readOptionalString(classification, defaults.classification, "activityRulesPath", "classification")
+      },
+      models: {
+        provider: readChoice(models, defaults.models, "provider", "models", MODEL_PROVIDERS),
+        model: readOptionalString(models, defaults.models, "model", "models"),
+        tasks,
+        generation: {
+          temperature: readNumber(generation, defaultGeneration, "temperature", "models.generation", 0, 2),
+          topK: readNumber(generation, defaultGeneration, "topK", "models.generation", 1),
+          topP: readNumber(generation, defaultGeneration, "topP", "models.generation", 0, 1),
+          maxOutputTokens: readNumber(generation, defaultGeneration, "maxOutputTokens", "models.generation", 1)
+        },
+        geminiApiKey: readOptionalString(models, defaults.models, "geminiApiKey", "models"),
+        openaiApiKey: readOptionalString(models, defaults.models, "openaiApiKey", "models"),
+        openaiBaseUrl: readOptionalString(models, defaults.models, "openaiBaseUrl", "models"),
+        ollamaBaseUrl: readOptionalString(models, defaults.models, "ollamaBaseUrl", "models"),
+        mockFixturesDir: readOptionalString(models, defaults.models, "mockFixturesDir", "models")
+      },
+      analysis: {
+        minGapMinutes: readNumber(analysis, defaults.analysis, "minGapMinutes", "analysis", 1),
+        maxSessionHours: readNumber(analysis, defaults.analysis, "maxSessionHours", "analysis", 1),
+        maxActivitiesPerPrompt: readNumber(analysis, defaults.analysis, "maxActivitiesPerPrompt", "analysis", 10),
+        maxPromptRetries: readNumber(analysis, defaults.analysis, "maxPromptRetries", "analysis", 1, 10),
+        retryDelayMs: readNumber(analysis, defaults.analysis, "retryDelayMs", "analysis", 0)
+      },
+      shortcuts: readShortcuts(shortcuts)
+    }
+  }
+
+  /**
+   * Current settings. The object is frozen; change it with update().
+   */
+  public static get(): Settings {
+    if (!SettingsHelper.settings) {
+      throw new Error("Settings not initialized. Call SettingsHelper.initialize first.")
+    }
+    return SettingsHelper.settings
+  }
+
+  /**
+   * Settings as sent to the renderer, with every secret that is set
+   * replaced by MASKED_SECRET
+   */
+  public static redactSecrets(settings: Settings): Settings {
+    const redacted: any = merge(settings, {})
+    for (const [section, key] of SECRET_SETTINGS) {
+      redacted[section] = { ...redacted[section], [key]: (settings[section] as Record<string, any>)[key] ? MASKED_SECRET : null }
+    }
+    return redacted
+  }
+
+  /**
+   * Drop secrets a patch from the renderer sends back masked or empty, so
+   * they keep their saved value. null still clears a secret.
+   */
+  public static withoutMaskedSecrets(patch: SettingsPatch): SettingsPatch {
+    const result: any = merge({}, patch)
+    for (const [section, key] of SECRET_SETTINGS) {
+      const value = result[section]?.[key]
+      if (value === MASKED_SECRET || value === "") {
+        const { [key]: _unchanged, ...rest } = result[section]
+        result[section] = rest
+      }
+    }
+    return result
+  }
+
+  /**
+   * Validate and save a change, then notify listeners. Throws without
+   * changing anything when the result is invalid.
+   */
+  public static async update(patch: SettingsPatch): Promise<Settings> {
+    return SettingsHelper.replace(merge(SettingsHelper.get(), patch))
+  }
+
+  /**
+   * Restore the defaults, e.g. after a bad edit
+   */
+  public static async reset(): Promise<Settings> {
+    return SettingsHelper.replace(DEFAULT_SETTINGS)
+  }
+
+  private static async replace(input: any): Promise<Settings> {
+    const previous = SettingsHelper.get()
+    const settings = deepFreeze(SettingsHelper.validate(input))
+
+    if (SettingsHelper.filePath) {
+      if (SettingsHelper.backUpBeforeSave) {
+        SettingsHelper.backUpFile(SettingsHelper.filePath)
+        SettingsHelper.backUpBeforeSave = false
+      }
+      SettingsHelper.writeFile(SettingsHelper.filePath, settings)
+    }
+    SettingsHelper.settings = settings
+    console.log("[SettingsHelper] Settings saved")
+
+    SettingsHelper.listeners.forEach(listener => {
+      try {
+        listener(settings, previous)
+      } catch (error) {
+        console.error("[SettingsHelper] Settings listener failed:", error)
+      }
+    })
+    return settings
+  }
+
+  /**
+   * Subscribe to saved changes
+   * @returns Unsubscribe function
+   */
+  public static onChange(listener: SettingsListener): () => void {
+    SettingsHelper.listeners.add(listener)
+    return () => SettingsHelper.listeners.delete(listener)
+  }
+
+  /**
+   * Whether a part of the settings differs between two versions
+   */
+  public static changed<T>(settings: T, previous: T): boolean {
+    return JSON.stringify(settings) !== JSON.stringify(previous)
+  }
+}
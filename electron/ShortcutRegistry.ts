@@ -0,0 +1,119 @@
+// ShortcutRegistry.ts
+
+import { normalizeAccelerator as normalizeAcceleratorFor } from "./AcceleratorFormat"
+
+export type ShortcutAction =
+  | "toggleWindow"
+  | "takeScreenshot"
+  | "processScreenshots"
+  | "resetView"
+  | "moveWindowLeft"
+  | "moveWindowRight"
+  | "moveWindowUp"
+  | "moveWindowDown"
+  | "toggleTrackingPause"
+  | "annotateActivity"
+  | "toggleFocusBlock"
+
+/**
+ * Named actions that can be bound to a global shortcut, with the
+ * accelerator each one gets unless the user picks another in settings
+ */
+export interface ShortcutDefinition {
+  label: string
+  defaultAccelerator: string
+}
+
+// Plain Ctrl+H/R/Return and Ctrl+Shift+arrows belong to browsers and
+// editors on Linux, so Alt is added there
+const isLinux = process.platform === "linux"
+
+export const SHORTCUT_DEFINITIONS: Record<ShortcutAction, ShortcutDefinition> = {
+  toggleWindow: { label: "Show or hide the window", defaultAccelerator: "CommandOrControl+Shift+H" },
+  takeScreenshot: {
+    label: "Take a screenshot",
+    defaultAccelerator: isLinux ? "Control+Alt+H" : "CommandOrControl+H"
+  },
+  processScreenshots: {
+    label: "Process screenshots",
+    defaultAccelerator: isLinux ? "Control+Alt+Return" : "CommandOrControl+Return"
+  },
+  resetView: { label: "Reset the view", defaultAccelerator: isLinux ? "Control+Alt+R" : "CommandOrControl+R" },
+  moveWindowLeft: {
+    label: "Move the window left",
+    defaultAccelerator: isLinux ? "Control+Alt+Shift+Left" : "Control+Shift+Left"
+  },
+  moveWindowRight: {
+    label: "Move the window right",
+    defaultAccelerator: isLinux ? "Control+Alt+Shift+Right" : "Control+Shift+Right"
+  },
+  moveWindowUp: {
+    label: "Move the window up",
+    defaultAccelerator: isLinux ? "Control+Alt+Shift+Up" : "Control+Shift+Up"
+  },
+  moveWindowDown: {
+    label: "Move the window down",
+    defaultAccelerator: isLinux ? "Control+Alt+Shift+Down" : "Control+Shift+Down"
+  },
+  toggleTrackingPause: { label: "Pause or resume tracking", defaultAccelerator: "CommandOrControl+Shift+P" },
+  annotateActivity: {
+    label: "Annotate the current activity",
+    defaultAccelerator: isLinux ? "Control+Alt+A" : "CommandOrControl+Shift+A"
+  },
+  toggleFocusBlock: {
+    label: "Start or stop a focus block",
+    defaultAccelerator: isLinux ? "Control+Alt+F" : "CommandOrControl+Shift+F"
+  }
+}
+
+export const SHORTCUT_ACTIONS = Object.keys(SHORTCUT_DEFINITIONS) as ShortcutAction[]
+
+/**
+ * Accelerator per action; null leaves the action without a shortcut
+ */
+export type ShortcutBindings = Record<ShortcutAction, string | null>
+
+export const DEFAULT_SHORTCUTS = Object.fromEntries(
+  SHORTCUT_ACTIONS.map(action => [action, SHORTCUT_DEFINITIONS[action].defaultAccelerator])
+) as ShortcutBindings
+
+const MODIFIERS = new Set([
+  "command", "cmd", "control", "ctrl", "commandorcontrol", "cmdorctrl",
+  "alt", "option", "altgr", "shift", "super", "meta"
+])
+const NAMED_KEYS = new Set([
+  "plus", "space", "tab", "capslock", "numlock", "scrolllock", "backspace", "delete", "insert",
+  "return", "enter", "up", "down", "left", "right", "home", "end", "pageup", "pagedown",
+  "escape", "esc", "volumeup", "volumedown", "volumemute", "medianexttrack",
+  "mediaprevioustrack", "mediastop", "mediaplaypause", "printscreen"
+])
+
+/**
+ * Why an accelerator can't be used, or null when it is well formed. Only
+ * function keys may be bound without a modifier.
+ */
+export function checkAccelerator(accelerator: string): string | null {
+  const parts = accelerator.split("+")
+  const key = parts.pop()?.toLowerCase() || ""
+  const modifiers = parts.map(part => part.toLowerCase())
+
+  if (modifiers.some(modifier => !MODIFIERS.has(modifier))) {
+    return `Unknown modifier in "${accelerator}"`
+  }
+  const isFunctionKey = /^f([1-9]|1\d|2[0-4])$/.test(key)
+  const isKey = isFunctionKey || NAMED_KEYS.has(key) || /^(num)?[a-z0-9]$/.test(key) || /^[^\sa-z0-9+]$/.test(key)
+  if (!isKey) {
+    return `Unknown key in "${accelerator}"`
+  }
+  if (modifiers.length === 0 && !isFunctionKey) {
+    return `"${accelerator}" needs a modifier such as Control or Alt`
+  }
+  return null
+}
+
+/**
+ * Comparable form of an accelerator on this platform, see AcceleratorFormat
+ */
+export function normalizeAccelerator(accelerator: string): string {
+  return normalizeAcceleratorFor(accelerator, process.platform === "darwin")
+}
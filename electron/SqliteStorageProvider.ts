@@ -0,0 +1,304 @@
+// SqliteStorageProvider.ts
+
+import Database from "better-sqlite3"
+import fs from "node:fs"
+import path from "node:path"
+import { ActivityRecord, StorageProvider, StorageStats, TrackingEvent } from "./StorageProvider"
+
+// Columns of activity_records other than the autoincrement id. New columns
+// are added to existing databases on open, so append here rather than
+// editing the CREATE TABLE statement. "json" columns hold objects
+// serialized as text.
+const ACTIVITY_COLUMNS: Array<{ name: keyof ActivityRecord; type: string; json?: boolean }> = [
+  { name: "record_id", type: "TEXT" },
+  { name: "app_classification", type: "TEXT" },
+  { name: "goal_relevance", type: "TEXT" },
+  { name: "cognitive_state", type: "TEXT" },
+  { name: "context_switching", type: "TEXT" },
+  { name: "attention_residue", type: "TEXT" },
+  { name: "procrastination_signal", type: "TEXT" },
+  { name: "energy_level", type: "TEXT" },
+  { name: "created_at", type: "TEXT" },
+  { name: "captured_at", type: "TEXT" },
+  { name: "classification_status", type: "TEXT" },
+  { name: "classification_error", type: "TEXT" },
+  { name: "classification_attempts", type: "INTEGER" },
+  { name: "screenshot_path", type: "TEXT" },
+  { name: "duration_seconds", type: "REAL" },
+  { name: "window_class", type: "TEXT" },
+  { name: "window_title", type: "TEXT" },
+  { name: "window_pid", type: "INTEGER" },
+  { name: "primary_display", type: "TEXT" },
+  { name: "overrides", type: "TEXT", json: true },
+  { name: "overridden_at", type: "TEXT" },
+  { name: "project_id", type: "TEXT" }
+]
+
+const JSON_COLUMNS = new Set<string>(ACTIVITY_COLUMNS.filter(column => column.json).map(column => column.name))
+
+// Value as bound to a statement parameter
+const toColumnValue = (name: string, value: any): any => {
+  if (value === undefined || value === null) return null
+  return JSON_COLUMNS.has(name) ? JSON.stringify(value) : value
+}
+
+const EVENT_COLUMNS: Array<keyof TrackingEvent> = [
+  "event_id",
+  "event_type",
+  "reason",
+  "started_at",
+  "ended_at",
+  "label",
+  "created_at"
+]
+
+// Rows stored before captured_at existed fall back to created_at
+const TIMESTAMP_EXPR = "COALESCE(captured_at, created_at)"
+
+export class SqliteStorageProvider implements StorageProvider {
+  public readonly name = "sqlite" as const
+  private db: Database.Database
+  private tableName = "activity_records"
+  private eventsTableName = "tracking_events"
+
+  /**
+   * @param dbPath Path to the database file, created if missing
+   */
+  constructor(dbPath: string) {
+    if (!dbPath) {
+      throw new Error("SQLite database path is required for initialization.")
+    }
+
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true })
+    this.db = new Database(dbPath)
+    this.db.pragma("journal_mode = WAL")
+    this.migrate()
+  }
+
+  private migrate(): void {
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.tableName} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT
+      )
+    `)
+
+    const existing = new Set(
+      (this.db.pragma(`table_info(${this.tableName})`) as Array<{ name: string }>)
+        .map(column => column.name)
+    )
+
+    for (const column of ACTIVITY_COLUMNS) {
+      if (!existing.has(column.name)) {
+        this.db.exec(`ALTER TABLE ${this.tableName} ADD COLUMN ${column.name} ${column.type}`)
+      }
+    }
+
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_${this.tableName}_timestamp
+      ON ${this.tableName} (${TIMESTAMP_EXPR})
+    `)
+    this.db.exec(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_${this.tableName}_record_id
+      ON ${this.tableName} (record_id)
+    `)
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.eventsTableName} (
+        event_id TEXT PRIMARY KEY,
+        event_type TEXT NOT NULL,
+        reason TEXT,
+        started_at TEXT NOT NULL,
+        ended_at TEXT,
+        label TEXT,
+        created_at TEXT NOT NULL
+      )
+    `)
+    const eventColumns = new Set(
+      (this.db.pragma(`table_info(${this.eventsTableName})`) as Array<{ name: string }>)
+        .map(column => column.name)
+    )
+    if (!eventColumns.has("label")) {
+      this.db.exec(`ALTER TABLE ${this.eventsTableName} ADD COLUMN label TEXT`)
+    }
+    this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_${this.eventsTableName}_started_at
+      ON ${this.eventsTableName} (started_at)
+    `)
+  }
+
+  private toRecord(row: Record<string, any>): ActivityRecord {
+    const record: Record<string, any> = {}
+    for (const column of ACTIVITY_COLUMNS) {
+      const value = row[column.name] ?? null
+      record[column.name] = column.json && value !== null ? JSON.parse(value) : value
+    }
+    return record as ActivityRecord
+  }
+
+  public async storeActivityRecord(record: ActivityRecord): Promise<void> {
+    // Timestamps are stored as UTC ISO strings so they compare lexically
+    const row: Record<string, any> = {
+      ...record,
+      created_at: (record.created_at ? new Date(record.created_at) : new Date()).toISOString(),
+      captured_at: record.captured_at ? new Date(record.captured_at).toISOString() : null
+    }
+
+    const columns = ACTIVITY_COLUMNS.map(column => column.name)
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO ${this.tableName} (${columns.join(", ")})
+         VALUES (${columns.map(name => `@${name}`).join(", ")})`
+      )
+      .run(Object.fromEntries(columns.map(name => [name, toColumnValue(name, row[name])])))
+  }
+
+  public async getActivitiesInRange(start: string, end: string): Promise<ActivityRecord[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM ${this.tableName}
+         WHERE ${TIMESTAMP_EXPR} >= ? AND ${TIMESTAMP_EXPR} <= ?
+         ORDER BY ${TIMESTAMP_EXPR} ASC, id ASC`
+      )
+      .all(start, end) as Array<Record<string, any>>
+
+    return rows.map(row => this.toRecord(row))
+  }
+
+  public async getActivityRecord(recordId: string): Promise<ActivityRecord | null> {
+    const row = this.db
+      .prepare(`SELECT * FROM ${this.tableName} WHERE record_id = ?`)
+      .get(recordId) as Record<string, any> | undefined
+
+    return row ? this.toRecord(row) : null
+  }
+
+  public async getLatestActivity(): Promise<ActivityRecord | null> {
+    const row = this.db
+      .prepare(`SELECT * FROM ${this.tableName} ORDER BY ${TIMESTAMP_EXPR} DESC, id DESC LIMIT 1`)
+      .get() as Record<string, any> | undefined
+
+    return row ? this.toRecord(row) : null
+  }
+
+  public async getUnclassifiedActivities(limit: number, maxAttempts: number): Promise<ActivityRecord[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM ${this.tableName}
+         WHERE classification_status = 'unclassified' AND (
+           screenshot_path IS NOT NULL OR (
+             COALESCE(classification_attempts, 0) < ? AND
+             (window_class IS NOT NULL OR window_title IS NOT NULL)
+           )
+         )
+         ORDER BY ${TIMESTAMP_EXPR} ASC, id ASC
+         LIMIT ?`
+      )
+      .all(maxAttempts, limit) as Array<Record<string, any>>
+
+    return rows.map(row => this.toRecord(row))
+  }
+
+  public async updateActivityRecord(recordId: string, changes: Partial<ActivityRecord>): Promise<void> {
+    const known = new Set<string>(ACTIVITY_COLUMNS.map(column => column.name))
+    const columns = Object.keys(changes).filter(name => known.has(name) && name !== "record_id")
+    if (columns.length === 0) return
+
+    const values: Record<string, any> = { record_id: recordId }
+    columns.forEach(name => {
+      values[name] = toColumnValue(name, (changes as Record<string, any>)[name])
+    })
+
+    this.db
+      .prepare(
+        `UPDATE ${this.tableName}
+         SET ${columns.map(name => `${name} = @${name}`).join(", ")}
+         WHERE record_id = @record_id`
+      )
+      .run(values)
+  }
+
+  public async storeTrackingEvent(event: TrackingEvent): Promise<void> {
+    const row: Record<string, any> = {
+      ...event,
+      started_at: new Date(event.started_at).toISOString(),
+      ended_at: event.ended_at ? new Date(event.ended_at).toISOString() : null,
+      created_at: (event.created_at ? new Date(event.created_at) : new Date()).toISOString()
+    }
+
+    this.db
+      .prepare(
+        `INSERT INTO ${this.eventsTableName} (${EVENT_COLUMNS.join(", ")})
+         VALUES (${EVENT_COLUMNS.map(name => `@${name}`).join(", ")})
+         ON CONFLICT(event_id) DO UPDATE SET
+           event_type = excluded.event_type,
+           reason = excluded.reason,
+           started_at = excluded.started_at,
+           ended_at = excluded.ended_at,
+           label = excluded.label`
+      )
+      .run(Object.fromEntries(EVENT_COLUMNS.map(name => [name, row[name] ?? null])))
+  }
+
+  public async getTrackingEventsInRange(start: string, end: string): Promise<TrackingEvent[]> {
+    return this.db
+      .prepare(
+        `SELECT ${EVENT_COLUMNS.join(", ")} FROM ${this.eventsTableName}
+         WHERE started_at <= ? AND (ended_at IS NULL OR ended_at >= ?)
+         ORDER BY started_at ASC`
+      )
+      .all(end, start) as TrackingEvent[]
+  }
+
+  public async getOpenTrackingEvents(): Promise<TrackingEvent[]> {
+    return this.db
+      .prepare(
+        `SELECT ${EVENT_COLUMNS.join(", ")} FROM ${this.eventsTableName}
+         WHERE ended_at IS NULL
+         ORDER BY started_at ASC`
+      )
+      .all() as TrackingEvent[]
+  }
+
+  public async getScreenshotPathsBefore(before: string): Promise<string[]> {
+    const rows = this.db
+      .prepare(
+        `SELECT screenshot_path FROM ${this.tableName}
+         WHERE screenshot_path IS NOT NULL AND ${TIMESTAMP_EXPR} < ?`
+      )
+      .all(new Date(before).toISOString()) as Array<{ screenshot_path: string }>
+
+    return rows.map(row => row.screenshot_path)
+  }
+
+  public async deleteDataBefore(before: string): Promise<number> {
+    const cutoff = new Date(before).toISOString()
+    const deleted = this.db.transaction(() => {
+      this.db
+        .prepare(`DELETE FROM ${this.eventsTableName} WHERE ended_at IS NOT NULL AND ended_at < ?`)
+        .run(cutoff)
+      return this.db
+        .prepare(`DELETE FROM ${this.tableName} WHERE ${TIMESTAMP_EXPR} < ?`)
+        .run(cutoff).changes
+    })()
+    return deleted
+  }
+
+  public async getStats(): Promise<StorageStats> {
+    const row = this.db
+      .prepare(
+        `SELECT COUNT(*) AS total, MIN(${TIMESTAMP_EXPR}) AS first, MAX(${TIMESTAMP_EXPR}) AS last
+         FROM ${this.tableName}`
+      )
+      .get() as { total: number; first: string | null; last: string | null }
+
+    return {
+      totalRecords: row.total,
+      firstRecordAt: row.first,
+      lastRecordAt: row.last
+    }
+  }
+
+  public close(): void {
+    this.db.close()
+  }
+}
@@ -1,55 +1,106 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js'
-
-export interface ActivityRecord {
-  app_classification: string
-  goal_relevance: string
-  cognitive_state: string
-  context_switching: string
-  attention_residue: string
-  procrastination_signal: string
-  energy_level: string
-  created_at?: string // Supabase default timestamp
+import fs from 'node:fs'
+import {
+  ActivityRecord,
+  StorageBackend,
+  StorageProvider,
+  StorageStats,
+  TrackingEvent,
+  applyOverrides,
+  getRecordDuration,
+  getRecordTimestamp,
+  isClassifiedRecord,
+  isPrivateRecord,
+  isUnclassifiedRecord,
+  withCaptureDurations
+} from './StorageProvider'
+import { SupabaseStorageProvider } from './SupabaseStorageProvider'
+import { SqliteStorageProvider } from './SqliteStorageProvider'
+import { SettingsHelper } from './SettingsHelper'
+import { ActivityOverrides, validateActivityOverrides } from './ActivitySchema'
+
+export type {
+  ActivityRecord,
+  ClassifiedActivityRecord,
+  ClassificationStatus,
+  StorageBackend,
+  StorageStats,
+  TrackingEvent,
+  TrackingEventType,
+  AwayReason
+} from './StorageProvider'
+export {
+  applyOverrides,
+  getRecordDuration,
+  getRecordTimestamp,
+  isClassifiedRecord,
+  isPrivateRecord,
+  isUnclassifiedRecord
+} from './StorageProvider'
+
+export interface StorageConfig {
+  backend: StorageBackend
+  supabaseUrl?: string
+  supabaseKey?: string
+  sqlitePath?: string
 }
 
 // Configuration constants
-const SCREENSHOT_INTERVAL_SECONDS = 45
+const SECONDS_PER_MINUTE = 60
 const MINUTES_PER_HOUR = 60
+// A record never accounts for more time than the longest capture interval
+const getMaxRecordDurationSeconds = (): number =>
+  SettingsHelper.get().capture.schedule.maxIntervalMs / 1000
 
 export class StorageHelper {
-  private static supabase: SupabaseClient | null = null
-  private static tableName = 'activity_records'
+  private static provider: StorageProvider | null = null
 
   /**
-   * Initialize the Supabase client. Call this once at app startup.
-   * @param url Supabase project URL
-   * @param key Supabase anon/public key
+   * Initialize the configured storage backend. Call this at app startup,
+   * and again to switch backends; the previous one is closed.
+   * @param config Backend selection and its connection details
    */
-  public static initialize(url: string, key: string): void {
-    if (!url || !key) {
-      throw new Error('Supabase URL and Key are required for initialization.')
+  public static initialize(config: StorageConfig): void {
+    const provider = StorageHelper.createProvider(config)
+    StorageHelper.provider?.close?.()
+    StorageHelper.provider = provider
+  }
+
+  private static createProvider(config: StorageConfig): StorageProvider {
+    switch (config.backend) {
+      case 'supabase':
+        return new SupabaseStorageProvider(config.supabaseUrl || '', config.supabaseKey || '')
+      case 'sqlite':
+        return new SqliteStorageProvider(config.sqlitePath || '')
+      default:
+        throw new Error(`Unknown storage backend: ${config.backend}`)
     }
-    StorageHelper.supabase = createClient(url, key)
+  }
+
+  private static getProvider(): StorageProvider {
+    if (!StorageHelper.provider) {
+      throw new Error('Storage provider not initialized. Call StorageHelper.initialize first.')
+    }
+    return StorageHelper.provider
   }
 
   /**
-   * Store a new activity record in Supabase.
+   * Name of the active backend, or null before initialization
+   */
+  public static getBackendName(): StorageBackend | null {
+    return StorageHelper.provider?.name || null
+  }
+
+  /**
+   * Store a new activity record in the active backend.
    * @param record ActivityRecord object
    */
   public static async storeActivityRecord(record: ActivityRecord): Promise<{ success: boolean; error?: string }> {
-    if (!StorageHelper.supabase) {
-      throw new Error('Supabase client not initialized. Call StorageHelper.initialize first.')
-    }
+    const provider = StorageHelper.getProvider()
     try {
-      const { error } = await StorageHelper.supabase
-        .from(StorageHelper.tableName)
-        .insert([record])
-      if (error) {
-        console.error('[StorageHelper] Error inserting activity record:', error)
-        return { success: false, error: error.message }
-      }
+      await provider.storeActivityRecord(record)
       return { success: true }
     } catch (err: any) {
-      console.error('[StorageHelper] Unexpected error inserting activity record:', err)
+      console.error('[StorageHelper] Error inserting activity record:', err)
       return { success: false, error: err.message }
     }
   }
@@ -76,38 +127,30 @@ export class StorageHelper {
   }
 
   /**
-   * Fetch all activity records for a given day (LOCAL TIME).
+   * Fetch all activity records for a given day (LOCAL TIME), each with its
+   * duration_seconds set from the gap to the next capture and the user's
+   * overrides applied.
    * @param date Date object (defaults to today)
    */
   public static async getDailyActivities(date: Date = new Date()): Promise<ActivityRecord[]> {
-    if (!StorageHelper.supabase) {
-      throw new Error('Supabase client not initialized. Call StorageHelper.initialize first.')
-    }
-    
+    const provider = StorageHelper.getProvider()
+
     const { start, end } = this.getLocalDayBoundaries(date)
-    
+
     console.log(`[StorageHelper] Fetching activities for local day: ${date.toLocaleDateString()}`)
     console.log(`[StorageHelper] Time range: ${new Date(start).toLocaleString()} - ${new Date(end).toLocaleString()}`)
-    
+
     try {
-      const { data, error } = await StorageHelper.supabase
-        .from(StorageHelper.tableName)
-        .select('*')
-        .gte('created_at', start)
-        .lte('created_at', end)
-        .order('created_at', { ascending: true })
-        
-      if (error) {
-        console.error('[StorageHelper] Error fetching daily activities:', error)
-        return []
-      }
-      
-      const activities = (data as ActivityRecord[]) || []
+      const activities = withCaptureDurations(
+        await provider.getActivitiesInRange(start, end),
+        getMaxRecordDurationSeconds(),
+        new Date(end).getTime()
+      ).map(applyOverrides)
       console.log(`[StorageHelper] Found ${activities.length} activities for ${date.toLocaleDateString()}`)
       
       return activities
     } catch (err: any) {
-      console.error('[StorageHelper] Unexpected error fetching daily activities:', err)
+      console.error('[StorageHelper] Error fetching daily activities:', err)
       return []
     }
   }
@@ -121,14 +164,15 @@ export class StorageHelper {
     const hourlyMap = new Map<number, ActivityRecord[]>()
 
     activities.forEach(activity => {
-      if (!activity.created_at) {
-        console.warn('[StorageHelper] Activity missing created_at timestamp')
+      const timestamp = getRecordTimestamp(activity)
+      if (!timestamp) {
+        console.warn('[StorageHelper] Activity missing timestamp')
         return
       }
       
       try {
         // Parse in local time
-        const activityDate = new Date(activity.created_at)
+        const activityDate = new Date(timestamp)
         const localHour = activityDate.getHours() // This gives local hour
         
         if (!hourlyMap.has(localHour)) {
@@ -159,6 +203,9 @@ export class StorageHelper {
     topApp: string
     dayStart: string
     dayEnd: string
+    unclassifiedRecords: number
+    privateRecords: number
+    projectMinutes: Record<string, number> // Keyed by goal id
   }> {
     const activities = await this.getDailyActivities(date)
     
@@ -169,38 +216,59 @@ export class StorageHelper {
         focusPercentage: 0,
         topApp: 'None',
         dayStart: 'No data',
-        dayEnd: 'No data'
+        dayEnd: 'No data',
+        unclassifiedRecords: 0,
+        privateRecords: 0,
+        projectMinutes: {}
       }
     }
 
-    // Calculate hours tracked (each record represents SCREENSHOT_INTERVAL_SECONDS)
-    const minutesTracked = (activities.length * SCREENSHOT_INTERVAL_SECONDS) / MINUTES_PER_HOUR
+    // Unclassified and private records count as tracked time but are left
+    // out of every classification-based figure
+    const classified = activities.filter(isClassifiedRecord)
+
+    // Every figure is weighted by the time each record accounts for
+    const totalSeconds = (records: ActivityRecord[]) =>
+      records.reduce((sum, a) => sum + getRecordDuration(a), 0)
+
+    const minutesTracked = totalSeconds(activities) / SECONDS_PER_MINUTE
     const hoursTracked = minutesTracked / MINUTES_PER_HOUR
     
     // Calculate focus percentage
-    const focusCount = activities.filter(a => 
+    const focusSeconds = totalSeconds(classified.filter(a => 
       a.cognitive_state === 'deep_focus' || a.cognitive_state === 'light_work'
-    ).length
-    const focusPercentage = Math.round((focusCount / activities.length) * 100)
+    ))
+    const classifiedSeconds = totalSeconds(classified)
+    const focusPercentage = classifiedSeconds > 0
+      ? Math.round((focusSeconds / classifiedSeconds) * 100)
+      : 0
     
-    // Find most used app
-    const appCounts = new Map<string, number>()
-    activities.forEach(a => {
+    // Find the app with the most time
+    const appSeconds = new Map<string, number>()
+    classified.forEach(a => {
       const app = a.app_classification.split(' - ')[0]
-      appCounts.set(app, (appCounts.get(app) || 0) + 1)
+      appSeconds.set(app, (appSeconds.get(app) || 0) + getRecordDuration(a))
     })
     
-    const topApp = Array.from(appCounts.entries())
+    const topApp = Array.from(appSeconds.entries())
       .sort((a, b) => b[1] - a[1])[0]?.[0] || 'None'
+
+    // Time per goal records are attributed to. Only goal_related time counts,
+    // so relabeling a record away from its goal takes it off the project.
+    const projectMinutes: Record<string, number> = {}
+    classified.forEach(a => {
+      if (!a.project_id || a.goal_relevance !== 'goal_related') return
+      projectMinutes[a.project_id] = (projectMinutes[a.project_id] || 0) + getRecordDuration(a) / SECONDS_PER_MINUTE
+    })
     
     // Get actual work day boundaries
-    const firstActivity = activities[0]
-    const lastActivity = activities[activities.length - 1]
-    const dayStart = firstActivity.created_at 
-      ? new Date(firstActivity.created_at).toLocaleTimeString() 
+    const firstTimestamp = getRecordTimestamp(activities[0])
+    const lastTimestamp = getRecordTimestamp(activities[activities.length - 1])
+    const dayStart = firstTimestamp 
+      ? new Date(firstTimestamp).toLocaleTimeString() 
       : 'Unknown'
-    const dayEnd = lastActivity.created_at 
-      ? new Date(lastActivity.created_at).toLocaleTimeString() 
+    const dayEnd = lastTimestamp 
+      ? new Date(lastTimestamp).toLocaleTimeString() 
       : 'Unknown'
 
     return {
@@ -209,7 +277,10 @@ export class StorageHelper {
       focusPercentage,
       topApp,
       dayStart,
-      dayEnd
+      dayEnd,
+      unclassifiedRecords: activities.filter(isUnclassifiedRecord).length,
+      privateRecords: activities.filter(isPrivateRecord).length,
+      projectMinutes
     }
   }
 
@@ -217,26 +288,13 @@ export class StorageHelper {
    * Get the most recent activity record
    */
   public static async getLatestActivity(): Promise<ActivityRecord | null> {
-    if (!StorageHelper.supabase) {
-      throw new Error('Supabase client not initialized.')
-    }
+    const provider = StorageHelper.getProvider()
 
     try {
-      const { data, error } = await StorageHelper.supabase
-        .from(StorageHelper.tableName)
-        .select('*')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single()
-
-      if (error) {
-        console.error('[StorageHelper] Error fetching latest activity:', error)
-        return null
-      }
-
-      return data as ActivityRecord
+      const latest = await provider.getLatestActivity()
+      return latest ? applyOverrides(latest) : null
     } catch (err) {
-      console.error('[StorageHelper] Unexpected error:', err)
+      console.error('[StorageHelper] Error fetching latest activity:', err)
       return null
     }
   }
@@ -245,31 +303,236 @@ export class StorageHelper {
    * Get activities for a date range (useful for weekly reports)
    */
   public static async getActivitiesInRange(startDate: Date, endDate: Date): Promise<ActivityRecord[]> {
-    if (!StorageHelper.supabase) {
-      throw new Error('Supabase client not initialized.')
-    }
+    const provider = StorageHelper.getProvider()
 
     const start = this.getLocalDayBoundaries(startDate).start
     const end = this.getLocalDayBoundaries(endDate).end
 
     try {
-      const { data, error } = await StorageHelper.supabase
-        .from(StorageHelper.tableName)
-        .select('*')
-        .gte('created_at', start)
-        .lte('created_at', end)
-        .order('created_at', { ascending: true })
-
-      if (error) {
-        console.error('[StorageHelper] Error fetching activities in range:', error)
-        return []
+      return withCaptureDurations(
+        await provider.getActivitiesInRange(start, end),
+        getMaxRecordDurationSeconds(),
+        new Date(end).getTime()
+      ).map(applyOverrides)
+    } catch (err) {
+      console.error('[StorageHelper] Error fetching activities in range:', err)
+      return []
+    }
+  }
+
+  /**
+   * Fetch a day's records (LOCAL TIME) as stored, with the model output
+   * and the user's overrides kept apart, for reviewing and correcting them
+   * @param date Date object (defaults to today)
+   */
+  public static async getActivityLog(date: Date = new Date()): Promise<ActivityRecord[]> {
+    const provider = StorageHelper.getProvider()
+    const { start, end } = this.getLocalDayBoundaries(date)
+
+    try {
+      return withCaptureDurations(
+        await provider.getActivitiesInRange(start, end),
+        getMaxRecordDurationSeconds(),
+        new Date(end).getTime()
+      )
+    } catch (err) {
+      console.error('[StorageHelper] Error fetching activity log:', err)
+      return []
+    }
+  }
+
+  /**
+   * Replace the user's corrections of one record
+   * @param overrides Corrected fields; null or an empty object restores the model output
+   * @returns The record as stored after the change
+   */
+  public static async setActivityOverrides(
+    recordId: string,
+    overrides: ActivityOverrides | null
+  ): Promise<{ success: boolean; record?: ActivityRecord; error?: string }> {
+    const provider = StorageHelper.getProvider()
+
+    try {
+      const validated = overrides ? validateActivityOverrides(overrides) : {}
+      const cleared = Object.keys(validated).length === 0
+      await provider.updateActivityRecord(recordId, {
+        overrides: cleared ? null : validated,
+        overridden_at: cleared ? null : new Date().toISOString()
+      })
+
+      const record = await provider.getActivityRecord(recordId)
+      if (!record) {
+        throw new Error(`No record with id ${recordId}`)
+      }
+      return { success: true, record }
+    } catch (err: any) {
+      console.error('[StorageHelper] Error saving activity overrides:', err)
+      return { success: false, error: err.message }
+    }
+  }
+
+  /**
+   * Correct every record captured within [start, end]. The given fields are
+   * added to each record's existing overrides.
+   * @returns The changed records as stored after the change
+   */
+  public static async relabelActivitiesInRange(
+    start: Date,
+    end: Date,
+    overrides: ActivityOverrides
+  ): Promise<{ success: boolean; records?: ActivityRecord[]; error?: string }> {
+    const provider = StorageHelper.getProvider()
+
+    try {
+      const validated = validateActivityOverrides(overrides)
+      if (Object.keys(validated).length === 0) {
+        throw new Error('No fields to relabel')
+      }
+      if (start.getTime() > end.getTime()) {
+        throw new Error('The range must start before it ends')
       }
 
-      return (data as ActivityRecord[]) || []
+      // Rows stored before record_id existed cannot be addressed
+      const records = (await provider.getActivitiesInRange(start.toISOString(), end.toISOString()))
+        .filter(record => record.record_id)
+      const overriddenAt = new Date().toISOString()
+      const relabeled: ActivityRecord[] = []
+      for (const record of records) {
+        const changes = { overrides: { ...record.overrides, ...validated }, overridden_at: overriddenAt }
+        await provider.updateActivityRecord(record.record_id!, changes)
+        relabeled.push({ ...record, ...changes })
+      }
+      console.log(`[StorageHelper] Relabeled ${relabeled.length} records`)
+      return { success: true, records: relabeled }
+    } catch (err: any) {
+      console.error('[StorageHelper] Error relabeling activities:', err)
+      return { success: false, error: err.message }
+    }
+  }
+
+  /**
+   * Get unclassified records, oldest first, for reclassification
+   * @param maxAttempts Records without a screenshot are left out after this many attempts
+   */
+  public static async getUnclassifiedActivities(limit: number, maxAttempts: number): Promise<ActivityRecord[]> {
+    const provider = StorageHelper.getProvider()
+
+    try {
+      return await provider.getUnclassifiedActivities(limit, maxAttempts)
+    } catch (err) {
+      console.error('[StorageHelper] Error fetching unclassified activities:', err)
+      return []
+    }
+  }
+
+  /**
+   * Update fields of an existing record
+   * @param recordId record_id of the record to change
+   */
+  public static async updateActivityRecord(
+    recordId: string,
+    changes: Partial<ActivityRecord>
+  ): Promise<{ success: boolean; error?: string }> {
+    const provider = StorageHelper.getProvider()
+
+    try {
+      await provider.updateActivityRecord(recordId, changes)
+      return { success: true }
+    } catch (err: any) {
+      console.error('[StorageHelper] Error updating activity record:', err)
+      return { success: false, error: err.message }
+    }
+  }
+
+  /**
+   * Store or update a tracking event such as an away period
+   */
+  public static async storeTrackingEvent(event: TrackingEvent): Promise<{ success: boolean; error?: string }> {
+    const provider = StorageHelper.getProvider()
+
+    try {
+      await provider.storeTrackingEvent(event)
+      return { success: true }
+    } catch (err: any) {
+      console.error('[StorageHelper] Error storing tracking event:', err)
+      return { success: false, error: err.message }
+    }
+  }
+
+  /**
+   * Fetch tracking events overlapping a given day (LOCAL TIME)
+   * @param date Date object (defaults to today)
+   */
+  public static async getDailyTrackingEvents(date: Date = new Date()): Promise<TrackingEvent[]> {
+    const provider = StorageHelper.getProvider()
+    const { start, end } = this.getLocalDayBoundaries(date)
+
+    try {
+      return await provider.getTrackingEventsInRange(start, end)
     } catch (err) {
-      console.error('[StorageHelper] Unexpected error:', err)
+      console.error('[StorageHelper] Error fetching tracking events:', err)
       return []
     }
   }
-}/ /   U p d a t e d  
- 
\ No newline at end of file
+
+  /**
+   * Close away, paused and focus periods left open by a crash or a kill,
+   * at the last known activity time. Call at startup, before anything
+   * opens a new period.
+   * @returns Number of events closed
+   */
+  public static async closeInterruptedTrackingEvents(): Promise<number> {
+    const provider = StorageHelper.getProvider()
+
+    try {
+      const open = await provider.getOpenTrackingEvents()
+      if (open.length === 0) return 0
+
+      const latest = await provider.getLatestActivity()
+      const lastActivity = new Date((latest && getRecordTimestamp(latest)) || 0).getTime()
+      for (const event of open) {
+        // A period with no capture after it ends where it began
+        const endedAt = new Date(Math.max(lastActivity, new Date(event.started_at).getTime())).toISOString()
+        await provider.storeTrackingEvent({ ...event, ended_at: endedAt })
+      }
+      console.log(`[StorageHelper] Closed ${open.length} interrupted tracking events`)
+      return open.length
+    } catch (err) {
+      console.error('[StorageHelper] Error closing interrupted tracking events:', err)
+      return 0
+    }
+  }
+
+  /**
+   * Get record counts and time span of the active backend
+   */
+  public static async getStorageStats(): Promise<StorageStats | null> {
+    const provider = StorageHelper.getProvider()
+
+    try {
+      return await provider.getStats()
+    } catch (err) {
+      console.error('[StorageHelper] Error fetching storage stats:', err)
+      return null
+    }
+  }
+
+  /**
+   * Delete records and ended tracking events older than the given date,
+   * along with the screenshots unclassified records kept for retries
+   * @returns Number of records deleted
+   */
+  public static async deleteDataBefore(date: Date): Promise<{ success: boolean; deleted?: number; error?: string }> {
+    const provider = StorageHelper.getProvider()
+
+    try {
+      const screenshotPaths = await provider.getScreenshotPathsBefore(date.toISOString())
+      await Promise.all(screenshotPaths.map(filePath => fs.promises.unlink(filePath).catch(() => {})))
+      const deleted = await provider.deleteDataBefore(date.toISOString())
+      return { success: true, deleted }
+    } catch (err: any) {
+      console.error('[StorageHelper] Error deleting old data:', err)
+      return { success: false, error: err.message }
+    }
+  }
+}
@@ -0,0 +1,234 @@
+// StorageProvider.ts
+
+import { ACTIVITY_ENUM_FIELDS, ActivityClassification, ActivityEnumField, ActivityOverrides } from "./ActivitySchema"
+
+/**
+ * "unclassified" records mark time where capture worked but the model did
+ * not; "private" records mark time spent in an excluded app or site, where
+ * nothing was captured at all. Both have null classification fields. Rows
+ * written before this field existed have no status and count as classified.
+ */
+export type ClassificationStatus = "classified" | "unclassified" | "private"
+
+type NullableClassification = {
+  [K in ActivityEnumField]: ActivityClassification[K] | null
+}
+
+export interface ActivityRecord extends NullableClassification {
+  record_id?: string // Client-generated idempotency key
+  app_classification: string
+  classification_status?: ClassificationStatus
+  classification_error?: string | null // Why the last classification attempt failed
+  classification_attempts?: number
+  screenshot_path?: string | null // Retained screenshot awaiting reclassification
+  captured_at?: string // Client time the screenshot was taken
+  duration_seconds?: number | null // Time the record accounts for, see withCaptureDurations
+  window_class?: string | null // Focused window at capture time, where the OS reports it
+  window_title?: string | null
+  window_pid?: number | null
+  primary_display?: string | null // Display holding the main activity when several were captured
+  project_id?: string | null // Goal the model attributed the activity to
+  // Corrections entered by the user. The classification fields above keep
+  // the model output so every correction can be audited.
+  overrides?: ActivityOverrides | null
+  overridden_at?: string | null
+  created_at?: string // Set by the backend when omitted
+}
+
+export type ClassifiedActivityRecord = ActivityRecord & ActivityClassification
+
+export function isClassifiedRecord(record: ActivityRecord): record is ClassifiedActivityRecord {
+  return (record.classification_status || "classified") === "classified"
+}
+
+/**
+ * Time spent in an excluded app or site, see ExclusionList
+ */
+export function isPrivateRecord(record: ActivityRecord): boolean {
+  return record.classification_status === "private"
+}
+
+export function isUnclassifiedRecord(record: ActivityRecord): boolean {
+  return record.classification_status === "unclassified"
+}
+
+/**
+ * The record as analytics should see it: user overrides replace the model
+ * output field by field. A record that was never classified counts as
+ * classified once the overrides fill in every field.
+ */
+export function applyOverrides<T extends ActivityRecord>(record: T): T {
+  if (!record.overrides || Object.keys(record.overrides).length === 0) return record
+
+  const corrected: T = { ...record, ...record.overrides }
+  const complete = ["app_classification", ...ACTIVITY_ENUM_FIELDS].every(
+    field => (corrected as Record<string, any>)[field] != null
+  )
+  if (!isClassifiedRecord(record) && complete) {
+    corrected.classification_status = "classified"
+  }
+  return corrected
+}
+
+/**
+ * When the activity happened: the client capture time, or created_at for
+ * rows written before captured_at existed.
+ */
+export function getRecordTimestamp(record: ActivityRecord): string | undefined {
+  return record.captured_at || record.created_at
+}
+
+/**
+ * Things the user or the tracker noted alongside the activity records,
+ * kept apart from them so they never count as classified activity:
+ * "away" when the user left the computer, "paused" when they paused
+ * tracking themselves, "annotation" when they tagged what they were doing
+ * at that moment, and "focus_block" for a period they declared as focused
+ * work.
+ */
+export type TrackingEventType = "away" | "paused" | "annotation" | "focus_block"
+
+export type AwayReason = "idle" | "lock_screen" | "suspend"
+
+export interface TrackingEvent {
+  event_id: string // Client-generated; storing the same id again updates the event
+  event_type: TrackingEventType
+  reason: string | null
+  started_at: string
+  ended_at: string | null // Null while the period is still open; equal to started_at for annotations
+  label?: string | null // Annotation text or focus block title
+  created_at?: string
+}
+
+// Weight of records with no duration, the interval of the old fixed schedule
+export const DEFAULT_RECORD_DURATION_SECONDS = 45
+
+export function getRecordDuration(record: ActivityRecord): number {
+  return record.duration_seconds ?? DEFAULT_RECORD_DURATION_SECONDS
+}
+
+/**
+ * Give each record an explicit duration: the gap to the next capture,
+ * capped at maxSeconds so time when capture was not running (app closed,
+ * offline, away) is not credited to the record before it. The last record
+ * has no successor and keeps its stored estimate, also capped, and cut
+ * off at endMs so it never runs into the future or past the range.
+ * @param records Records sorted oldest first
+ * @param endMs End of the range the records were read for; defaults to now
+ */
+export function withCaptureDurations<T extends ActivityRecord>(
+  records: T[],
+  maxSeconds: number,
+  endMs: number = Date.now()
+): T[] {
+  const untilMs = Math.min(endMs, Date.now())
+  return records.map((record, i) => {
+    const next = records[i + 1]
+    const start = new Date(getRecordTimestamp(record) || 0).getTime()
+    const nextStart = next ? new Date(getRecordTimestamp(next) || 0).getTime() : NaN
+
+    let seconds: number
+    if (Number.isFinite(nextStart) && Number.isFinite(start)) {
+      seconds = Math.max(0, (nextStart - start) / 1000)
+    } else {
+      seconds = getRecordDuration(record)
+      if (Number.isFinite(start)) seconds = Math.min(seconds, Math.max(0, (untilMs - start) / 1000))
+    }
+
+    return { ...record, duration_seconds: Math.round(Math.min(seconds, maxSeconds)) }
+  })
+}
+
+export type StorageBackend = "supabase" | "sqlite"
+
+export interface StorageStats {
+  totalRecords: number
+  firstRecordAt: string | null
+  lastRecordAt: string | null
+}
+
+/**
+ * Contract every storage backend implements. Providers throw on failure;
+ * StorageHelper is responsible for logging and turning errors into
+ * safe return values for the rest of the app.
+ */
+export interface StorageProvider {
+  readonly name: StorageBackend
+
+  /**
+   * Release open connections. Called before the backend is replaced.
+   */
+  close?(): void
+
+  /**
+   * Persist a single activity record. Storing a record whose record_id
+   * already exists must be a no-op so retries never duplicate data.
+   */
+  storeActivityRecord(record: ActivityRecord): Promise<void>
+
+  /**
+   * Fetch records whose timestamp (see getRecordTimestamp) falls within
+   * [start, end], oldest first.
+   * @param start ISO timestamp (inclusive)
+   * @param end ISO timestamp (inclusive)
+   */
+  getActivitiesInRange(start: string, end: string): Promise<ActivityRecord[]>
+
+  /**
+   * Fetch the most recent record, or null when the store is empty.
+   */
+  getLatestActivity(): Promise<ActivityRecord | null>
+
+  /**
+   * Fetch the record with the given record_id, or null when there is none.
+   */
+  getActivityRecord(recordId: string): Promise<ActivityRecord | null>
+
+  /**
+   * Fetch unclassified records that can be retried, oldest first: those
+   * that still have a retained screenshot, and those with window metadata
+   * and fewer than maxAttempts classification attempts.
+   */
+  getUnclassifiedActivities(limit: number, maxAttempts: number): Promise<ActivityRecord[]>
+
+  /**
+   * Apply a partial update to the record with the given record_id.
+   */
+  updateActivityRecord(recordId: string, changes: Partial<ActivityRecord>): Promise<void>
+
+  /**
+   * Insert a tracking event, or overwrite the stored event with the same
+   * event_id so an open period can be closed later.
+   */
+  storeTrackingEvent(event: TrackingEvent): Promise<void>
+
+  /**
+   * Fetch events overlapping [start, end], including open ones, ordered by
+   * started_at.
+   */
+  getTrackingEventsInRange(start: string, end: string): Promise<TrackingEvent[]>
+
+  /**
+   * Fetch events that have not ended, ordered by started_at.
+   */
+  getOpenTrackingEvents(): Promise<TrackingEvent[]>
+
+  /**
+   * Screenshot files still referenced by records whose timestamp is before
+   * the cutoff, so they can be removed along with the records.
+   * @param before ISO timestamp (exclusive)
+   */
+  getScreenshotPathsBefore(before: string): Promise<string[]>
+
+  /**
+   * Delete records whose timestamp is before the cutoff, and tracking
+   * events that ended before it. Resolves to the number of records deleted.
+   * @param before ISO timestamp (exclusive)
+   */
+  deleteDataBefore(before: string): Promise<number>
+
+  /**
+   * Summary counts used for diagnostics.
+   */
+  getStats(): Promise<StorageStats>
+}
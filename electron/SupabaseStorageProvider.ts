@@ -0,0 +1,237 @@
+// SupabaseStorageProvider.ts
+
+import { createClient, SupabaseClient } from "@supabase/supabase-js"
+import { ActivityRecord, StorageProvider, StorageStats, TrackingEvent, getRecordTimestamp } from "./StorageProvider"
+
+/**
+ * Stores records in a Supabase project. The tables, the unique record_id
+ * constraint and the newer columns come from
+ * supabase/migrations/20260301000000_activity_tracking.sql.
+ */
+export class SupabaseStorageProvider implements StorageProvider {
+  public readonly name = "supabase" as const
+  private supabase: SupabaseClient
+  private tableName = "activity_records"
+  private eventsTableName = "tracking_events"
+
+  /**
+   * @param url Supabase project URL
+   * @param key Supabase anon/public key
+   */
+  constructor(url: string, key: string) {
+    if (!url || !key) {
+      throw new Error("Supabase URL and Key are required for initialization.")
+    }
+    this.supabase = createClient(url, key)
+  }
+
+  public async storeActivityRecord(record: ActivityRecord): Promise<void> {
+    // Requires a unique constraint on record_id; records without one
+    // fall back to a plain insert
+    const query = record.record_id
+      ? this.supabase
+          .from(this.tableName)
+          .upsert([record], { onConflict: "record_id", ignoreDuplicates: true })
+      : this.supabase
+          .from(this.tableName)
+          .insert([record])
+
+    const { error } = await query
+
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  public async getActivitiesInRange(start: string, end: string): Promise<ActivityRecord[]> {
+    // Match on captured_at, or on created_at for rows that predate it
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select("*")
+      .or(
+        `and(captured_at.gte.${start},captured_at.lte.${end}),` +
+        `and(captured_at.is.null,created_at.gte.${start},created_at.lte.${end})`
+      )
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    // PostgREST cannot order by the coalesced timestamp, so sort here
+    return ((data as ActivityRecord[]) || []).sort(
+      (a, b) =>
+        new Date(getRecordTimestamp(a) || 0).getTime() -
+        new Date(getRecordTimestamp(b) || 0).getTime()
+    )
+  }
+
+  public async getActivityRecord(recordId: string): Promise<ActivityRecord | null> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("record_id", recordId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return (data as ActivityRecord) || null
+  }
+
+  public async getLatestActivity(): Promise<ActivityRecord | null> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select("*")
+      .order("captured_at", { ascending: false, nullsFirst: false })
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return (data as ActivityRecord) || null
+  }
+
+  public async getUnclassifiedActivities(limit: number, maxAttempts: number): Promise<ActivityRecord[]> {
+    // Rows from before classification_attempts existed have no count and
+    // are retried, as in SqliteStorageProvider
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select("*")
+      .eq("classification_status", "unclassified")
+      .or(
+        "screenshot_path.not.is.null," +
+        `and(or(classification_attempts.is.null,classification_attempts.lt.${maxAttempts}),` +
+        "or(window_class.not.is.null,window_title.not.is.null))"
+      )
+      .order("captured_at", { ascending: true, nullsFirst: true })
+      .limit(limit)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return (data as ActivityRecord[]) || []
+  }
+
+  public async updateActivityRecord(recordId: string, changes: Partial<ActivityRecord>): Promise<void> {
+    const { record_id: _ignored, ...update } = changes
+    const { error } = await this.supabase
+      .from(this.tableName)
+      .update(update)
+      .eq("record_id", recordId)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  public async storeTrackingEvent(event: TrackingEvent): Promise<void> {
+    // Requires a unique constraint on event_id
+    const { error } = await this.supabase
+      .from(this.eventsTableName)
+      .upsert([event], { onConflict: "event_id" })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+  }
+
+  public async getTrackingEventsInRange(start: string, end: string): Promise<TrackingEvent[]> {
+    const { data, error } = await this.supabase
+      .from(this.eventsTableName)
+      .select("*")
+      .lte("started_at", end)
+      .or(`ended_at.is.null,ended_at.gte.${start}`)
+      .order("started_at", { ascending: true })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return (data as TrackingEvent[]) || []
+  }
+
+  public async getOpenTrackingEvents(): Promise<TrackingEvent[]> {
+    const { data, error } = await this.supabase
+      .from(this.eventsTableName)
+      .select("*")
+      .is("ended_at", null)
+      .order("started_at", { ascending: true })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return (data as TrackingEvent[]) || []
+  }
+
+  public async getScreenshotPathsBefore(before: string): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from(this.tableName)
+      .select("screenshot_path")
+      .not("screenshot_path", "is", null)
+      .or(`captured_at.lt.${before},and(captured_at.is.null,created_at.lt.${before})`)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return ((data as Array<{ screenshot_path: string }>) || []).map(row => row.screenshot_path)
+  }
+
+  public async deleteDataBefore(before: string): Promise<number> {
+    const { error: eventsError } = await this.supabase
+      .from(this.eventsTableName)
+      .delete()
+      .lt("ended_at", before)
+
+    if (eventsError) {
+      throw new Error(eventsError.message)
+    }
+
+    const { count, error } = await this.supabase
+      .from(this.tableName)
+      .delete({ count: "exact" })
+      .or(`captured_at.lt.${before},and(captured_at.is.null,created_at.lt.${before})`)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    return count || 0
+  }
+
+  public async getStats(): Promise<StorageStats> {
+    const { count, error } = await this.supabase
+      .from(this.tableName)
+      .select("*", { count: "exact", head: true })
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const { data: first, error: firstError } = await this.supabase
+      .from(this.tableName)
+      .select("captured_at, created_at")
+      .order("captured_at", { ascending: true, nullsFirst: true })
+      .order("created_at", { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (firstError) {
+      throw new Error(firstError.message)
+    }
+
+    const latest = await this.getLatestActivity()
+
+    return {
+      totalRecords: count || 0,
+      firstRecordAt: (first && getRecordTimestamp(first as ActivityRecord)) || null,
+      lastRecordAt: (latest && getRecordTimestamp(latest)) || null
+    }
+  }
+}
@@ -0,0 +1,46 @@
+// TimeGaps.ts
+
+import { TrackingEvent } from "./StorageProvider"
+
+export type TimeGapReason =
+  | "away_from_computer"
+  | "app_closed"
+  | "system_idle"
+  | "screen_locked"
+  | "system_asleep"
+  | "user_paused"
+
+// Gap reasons for recorded away periods, by IdleMonitor reason
+const AWAY_GAP_REASONS: Record<string, TimeGapReason> = {
+  idle: "system_idle",
+  lock_screen: "screen_locked",
+  suspend: "system_asleep"
+}
+
+/**
+ * Reason for a gap between captures. Recorded away and paused periods are
+ * used when one overlaps the gap; otherwise the reason is guessed from its
+ * length.
+ */
+export function getGapReason(start: Date, end: Date, awayEvents: TrackingEvent[]): TimeGapReason {
+  let longestOverlap = 0
+  let reason: TimeGapReason | null = null
+
+  for (const event of awayEvents) {
+    const eventStart = new Date(event.started_at).getTime()
+    const eventEnd = event.ended_at ? new Date(event.ended_at).getTime() : end.getTime()
+    const overlap = Math.min(end.getTime(), eventEnd) - Math.max(start.getTime(), eventStart)
+
+    if (overlap > longestOverlap) {
+      longestOverlap = overlap
+      reason = event.event_type === "paused"
+        ? "user_paused"
+        : AWAY_GAP_REASONS[event.reason || ""] || "away_from_computer"
+    }
+  }
+
+  if (reason) return reason
+
+  const gapMinutes = (end.getTime() - start.getTime()) / 1000 / 60
+  return gapMinutes > 60 ? "app_closed" : "away_from_computer"
+}
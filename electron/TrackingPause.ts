@@ -0,0 +1,109 @@
+// TrackingPause.ts
+
+import { v4 as uuidv4 } from "uuid"
+import { TrackingEvent } from "./StorageHelper"
+
+export interface TrackingPauseCallbacks {
+  onPause: () => void
+  onResume: () => void
+  storeEvent: (event: TrackingEvent) => Promise<void> // Stores or queues the event
+}
+
+/**
+ * Pauses tracking on the user's request, optionally for a fixed number of
+ * minutes. Each pause is stored as a "paused" tracking event, opened when it
+ * starts and closed on resume, so the time shows up as a deliberate gap.
+ */
+export class TrackingPause {
+  private readonly callbacks: TrackingPauseCallbacks
+  private currentPause: TrackingEvent | null = null
+  private pausedUntil: Date | null = null
+  private resumeTimer: NodeJS.Timeout | null = null
+
+  constructor(callbacks: TrackingPauseCallbacks) {
+    this.callbacks = callbacks
+  }
+
+  /**
+   * Pause now, or change how long an ongoing pause lasts
+   * @param minutes Resume automatically after this long; null pauses until resumed
+   */
+  public pause(minutes: number | null): void {
+    if (minutes !== null && (!Number.isFinite(minutes) || minutes <= 0)) {
+      throw new Error("Pause duration must be a positive number of minutes")
+    }
+
+    this.clearTimer()
+    this.pausedUntil = null
+    if (minutes !== null) {
+      this.pausedUntil = new Date(Date.now() + minutes * 60000)
+      this.resumeTimer = setTimeout(() => this.resume(), minutes * 60000)
+    }
+
+    const until = this.pausedUntil ? ` until ${this.pausedUntil.toLocaleTimeString()}` : ""
+    if (this.currentPause) {
+      console.log(`[TrackingPause] Pause extended${until}`)
+      this.callbacks.onPause()
+      return
+    }
+
+    this.currentPause = {
+      event_id: uuidv4(),
+      event_type: "paused",
+      reason: "user",
+      started_at: new Date().toISOString(),
+      ended_at: null
+    }
+    console.log(`[TrackingPause] Tracking paused${until}`)
+    this.persist(this.currentPause)
+    this.callbacks.onPause()
+  }
+
+  public resume(): void {
+    if (this.endPause()) {
+      console.log("[TrackingPause] Tracking resumed")
+      this.callbacks.onResume()
+    }
+  }
+
+  /**
+   * Close any open pause without resuming, e.g. on quit
+   */
+  public stop(): void {
+    this.endPause()
+  }
+
+  private endPause(): boolean {
+    this.clearTimer()
+    this.pausedUntil = null
+    if (!this.currentPause) return false
+
+    this.persist({ ...this.currentPause, ended_at: new Date().toISOString() })
+    this.currentPause = null
+    return true
+  }
+
+  public isPaused(): boolean {
+    return this.currentPause !== null
+  }
+
+  /**
+   * When a timed pause ends, or null if not paused or paused until resumed
+   */
+  public getPausedUntil(): string | null {
+    return this.pausedUntil?.toISOString() ?? null
+  }
+
+  private clearTimer(): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer)
+      this.resumeTimer = null
+    }
+  }
+
+  private persist(event: TrackingEvent): void {
+    this.callbacks.storeEvent(event).catch(error => {
+      console.error("[TrackingPause] Failed to store paused period:", error)
+    })
+  }
+}
@@ -0,0 +1,151 @@
+// TrackingSchedule.ts
+
+import fs from "node:fs"
+import path from "node:path"
+
+export const WEEKDAYS = [
+  "sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"
+] as const
+
+export type Weekday = typeof WEEKDAYS[number]
+
+/**
+ * Local time range as "HH:MM". An end earlier than the start runs past
+ * midnight into the next day; "24:00" ends at midnight.
+ */
+export interface TimeWindow {
+  start: string
+  end: string
+}
+
+export interface TrackingScheduleConfig {
+  enabled: boolean // When false, capture runs at any time
+  days: Record<Weekday, TimeWindow[]>
+  holidays: string[] // Local dates as YYYY-MM-DD with no tracking at all
+}
+
+const workdays: TimeWindow[] = [{ start: "09:00", end: "18:00" }]
+
+export const DEFAULT_TRACKING_SCHEDULE: TrackingScheduleConfig = {
+  enabled: false,
+  days: {
+    sunday: [],
+    monday: workdays,
+    tuesday: workdays,
+    wednesday: workdays,
+    thursday: workdays,
+    friday: workdays,
+    saturday: []
+  },
+  holidays: []
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+function toDateKey(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Working hours during which automatic capture may run, per weekday, plus
+ * holidays. Stored as JSON in userData and edited from the app; a missing
+ * file means the default, which leaves the schedule switched off.
+ */
+export class TrackingSchedule {
+  private readonly filePath: string
+  private config: TrackingScheduleConfig
+
+  constructor(filePath: string) {
+    this.filePath = filePath
+    this.config = this.load()
+  }
+
+  private load(): TrackingScheduleConfig {
+    try {
+      if (!fs.existsSync(this.filePath)) return DEFAULT_TRACKING_SCHEDULE
+      const config = TrackingSchedule.validate(JSON.parse(fs.readFileSync(this.filePath, "utf8")))
+      console.log(`[TrackingSchedule] Loaded schedule (${config.enabled ? "enabled" : "disabled"})`)
+      return config
+    } catch (error: any) {
+      console.error(`[TrackingSchedule] Failed to load schedule from ${this.filePath}:`, error.message)
+      return DEFAULT_TRACKING_SCHEDULE
+    }
+  }
+
+  /**
+   * Check a schedule and fill in missing days. Throws on invalid values.
+   */
+  public static validate(input: any): TrackingScheduleConfig {
+    if (!input || typeof input !== "object") {
+      throw new Error("Schedule must be an object")
+    }
+
+    const days = {} as Record<Weekday, TimeWindow[]>
+    for (const day of WEEKDAYS) {
+      const windows = input.days?.[day] ?? DEFAULT_TRACKING_SCHEDULE.days[day]
+      if (!Array.isArray(windows)) {
+        throw new Error(`Hours for ${day} must be a list`)
+      }
+      days[day] = windows.map((window: TimeWindow) => {
+        if (!TIME_PATTERN.test(window?.start) || !TIME_PATTERN.test(window?.end)) {
+          throw new Error(`Invalid hours for ${day}: use HH:MM`)
+        }
+        if (window.start === window.end) {
+          throw new Error(`Empty hours for ${day}: ${window.start}-${window.end}`)
+        }
+        return { start: window.start, end: window.end }
+      })
+    }
+
+    const holidays = input.holidays ?? []
+    if (!Array.isArray(holidays) || holidays.some((date: string) => !DATE_PATTERN.test(date))) {
+      throw new Error("Holidays must be dates as YYYY-MM-DD")
+    }
+
+    return { enabled: !!input.enabled, days, holidays: [...holidays].sort() }
+  }
+
+  public getConfig(): TrackingScheduleConfig {
+    return JSON.parse(JSON.stringify(this.config))
+  }
+
+  public async setConfig(input: TrackingScheduleConfig): Promise<TrackingScheduleConfig> {
+    const config = TrackingSchedule.validate(input)
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.promises.writeFile(this.filePath, JSON.stringify(config, null, 2))
+    this.config = config
+    console.log(`[TrackingSchedule] Saved schedule (${config.enabled ? "enabled" : "disabled"})`)
+    return this.getConfig()
+  }
+
+  /**
+   * Whether capture is allowed at the given time
+   */
+  public isActive(date: Date = new Date()): boolean {
+    if (!this.config.enabled) return true
+    if (this.config.holidays.includes(toDateKey(date))) return false
+
+    const minutes = date.getHours() * 60 + date.getMinutes()
+    const today = this.config.days[WEEKDAYS[date.getDay()]]
+    const yesterday = this.config.days[WEEKDAYS[(date.getDay() + 6) % 7]]
+
+    const inToday = today.some(({ start, end }) => {
+      const from = toMinutes(start)
+      const to = toMinutes(end)
+      return from < to ? minutes >= from && minutes < to : minutes >= from
+    })
+    // Overnight windows that started the day before
+    const inYesterday = yesterday.some(({ start, end }) =>
+      toMinutes(end) < toMinutes(start) && minutes < toMinutes(end)
+    )
+
+    return inToday || inYesterday
+  }
+}
@@ -0,0 +1,174 @@
+// TrayHelper.ts
+
+import { app, Menu, MenuItemConstructorOptions, nativeImage, NativeImage, Tray } from "electron"
+import { AppState, HealthSnapshot } from "./main"
+import { StorageHelper } from "./StorageHelper"
+
+type TrayState = "tracking" | "degraded" | "paused" | "error"
+
+// Status dot colours as [r, g, b]
+const STATE_COLORS: Record<TrayState, [number, number, number]> = {
+  tracking: [34, 197, 94],
+  degraded: [249, 115, 22],
+  paused: [234, 179, 8],
+  error: [239, 68, 68]
+}
+
+const ICON_SIZE = 16
+// Today's focus is re-read from storage at most this often
+const FOCUS_REFRESH_MS = 60000
+const PAUSE_MINUTES = 30
+
+/**
+ * Tray icon and menu showing whether tracking is running, paused or
+ * failing. Everything shown comes from AppState's health snapshot and is
+ * rebuilt whenever AppState reports a change.
+ */
+export class TrayHelper {
+  private readonly appState: AppState
+  private tray: Tray | null = null
+  private icons = new Map<TrayState, NativeImage>()
+  private unsubscribe: (() => void) | null = null
+  private focusPercentage: number | null = null
+  private focusFetchedAt = 0
+
+  constructor(appState: AppState) {
+    this.appState = appState
+  }
+
+  public create(): void {
+    if (this.tray) return
+
+    this.tray = new Tray(this.getIcon("tracking"))
+    this.unsubscribe = this.appState.onHealthChange(() => this.refresh())
+    this.refresh()
+    console.log("[TrayHelper] Tray created")
+  }
+
+  public destroy(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    this.tray?.destroy()
+    this.tray = null
+  }
+
+  // A filled circle drawn in memory, so no icon asset has to ship
+  private getIcon(state: TrayState): NativeImage {
+    const cached = this.icons.get(state)
+    if (cached) return cached
+
+    const [r, g, b] = STATE_COLORS[state]
+    const bitmap = Buffer.alloc(ICON_SIZE * ICON_SIZE * 4)
+    const center = (ICON_SIZE - 1) / 2
+    for (let y = 0; y < ICON_SIZE; y++) {
+      for (let x = 0; x < ICON_SIZE; x++) {
+        if (Math.hypot(x - center, y - center) > ICON_SIZE / 2 - 2) continue
+        // Bitmaps are BGRA
+        bitmap.set([b, g, r, 255], (y * ICON_SIZE + x) * 4)
+      }
+    }
+
+    const icon = nativeImage.createFromBitmap(bitmap, { width: ICON_SIZE, height: ICON_SIZE })
+    this.icons.set(state, icon)
+    return icon
+  }
+
+  private static getState(health: HealthSnapshot): TrayState {
+    const servicesUp = Object.values(health.services).every(Boolean)
+    if (!servicesUp || health.capture.lastError || health.exclusionsError) return "error"
+    if (health.tracking.state !== "active") return "paused"
+    return health.capture.queuedError ? "degraded" : "tracking"
+  }
+
+  private static describeStatus(health: HealthSnapshot): string {
+    if (!health.services.storage) return "Error: storage unavailable"
+    if (!health.services.processingHelper) return "Error: processing unavailable"
+    if (!health.services.automaticScreenshots) return "Error: capture not running"
+    if (health.exclusionsError) return "Error: exclusion list unreadable, everything is private"
+
+    const { state, pausedUntil } = health.tracking
+    const status = {
+      active: "Tracking",
+      paused: pausedUntil
+        ? `Paused until ${new Date(pausedUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+        : "Paused",
+      off_schedule: "Paused: outside working hours",
+      away: "Paused: away",
+      stopped: "Stopped"
+    }[state]
+
+    if (health.capture.lastError) return `${status} (last capture failed)`
+    return health.capture.queuedError ? `${status} (records queued)` : status
+  }
+
+  private refresh(): void {
+    if (!this.tray) return
+
+    const health = this.appState.getHealthSnapshot()
+    const state = TrayHelper.getState(health)
+    const status = TrayHelper.describeStatus(health)
+
+    this.tray.setImage(this.getIcon(state))
+    this.tray.setToolTip(`Productivity tracker: ${status}`)
+    this.tray.setContextMenu(Menu.buildFromTemplate(this.buildMenu(health, status)))
+
+    if (Date.now() - this.focusFetchedAt > FOCUS_REFRESH_MS) {
+      this.focusFetchedAt = Date.now()
+      StorageHelper.getDailyStats()
+        .then(stats => {
+          this.focusPercentage = stats.totalRecords > 0 ? stats.focusPercentage : null
+          this.refresh()
+        })
+        .catch(error => console.error("[TrayHelper] Failed to read today's stats:", error))
+    }
+  }
+
+  private buildMenu(health: HealthSnapshot, status: string): MenuItemConstructorOptions[] {
+    const { capture, outboxSize, tracking } = health
+    const info: MenuItemConstructorOptions[] = [{ label: status, enabled: false }]
+
+    if (capture.lastError) {
+      info.push({ label: `Error: ${capture.lastError.slice(0, 80)}`, enabled: false })
+    }
+    if (capture.queuedError) {
+      info.push({ label: `Storage: ${capture.queuedError.slice(0, 80)}`, enabled: false })
+    }
+    if (outboxSize > 0) {
+      info.push({ label: `${outboxSize} records waiting to be stored`, enabled: false })
+    }
+    if (capture.lastClassification) {
+      const time = capture.lastCaptureAt
+        ? ` (${new Date(capture.lastCaptureAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })})`
+        : ""
+      info.push({ label: `Last: ${capture.lastClassification.slice(0, 60)}${time}`, enabled: false })
+    }
+    if (this.focusPercentage !== null) {
+      info.push({ label: `Focus today: ${this.focusPercentage}%`, enabled: false })
+    }
+
+    const pauseActions: MenuItemConstructorOptions[] = tracking.state === "paused"
+      ? [{ label: "Resume tracking", click: () => this.appState.resumeTracking() }]
+      : [
+        { label: `Pause for ${PAUSE_MINUTES} minutes`, click: () => this.appState.pauseTracking(PAUSE_MINUTES) },
+        { label: "Pause until resumed", click: () => this.appState.pauseTracking(null) }
+      ]
+
+    const focusAction: MenuItemConstructorOptions = tracking.focusBlock
+      ? { label: "Stop focus block", click: () => this.appState.stopFocusBlock() }
+      : { label: "Start focus block", click: () => this.appState.startFocusBlock(null) }
+
+    return [
+      ...info,
+      { type: "separator" },
+      ...pauseActions,
+      focusAction,
+      { label: "Annotate current activity...", click: () => this.appState.openQuickAnnotate() },
+      { label: "Open Insights", click: () => this.appState.showView("insights") },
+      { label: "Activity Log", click: () => this.appState.showView("activity") },
+      { label: "Diagnostics", click: () => this.appState.showView("diagnostics") },
+      { label: "Settings", click: () => this.appState.showView("settings") },
+      { type: "separator" },
+      { label: "Quit", click: () => app.quit() }
+    ]
+  }
+}
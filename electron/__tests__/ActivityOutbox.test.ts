@@ -0,0 +1,57 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { ActivityOutbox } from "../ActivityOutbox"
+
+describe("ActivityOutbox", () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "activity-outbox-test-"))
+    filePath = path.join(dir, "outbox.json")
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it("replays queued records in order and keeps them across restarts", async () => {
+    const outbox = new ActivityOutbox<{ id: number }>(filePath)
+    outbox.enqueue({ id: 1 }, "offline")
+    outbox.enqueue({ id: 2 })
+
+    const reopened = new ActivityOutbox<{ id: number }>(filePath)
+    expect(reopened.size()).toBe(2)
+
+    const stored: number[] = []
+    const store = (failOn: number | null) => async (record: { id: number }) => {
+      if (record.id === failOn) return { success: false, error: "still offline" }
+      stored.push(record.id)
+      return { success: true }
+    }
+
+    expect(await reopened.flush(store(2))).toBe(1)
+    expect(new ActivityOutbox(filePath).size()).toBe(1)
+
+    expect(await reopened.flush(store(null))).toBe(1)
+    expect(stored).toEqual([1, 2])
+    expect(new ActivityOutbox(filePath).size()).toBe(0)
+  })
+
+  it("moves an unreadable file aside instead of overwriting it", () => {
+    fs.writeFileSync(filePath, "[{ torn")
+    const outbox = new ActivityOutbox<{ id: number }>(filePath)
+    outbox.enqueue({ id: 1 })
+
+    const backups = fs.readdirSync(dir).filter(name => name.startsWith("outbox.json.unreadable-"))
+    expect(backups).toHaveLength(1)
+    expect(fs.readFileSync(path.join(dir, backups[0]), "utf8")).toBe("[{ torn")
+    expect(JSON.parse(fs.readFileSync(filePath, "utf8"))).toHaveLength(1)
+  })
+})
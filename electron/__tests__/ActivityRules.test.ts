@@ -0,0 +1,150 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { ActiveWindowInfo } from "../ActiveWindowHelper"
+import { ActivityRule, ActivityRules } from "../ActivityRules"
+
+const window = (window_class: string, window_title: string): ActiveWindowInfo => ({
+  window_class,
+  window_title,
+  window_pid: 42
+})
+
+const BREAK = {
+  goal_relevance: "break",
+  cognitive_state: "break",
+  context_switching: "new_task",
+  attention_residue: "clean_focus",
+  procrastination_signal: "none",
+  energy_level: "break_time"
+} as const
+
+const RULES: ActivityRule[] = [
+  { match: { window_class: "^code$", window_title: "tracker" }, classification: { goal_relevance: "goal_related" } },
+  { match: { min_idle_seconds: 300 }, classification: BREAK },
+  { match: { app_classification: "youtube" }, classification: { goal_relevance: "distraction" } }
+]
+
+describe("ActivityRules", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  describe("match", () => {
+    const rules = new ActivityRules(RULES)
+
+    it("requires every condition of a rule, case-insensitively", () => {
+      expect(rules.match(window("Code", "main.ts - Tracker"), 0)).toEqual({ goal_relevance: "goal_related" })
+      expect(rules.match(window("Code", "notes.md - Diary"), 0)).toBeNull()
+      expect(rules.match(window("Codium", "main.ts - tracker"), 0)).toBeNull()
+    })
+
+    it("returns the first matching rule", () => {
+      expect(rules.match(window("Code", "tracker"), 600)).toEqual({ goal_relevance: "goal_related" })
+      expect(rules.match(window("firefox", "News"), 600)).toEqual(BREAK)
+    })
+
+    it("does not match idle conditions when idle time is unknown", () => {
+      expect(rules.match(window("firefox", "News"), null)).toBeNull()
+      expect(rules.match(null, 299)).toBeNull()
+    })
+
+    it("matches app_classification against the description passed in", () => {
+      expect(rules.match(window("firefox", "Watch"), 0)).toBeNull()
+      expect(rules.match(window("firefox", "Watch"), 0, "Firefox - YouTube")).toEqual({ goal_relevance: "distraction" })
+    })
+
+    it("returns a copy callers can change", () => {
+      rules.match(window("Code", "tracker"), 0)!.goal_relevance = "break"
+
+      expect(rules.match(window("Code", "tracker"), 0)).toEqual({ goal_relevance: "goal_related" })
+    })
+  })
+
+  describe("apply", () => {
+    const rules = new ActivityRules(RULES)
+    const modelAnswer = {
+      app_classification: "Firefox - YouTube",
+      goal_relevance: "goal_related",
+      cognitive_state: "browsing",
+      context_switching: "new_task",
+      attention_residue: "clean_focus",
+      procrastination_signal: "entertainment",
+      energy_level: "low_energy_tasks"
+    } as const
+
+    it("replaces the fields of the rule matching the model's answer", () => {
+      expect(rules.apply(modelAnswer, window("firefox", "Watch"), 0)).toEqual({ ...modelAnswer, goal_relevance: "distraction" })
+    })
+
+    it("returns the answer unchanged when no rule matches", () => {
+      const answer = { ...modelAnswer, app_classification: "Firefox - MDN" }
+
+      expect(rules.apply(answer, window("firefox", "Docs"), 0)).toBe(answer)
+    })
+  })
+
+  it("names the project of the first matching rule", () => {
+    const rules = new ActivityRules([
+      { match: { window_title: "tracker" }, classification: { goal_relevance: "goal_related" }, project: " Tracker " },
+      { match: { window_class: "code" }, classification: { goal_relevance: "goal_related" } },
+      { match: { window_class: "figma" }, classification: {}, project: "" }
+    ])
+
+    expect(rules.size()).toBe(2)
+    expect(rules.matchProject(window("Code", "main.ts - tracker"), 0, "")).toBe("Tracker")
+    expect(rules.matchProject(window("Code", "notes.md"), 0, "")).toBeNull()
+    expect(rules.matchProject(window("firefox", "News"), 0, "")).toBeNull()
+  })
+
+  it("normalizes rule values and skips invalid rules", () => {
+    const rules = new ActivityRules([
+      { match: { window_class: "slack" }, classification: { cognitive_state: "Chat" as any } },
+      { match: { window_class: "zoom" }, classification: { cognitive_state: "daydreaming" as any } },
+      { match: { window_class: "(" }, classification: { goal_relevance: "break" } },
+      { match: { window_class: "mail" } } as ActivityRule
+    ])
+
+    expect(rules.size()).toBe(1)
+    expect(rules.match(window("Slack", "general"), 0)).toEqual({ cognitive_state: "communication" })
+  })
+
+  it("tells complete rule results from partial ones", () => {
+    expect(ActivityRules.isComplete(BREAK)).toBe(true)
+    expect(ActivityRules.isComplete({ goal_relevance: "goal_related" })).toBe(false)
+  })
+
+  describe("load", () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "activity-rules-test-"))
+      vi.spyOn(console, "error").mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true })
+    })
+
+    it("reads a JSON array of rules", () => {
+      const filePath = path.join(dir, "rules.json")
+      fs.writeFileSync(filePath, JSON.stringify(RULES))
+
+      expect(ActivityRules.load(filePath).size()).toBe(RULES.length)
+    })
+
+    it("falls back to no rules for a missing or malformed file", () => {
+      const filePath = path.join(dir, "rules.json")
+      expect(ActivityRules.load(filePath).size()).toBe(0)
+
+      fs.writeFileSync(filePath, JSON.stringify({ rules: RULES }))
+      expect(ActivityRules.load(filePath).size()).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest"
+import {
+  ACTIVITY_ENUM_FIELDS,
+  normalizeEnumValue,
+  validateActivityOverrides,
+  validateClassification
+} from "../ActivitySchema"
+
+const VALID = {
+  app_classification: "VS Code - main.ts",
+  goal_relevance: "goal_related",
+  cognitive_state: "deep_focus",
+  context_switching: "continuing_task",
+  attention_residue: "clean_focus",
+  procrastination_signal: "none",
+  energy_level: "high_focus_work"
+}
+
+describe("normalizeEnumValue", () => {
+  it("accepts vocabulary values, loose spellings and aliases", () => {
+    expect(normalizeEnumValue("cognitive_state", "deep_focus")).toBe("deep_focus")
+    expect(normalizeEnumValue("cognitive_state", " Deep Focus ")).toBe("deep_focus")
+    expect(normalizeEnumValue("cognitive_state", "deep-focus")).toBe("deep_focus")
+    expect(normalizeEnumValue("cognitive_state", "Coding")).toBe("deep_focus")
+  })
+
+  it("rejects unknown values and non-strings", () => {
+    expect(normalizeEnumValue("cognitive_state", "daydreaming")).toBeNull()
+    expect(normalizeEnumValue("cognitive_state", 3)).toBeNull()
+  })
+})
+
+describe("validateClassification", () => {
+  it("returns a complete response unchanged", () => {
+    expect(validateClassification(VALID)).toEqual({ classification: VALID, outOfVocabulary: [], missingFields: [] })
+  })
+
+  it("normalizes values and trims the app classification", () => {
+    const { classification } = validateClassification({
+      ...VALID,
+      app_classification: "  Slack - #general ",
+      cognitive_state: "Chat",
+      energy_level: "Low"
+    })
+
+    expect(classification).toMatchObject({
+      app_classification: "Slack - #general",
+      cognitive_state: "communication",
+      energy_level: "low_energy_tasks"
+    })
+  })
+
+  it("reports missing fields and rejects the classification", () => {
+    const { goal_relevance, ...rest } = VALID
+    const result = validateClassification({ ...rest, app_classification: " ", energy_level: null })
+
+    expect(result.classification).toBeNull()
+    expect(result.missingFields).toEqual(["app_classification", "goal_relevance", "energy_level"])
+  })
+
+  it("reports out-of-vocabulary values and rejects the classification", () => {
+    const result = validateClassification({ ...VALID, cognitive_state: "daydreaming" })
+
+    expect(result.classification).toBeNull()
+    expect(result.outOfVocabulary).toEqual([{ field: "cognitive_state", value: "daydreaming" }])
+  })
+
+  it("treats a response that is not an object as missing every field", () => {
+    expect(validateClassification("deep_focus").missingFields).toEqual(["app_classification", ...ACTIVITY_ENUM_FIELDS])
+    expect(validateClassification(null).classification).toBeNull()
+  })
+})
+
+describe("validateActivityOverrides", () => {
+  it("keeps the corrected fields, trimming the app classification", () => {
+    expect(validateActivityOverrides({ app_classification: " Figma - Logo ", goal_relevance: "goal_related" }))
+      .toEqual({ app_classification: "Figma - Logo", goal_relevance: "goal_related" })
+  })
+
+  it("drops fields left unset", () => {
+    expect(validateActivityOverrides({ cognitive_state: null, energy_level: undefined })).toEqual({})
+  })
+
+  it("does not normalize values entered by the user", () => {
+    expect(() => validateActivityOverrides({ cognitive_state: "Deep Focus" }))
+      .toThrow("cognitive_state must be one of: deep_focus, light_work, browsing, communication, break")
+  })
+
+  it("accepts a goal id or null as the project", () => {
+    expect(validateActivityOverrides({ project_id: " goal-1 " })).toEqual({ project_id: "goal-1" })
+    expect(validateActivityOverrides({ project_id: null })).toEqual({ project_id: null })
+    expect(() => validateActivityOverrides({ project_id: "" })).toThrow("project_id must be a goal id or null")
+  })
+
+  it("rejects unknown fields, empty text and non-objects", () => {
+    expect(() => validateActivityOverrides({ mood: "happy" })).toThrow("Unknown activity field: mood")
+    expect(() => validateActivityOverrides({ app_classification: "  " })).toThrow(/non-empty text/)
+    expect(() => validateActivityOverrides(["goal_related"])).toThrow("Overrides must be an object")
+    expect(() => validateActivityOverrides(null)).toThrow("Overrides must be an object")
+  })
+})
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { AdaptiveCaptureScheduler, ChangeDetector } from "../AdaptiveCaptureScheduler"
+
+const OPTIONS = { frameIntervalMs: 1000, minIntervalMs: 3000, maxIntervalMs: 10000, changeThreshold: 10 }
+
+describe("AdaptiveCaptureScheduler", () => {
+  let onCapture: ReturnType<typeof vi.fn>
+  let scheduler: AdaptiveCaptureScheduler
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    onCapture = vi.fn(async () => {})
+  })
+
+  afterEach(() => {
+    scheduler.stop()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  const run = (detector: ChangeDetector, isPaused = () => false) => {
+    scheduler = new AdaptiveCaptureScheduler(detector, OPTIONS, onCapture, isPaused)
+    scheduler.start()
+  }
+
+  const sampleOf = (samples: () => string): ChangeDetector => ({
+    sample: async () => samples(),
+    hasChanged: (previous, current) => previous !== current
+  })
+
+  it("captures on a change, but not sooner than minIntervalMs", async () => {
+    let screen = "editor"
+    run(sampleOf(() => screen))
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onCapture).toHaveBeenCalledTimes(1)
+
+    screen = "browser"
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onCapture).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(onCapture).toHaveBeenCalledTimes(2)
+  })
+
+  it("captures every maxIntervalMs without a change, credited up to the next capture", async () => {
+    run(sampleOf(() => "editor"))
+
+    await vi.advanceTimersByTimeAsync(1000)
+    await vi.advanceTimersByTimeAsync(9000)
+    expect(onCapture).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onCapture).toHaveBeenCalledTimes(2)
+    expect(onCapture).toHaveBeenLastCalledWith(10)
+  })
+
+  it("still captures every maxIntervalMs while sampling fails", async () => {
+    run({
+      sample: async () => { throw new Error("desktopCapturer unavailable") },
+      hasChanged: () => true
+    })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onCapture).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(9000)
+    expect(onCapture).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onCapture).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not capture while paused and starts over afterwards", async () => {
+    let paused = true
+    run(sampleOf(() => "editor"), () => paused)
+
+    await vi.advanceTimersByTimeAsync(20000)
+    expect(onCapture).not.toHaveBeenCalled()
+
+    paused = false
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(onCapture).toHaveBeenCalledTimes(1)
+  })
+})
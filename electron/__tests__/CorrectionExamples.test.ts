@@ -0,0 +1,140 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { ActiveWindowInfo } from "../ActiveWindowHelper"
+import { ActivityOverrides } from "../ActivitySchema"
+import { CorrectionExamples } from "../CorrectionExamples"
+import { ActivityRecord } from "../StorageProvider"
+
+const window = (window_class: string, window_title: string): ActiveWindowInfo => ({
+  window_class,
+  window_title,
+  window_pid: 42
+})
+
+const corrected = (
+  window_class: string,
+  window_title: string,
+  overrides: ActivityOverrides,
+  overridden_at = "2026-03-02T10:00:00.000Z"
+): ActivityRecord => ({
+  app_classification: `${window_class} - ${window_title}`,
+  goal_relevance: "distraction",
+  cognitive_state: "browsing",
+  context_switching: "new_task",
+  attention_residue: "clean_focus",
+  procrastination_signal: "entertainment",
+  energy_level: "low_energy_tasks",
+  window_class,
+  window_title,
+  overrides,
+  overridden_at
+})
+
+describe("CorrectionExamples", () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "correction-examples-test-"))
+    filePath = path.join(dir, "examples.json")
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  describe("findRelevant", () => {
+    let examples: CorrectionExamples
+
+    beforeEach(async () => {
+      examples = new CorrectionExamples(filePath)
+      // Learned one at a time, so the later ones are newer
+      await examples.learn([corrected("firefox", "Rust book - Ownership", { goal_relevance: "goal_related" })])
+      await examples.learn([corrected("firefox", "YouTube - Rust tutorial", { goal_relevance: "goal_related" })])
+      await examples.learn([corrected("Slack", "general - Team", { cognitive_state: "communication" })])
+    })
+
+    it("ranks the same app and shared title words first", () => {
+      const found = examples.findRelevant(window("Firefox", "Rust tutorial - Mozilla Firefox"), 5)
+
+      expect(found.map(example => example.window_title)).toEqual(["YouTube - Rust tutorial", "Rust book - Ownership"])
+    })
+
+    it("finds examples of other apps by title words alone", () => {
+      const found = examples.findRelevant(window("Code", "team notes - general"), 5)
+
+      expect(found.map(example => example.window_class)).toEqual(["Slack"])
+    })
+
+    it("prefers the newest example on ties and honours the limit", () => {
+      const found = examples.findRelevant(window("firefox", "Mozilla Firefox"), 1)
+
+      expect(found.map(example => example.window_title)).toEqual(["YouTube - Rust tutorial"])
+    })
+
+    it("finds nothing for an unknown or unrelated window", () => {
+      expect(examples.findRelevant(null, 5)).toEqual([])
+      expect(examples.findRelevant(window("gimp", "photo.png"), 5)).toEqual([])
+    })
+  })
+
+  describe("learn", () => {
+    it("keeps the corrected fields next to the model's answer", async () => {
+      const examples = new CorrectionExamples(filePath)
+      await examples.learn([corrected("firefox", "Docs", { goal_relevance: "goal_related", project_id: "goal-1" })])
+
+      expect(new CorrectionExamples(filePath).findRelevant(window("firefox", "Docs"), 5)).toEqual([{
+        app: "firefox",
+        window_class: "firefox",
+        window_title: "Docs",
+        model: { goal_relevance: "distraction" },
+        corrected: { goal_relevance: "goal_related" },
+        corrected_at: "2026-03-02T10:00:00.000Z"
+      }])
+    })
+
+    it("keeps one example per window and drops it once the correction is undone", async () => {
+      const examples = new CorrectionExamples(filePath)
+      await examples.learn([
+        corrected("firefox", "Docs", { goal_relevance: "goal_related" }),
+        corrected("firefox", "Docs", { goal_relevance: "personal" })
+      ])
+      expect(examples.size()).toBe(1)
+      expect(examples.findRelevant(window("firefox", "Docs"), 5)[0].corrected).toEqual({ goal_relevance: "personal" })
+
+      await examples.learn([corrected("firefox", "Docs", {})])
+      expect(examples.size()).toBe(0)
+    })
+
+    it("adds only the most common windows of a large relabel", async () => {
+      const examples = new CorrectionExamples(filePath)
+      await examples.learn([corrected("Slack", "general", { cognitive_state: "communication" })])
+
+      const relabel = Array.from({ length: 30 }, (_, i) =>
+        Array.from({ length: i === 0 ? 5 : 1 }, () => corrected("firefox", `Page ${i}`, { goal_relevance: "break" }))
+      ).flat()
+      await examples.learn(relabel)
+
+      expect(examples.size()).toBe(21)
+      expect(examples.findRelevant(window("Slack", "general"), 1)[0].window_class).toBe("Slack")
+      expect(examples.findRelevant(window("firefox", "Mozilla Firefox"), 1)[0].window_title).toBe("Page 0")
+    })
+
+    it("moves an unreadable file aside instead of overwriting it", async () => {
+      fs.writeFileSync(filePath, "{ not json")
+      const examples = new CorrectionExamples(filePath)
+      await examples.learn([corrected("firefox", "Docs", { goal_relevance: "goal_related" })])
+
+      const backups = fs.readdirSync(dir).filter(name => name.startsWith("examples.json.unreadable-"))
+      expect(backups).toHaveLength(1)
+      expect(fs.readFileSync(path.join(dir, backups[0]), "utf8")).toBe("{ not json")
+      expect(JSON.parse(fs.readFileSync(filePath, "utf8"))).toHaveLength(1)
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { ActiveWindowInfo } from "../ActiveWindowHelper"
+import { ExclusionEntry, ExclusionList } from "../ExclusionList"
+
+const window = (window_class: string, window_title: string): ActiveWindowInfo => ({
+  window_class,
+  window_title,
+  window_pid: 42
+})
+
+const ENTRIES: ExclusionEntry[] = [
+  { label: "Password manager", window_class: "^keepassxc$" },
+  { label: "Private browsing", window_class: "firefox", window_title: "private browsing" },
+  { label: "Bank", domain: "MyBank.com" }
+]
+
+describe("ExclusionList", () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "exclusion-list-test-"))
+    filePath = path.join(dir, "exclusions.json")
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  const load = (entries: unknown): ExclusionList => {
+    fs.writeFileSync(filePath, JSON.stringify(entries))
+    return new ExclusionList(filePath)
+  }
+
+  describe("matchesWindow", () => {
+    it("requires every pattern of an entry, case-insensitively", () => {
+      const list = load(ENTRIES)
+
+      expect(list.matchesWindow(window("KeePassXC", "Passwords.kdbx"))).toBe(true)
+      expect(list.matchesWindow(window("firefox", "Mozilla Firefox Private Browsing"))).toBe(true)
+      expect(list.matchesWindow(window("firefox", "Mozilla Firefox"))).toBe(false)
+      expect(list.matchesWindow(window("chromium", "Private Browsing notes"))).toBe(false)
+    })
+
+    it("looks for domains in the window title", () => {
+      const list = load(ENTRIES)
+
+      expect(list.matchesWindow(window("firefox", "Accounts - mybank.com - Mozilla Firefox"))).toBe(true)
+      expect(list.matchesWindow(window("firefox", "Accounts - Mozilla Firefox"))).toBe(false)
+    })
+
+    it("does not match when the focused window is unknown", () => {
+      expect(load(ENTRIES).matchesWindow(null)).toBe(false)
+    })
+  })
+
+  describe("matchesClassification", () => {
+    it("matches domain-only entries against the model's answer", () => {
+      const list = load(ENTRIES)
+
+      expect(list.matchesClassification("Firefox - mybank.com accounts")).toBe(true)
+      expect(list.matchesClassification("KeePassXC - Passwords")).toBe(false)
+    })
+
+    it("ignores domains of entries that also need a window match", () => {
+      const list = load([{ window_class: "firefox", domain: "mybank.com" }])
+
+      expect(list.matchesClassification("Chromium - mybank.com")).toBe(false)
+    })
+  })
+
+  it("excludes nothing without a file and skips invalid entries", () => {
+    expect(new ExclusionList(filePath).matchesWindow(window("KeePassXC", ""))).toBe(false)
+
+    const list = load([{ label: "Empty" }, { window_class: "(" }, ...ENTRIES])
+    expect(list.getLoadError()).toBeNull()
+    expect(list.matchesWindow(window("KeePassXC", ""))).toBe(true)
+  })
+
+  it("treats everything as private while the file cannot be read", async () => {
+    fs.writeFileSync(filePath, "{ not json")
+    const list = new ExclusionList(filePath)
+
+    expect(list.getLoadError()).toContain(filePath)
+    expect(list.matchesWindow(null)).toBe(true)
+    expect(list.matchesClassification("VS Code - main.ts")).toBe(true)
+
+    await list.setEntries(ENTRIES)
+    expect(list.getLoadError()).toBeNull()
+    expect(list.matchesClassification("VS Code - main.ts")).toBe(false)
+  })
+
+  it("rejects invalid entries on save and keeps the saved list", async () => {
+    const list = load(ENTRIES)
+
+    await expect(list.setEntries([{ label: "Empty" }])).rejects.toThrow(/needs a window class/)
+    await expect(list.setEntries([{ window_title: "(" }])).rejects.toThrow(/^Exclusion 1:/)
+    expect(JSON.parse(fs.readFileSync(filePath, "utf8"))).toEqual(ENTRIES)
+    expect(list.getEntries()).toEqual(ENTRIES)
+  })
+})
@@ -0,0 +1,122 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { ActiveWindowInfo } from "../ActiveWindowHelper"
+import { Goal, GoalList } from "../GoalList"
+
+const window = (window_class: string, window_title: string): ActiveWindowInfo => ({
+  window_class,
+  window_title,
+  window_pid: 42
+})
+
+const goal = (name: string, fields: Partial<Goal> = {}): Goal => ({ id: "", name, active: true, ...fields })
+
+describe("GoalList", () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "goal-list-test-"))
+    filePath = path.join(dir, "goals.json")
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  describe("validation on save", () => {
+    it("assigns ids to new goals, trims text and drops empty lists", async () => {
+      const goals = new GoalList(filePath)
+      await goals.setGoals([
+        goal(" Tracker ", { id: "goal-1", description: "  ", keywords: [" electron ", ""], apps: [] }),
+        goal("Thesis", { active: undefined as any, daily_target_minutes: 90 })
+      ])
+
+      const [tracker, thesis] = new GoalList(filePath).getGoals()
+      expect(tracker).toEqual({
+        id: "goal-1",
+        name: "Tracker",
+        description: undefined,
+        keywords: ["electron"],
+        apps: undefined,
+        repos: undefined,
+        daily_target_minutes: null,
+        active: true
+      })
+      expect(thesis.id).toMatch(/^[0-9a-f-]{36}$/)
+      expect(thesis).toMatchObject({ daily_target_minutes: 90, active: true })
+    })
+
+    it("rejects invalid goals and keeps the saved list", async () => {
+      const goals = new GoalList(filePath)
+      await goals.setGoals([goal("Tracker")])
+
+      await expect(goals.setGoals({} as any)).rejects.toThrow("Goals must be an array")
+      await expect(goals.setGoals([goal(" ")])).rejects.toThrow("Goal 1 needs a name")
+      await expect(goals.setGoals([goal("Tracker"), goal("tracker")]))
+        .rejects.toThrow(/Goal 2: the name "tracker" is already used/)
+      await expect(goals.setGoals([goal("None")])).rejects.toThrow(/already used/)
+      await expect(goals.setGoals([goal("Tracker", { daily_target_minutes: 0 })])).rejects.toThrow(/positive number/)
+      await expect(goals.setGoals([goal("Tracker", { keywords: "electron" as any })]))
+        .rejects.toThrow("Goal 1 keywords must be a list of text")
+      await expect(goals.setGoals([goal("Tracker", { description: 3 as any })])).rejects.toThrow(/description must be text/)
+
+      expect(new GoalList(filePath).getGoals().map(g => g.name)).toEqual(["Tracker"])
+    })
+
+    it("moves an invalid file aside before saving over it", async () => {
+      const invalid = JSON.stringify([goal("Tracker", { id: "goal-1" }), goal("")])
+      fs.writeFileSync(filePath, invalid)
+      const goals = new GoalList(filePath)
+      expect(goals.getGoals()).toEqual([])
+
+      await goals.setGoals([goal("Thesis")])
+
+      const backups = fs.readdirSync(dir).filter(name => name.startsWith("goals.json.unreadable-"))
+      expect(backups).toHaveLength(1)
+      expect(fs.readFileSync(path.join(dir, backups[0]), "utf8")).toBe(invalid)
+      expect(new GoalList(filePath).getGoals().map(g => g.name)).toEqual(["Thesis"])
+    })
+  })
+
+  it("lists active goals and goals with time per project", async () => {
+    const goals = new GoalList(filePath)
+    await goals.setGoals([
+      goal("Tracker", { id: "goal-1", daily_target_minutes: 120 }),
+      goal("Old project", { id: "goal-2", active: false }),
+      goal("Archive", { id: "goal-3", active: false })
+    ])
+
+    expect(goals.getActiveGoals().map(g => g.name)).toEqual(["Tracker"])
+    expect(goals.getProjectTime({ "goal-2": 14.6, "goal-9": 30 })).toEqual([
+      { goal_id: "goal-1", name: "Tracker", minutes: 0, daily_target_minutes: 120, active: true },
+      { goal_id: "goal-2", name: "Old project", minutes: 15, daily_target_minutes: null, active: false }
+    ])
+  })
+
+  it("finds goals by the name the model gave", () => {
+    const goals = [goal("Tracker", { id: "goal-1" })]
+
+    expect(GoalList.findByName(goals, " tracker ")).toBe("goal-1")
+    expect(GoalList.findByName(goals, "none")).toBeNull()
+    expect(GoalList.findByName(goals, 1)).toBeNull()
+  })
+
+  it("matches windows against each goal's apps, repos and keywords", () => {
+    const goals = [
+      goal("Design", { id: "goal-1", apps: ["Figma"] }),
+      goal("Tracker", { id: "goal-2", repos: ["activity-tracker"], keywords: ["Electron"] })
+    ]
+
+    expect(GoalList.matchWindow(goals, window("figma-linux", "Logo"))).toBe("goal-1")
+    expect(GoalList.matchWindow(goals, window("Code", "main.ts - activity-tracker"))).toBe("goal-2")
+    expect(GoalList.matchWindow(goals, window("firefox", "Electron docs"))).toBe("goal-2")
+    expect(GoalList.matchWindow(goals, window("firefox", "News"))).toBeNull()
+    expect(GoalList.matchWindow(goals, null)).toBeNull()
+  })
+})
@@ -0,0 +1,71 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { DEFAULT_SETTINGS, SETTINGS_VERSION, SettingsHelper } from "../SettingsHelper"
+
+describe("SettingsHelper", () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "settings-helper-test-"))
+    filePath = path.join(dir, "settings.json")
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  const backups = () => fs.readdirSync(dir).filter(name => name.startsWith("settings.json.backup-"))
+
+  it("saves a valid file in place without a backup", async () => {
+    const models = { ...DEFAULT_SETTINGS.models, geminiApiKey: "key" }
+    fs.writeFileSync(filePath, JSON.stringify({ ...DEFAULT_SETTINGS, models }))
+    SettingsHelper.initialize(filePath)
+
+    await SettingsHelper.update({ analysis: { minGapMinutes: 10 } })
+
+    expect(JSON.parse(fs.readFileSync(filePath, "utf8"))).toMatchObject({
+      models: { geminiApiKey: "key" },
+      analysis: { minGapMinutes: 10 }
+    })
+    expect(backups()).toEqual([])
+  })
+
+  it("keeps a file it could not read until the first save, then backs it up", async () => {
+    const broken = `{ "version": ${SETTINGS_VERSION}, "models": { "geminiApiKey": "key", } }`
+    fs.writeFileSync(filePath, broken)
+    SettingsHelper.initialize(filePath)
+
+    expect(SettingsHelper.get()).toEqual(DEFAULT_SETTINGS)
+    expect(fs.readFileSync(filePath, "utf8")).toBe(broken)
+
+    await SettingsHelper.update({ analysis: { minGapMinutes: 10 } })
+    await SettingsHelper.update({ analysis: { minGapMinutes: 20 } })
+
+    expect(backups()).toHaveLength(1)
+    expect(fs.readFileSync(path.join(dir, backups()[0]), "utf8")).toBe(broken)
+    expect(SettingsHelper.get().analysis.minGapMinutes).toBe(20)
+  })
+
+  it("backs up invalid settings and files from a newer version before saving", async () => {
+    const analysis = { ...DEFAULT_SETTINGS.analysis, maxPromptRetries: 0 }
+    const invalid = JSON.stringify({ ...DEFAULT_SETTINGS, analysis })
+    fs.writeFileSync(filePath, invalid)
+    SettingsHelper.initialize(filePath)
+    await SettingsHelper.update({ analysis: { minGapMinutes: 10 } })
+    expect(backups().map(name => fs.readFileSync(path.join(dir, name), "utf8"))).toEqual([invalid])
+
+    fs.rmSync(path.join(dir, backups()[0]))
+    const newer = JSON.stringify({ ...DEFAULT_SETTINGS, version: SETTINGS_VERSION + 1 })
+    fs.writeFileSync(filePath, newer)
+    SettingsHelper.initialize(filePath)
+    await SettingsHelper.update({ analysis: { minGapMinutes: 10 } })
+    expect(backups().map(name => fs.readFileSync(path.join(dir, name), "utf8"))).toEqual([newer])
+  })
+})
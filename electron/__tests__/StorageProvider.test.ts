@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest"
+import {
+  ActivityRecord,
+  DEFAULT_RECORD_DURATION_SECONDS,
+  applyOverrides,
+  withCaptureDurations
+} from "../StorageProvider"
+
+const record = (captured_at: string, duration_seconds?: number | null): ActivityRecord => ({
+  app_classification: "VS Code - main.ts",
+  goal_relevance: "goal_related",
+  cognitive_state: "deep_focus",
+  context_switching: "continuing_task",
+  attention_residue: "clean_focus",
+  procrastination_signal: "none",
+  energy_level: "high_focus_work",
+  captured_at,
+  duration_seconds
+})
+
+const END_OF_DAY = Date.parse("2026-03-02T23:59:59.999Z")
+
+describe("withCaptureDurations", () => {
+  it("uses the gap to the next capture, capped at the maximum", () => {
+    const records = withCaptureDurations(
+      [record("2026-03-02T09:00:00.000Z"), record("2026-03-02T09:01:30.000Z"), record("2026-03-02T11:00:00.000Z")],
+      300,
+      END_OF_DAY
+    )
+
+    expect(records.map(r => r.duration_seconds).slice(0, 2)).toEqual([90, 300])
+  })
+
+  it("keeps the stored estimate of the last record, capped at the maximum", () => {
+    const records = withCaptureDurations(
+      [record("2026-03-02T09:00:00.000Z", 120), record("2026-03-02T10:00:00.000Z", 900)],
+      300,
+      END_OF_DAY
+    )
+
+    expect(records[1].duration_seconds).toBe(300)
+    expect(withCaptureDurations([record("2026-03-02T09:00:00.000Z", 120)], 300, END_OF_DAY)[0].duration_seconds).toBe(120)
+  })
+
+  it("falls back to the default duration when the last record has none", () => {
+    const [last] = withCaptureDurations([record("2026-03-02T09:00:00.000Z", null)], 300, END_OF_DAY)
+
+    expect(last.duration_seconds).toBe(DEFAULT_RECORD_DURATION_SECONDS)
+  })
+
+  it("cuts the last record off at the end of the range", () => {
+    const [last] = withCaptureDurations(
+      [record("2026-03-02T23:59:00.000Z", 300)],
+      300,
+      Date.parse("2026-03-02T23:59:40.000Z")
+    )
+
+    expect(last.duration_seconds).toBe(40)
+  })
+
+  it("never credits the last record with time in the future", () => {
+    const [last] = withCaptureDurations([record(new Date(Date.now() - 10_000).toISOString(), 300)], 300)
+
+    expect(last.duration_seconds).toBeGreaterThanOrEqual(10)
+    expect(last.duration_seconds).toBeLessThan(60)
+  })
+
+  it("falls back to created_at for rows without a capture time", () => {
+    const older = { ...record("2026-03-02T09:00:00.000Z"), captured_at: undefined, created_at: "2026-03-02T09:00:00.000Z" }
+    const records = withCaptureDurations([older, record("2026-03-02T09:02:00.000Z")], 300, END_OF_DAY)
+
+    expect(records[0].duration_seconds).toBe(120)
+  })
+})
+
+describe("applyOverrides", () => {
+  const unclassified: ActivityRecord = {
+    app_classification: "",
+    goal_relevance: null,
+    cognitive_state: null,
+    context_switching: null,
+    attention_residue: null,
+    procrastination_signal: null,
+    energy_level: null,
+    classification_status: "unclassified",
+    classification_error: "Mock model unavailable"
+  }
+
+  it("returns records without overrides as they are", () => {
+    const original = record("2026-03-02T09:00:00.000Z")
+
+    expect(applyOverrides(original)).toBe(original)
+    expect(applyOverrides({ ...original, overrides: {} })).toEqual({ ...original, overrides: {} })
+  })
+
+  it("replaces the model output field by field and keeps the overrides", () => {
+    const original = { ...record("2026-03-02T09:00:00.000Z"), overrides: { goal_relevance: "distraction" as const } }
+    const corrected = applyOverrides(original)
+
+    expect(corrected).toMatchObject({ goal_relevance: "distraction", cognitive_state: "deep_focus" })
+    expect(corrected.overrides).toEqual({ goal_relevance: "distraction" })
+    expect(original.goal_relevance).toBe("goal_related")
+  })
+
+  it("counts an unclassified record as classified once every field is corrected", () => {
+    const { captured_at, duration_seconds, ...fields } = record("2026-03-02T09:00:00.000Z")
+
+    expect(applyOverrides({ ...unclassified, overrides: { goal_relevance: "break" } }).classification_status)
+      .toBe("unclassified")
+    expect(applyOverrides({ ...unclassified, overrides: fields as ActivityRecord["overrides"] }).classification_status)
+      .toBe("classified")
+  })
+})
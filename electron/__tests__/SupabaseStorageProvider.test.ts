@@ -0,0 +1,179 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { SqliteStorageProvider } from "../SqliteStorageProvider"
+import { ActivityRecord, StorageProvider } from "../StorageProvider"
+import { SupabaseStorageProvider } from "../SupabaseStorageProvider"
+
+type Row = Record<string, any>
+
+type Filter =
+  | { op: "and" | "or"; children: Filter[] }
+  | { column: string; negate: boolean; operator: string; value: string }
+
+// Splits a PostgREST filter list on the commas outside parentheses
+const splitFilters = (list: string): string[] => {
+  const parts: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < list.length; i++) {
+    if (list[i] === "(") depth++
+    if (list[i] === ")") depth--
+    if (list[i] === "," && depth === 0) {
+      parts.push(list.slice(start, i))
+      start = i + 1
+    }
+  }
+  return [...parts, list.slice(start)]
+}
+
+const parseFilter = (text: string): Filter => {
+  const group = /^(and|or)\((.*)\)$/.exec(text)
+  if (group) {
+    return { op: group[1] as "and" | "or", children: splitFilters(group[2]).map(parseFilter) }
+  }
+  const [column, ...rest] = text.split(".")
+  const negate = rest[0] === "not"
+  const [operator, ...value] = negate ? rest.slice(1) : rest
+  return { column, negate, operator, value: value.join(".") }
+}
+
+// The subset of PostgREST operators the provider uses, with SQL null semantics
+const matches = (filter: Filter, row: Row): boolean => {
+  if ("op" in filter) {
+    return filter.op === "and"
+      ? filter.children.every(child => matches(child, row))
+      : filter.children.some(child => matches(child, row))
+  }
+  const actual = row[filter.column] ?? null
+  let result: boolean
+  switch (filter.operator) {
+    case "is":
+      result = filter.value === "null" ? actual === null : String(actual) === filter.value
+      break
+    case "eq":
+      result = actual !== null && String(actual) === filter.value
+      break
+    case "lt":
+      result = actual !== null && Number(actual) < Number(filter.value)
+      break
+    default:
+      throw new Error(`Unsupported operator in test client: ${filter.operator}`)
+  }
+  return filter.negate ? !result : result
+}
+
+/**
+ * In-memory stand-in for the Supabase client, evaluating the filters the
+ * provider builds so its queries can be compared with the SQLite ones
+ */
+const createFakeSupabase = () => {
+  const tables = new Map<string, Row[]>()
+
+  const from = (table: string) => {
+    const rows = tables.get(table) || []
+    tables.set(table, rows)
+    const filters: Filter[] = []
+    let order: { column: string; nullsFirst: boolean } | null = null
+    let limit = Infinity
+
+    const builder: any = {
+      upsert: (records: Row[]) => {
+        rows.push(...records.filter(record => !rows.some(row => row.record_id === record.record_id)))
+        return builder
+      },
+      insert: (records: Row[]) => {
+        rows.push(...records)
+        return builder
+      },
+      select: () => builder,
+      eq: (column: string, value: string) => {
+        filters.push({ column, negate: false, operator: "eq", value })
+        return builder
+      },
+      or: (list: string) => {
+        filters.push({ op: "or", children: splitFilters(list).map(parseFilter) })
+        return builder
+      },
+      order: (column: string, options: { nullsFirst?: boolean } = {}) => {
+        order = { column, nullsFirst: !!options.nullsFirst }
+        return builder
+      },
+      limit: (count: number) => {
+        limit = count
+        return builder
+      },
+      then: (resolve: (result: { data: Row[]; error: null }) => void) => {
+        let data = rows.filter(row => filters.every(filter => matches(filter, row)))
+        if (order) {
+          const { column, nullsFirst } = order
+          const rank = (row: Row) => (row[column] == null ? (nullsFirst ? 0 : 2) : 1)
+          data = [...data].sort((a, b) =>
+            rank(a) - rank(b) || String(a[column] ?? "").localeCompare(String(b[column] ?? ""))
+          )
+        }
+        resolve({ data: data.slice(0, limit), error: null })
+      }
+    }
+    return builder
+  }
+
+  return { from }
+}
+
+vi.mock("@supabase/supabase-js", () => ({ createClient: () => createFakeSupabase() }))
+
+const unclassified = (record_id: string, fields: Partial<ActivityRecord>): ActivityRecord => ({
+  record_id,
+  captured_at: `2026-03-02T09:0${record_id.slice(-1)}:00.000Z`,
+  app_classification: "Unclassified",
+  classification_status: "unclassified",
+  classification_error: "Mock model unavailable",
+  goal_relevance: null,
+  cognitive_state: null,
+  context_switching: null,
+  attention_residue: null,
+  procrastination_signal: null,
+  energy_level: null,
+  ...fields
+})
+
+const RECORDS: ActivityRecord[] = [
+  unclassified("record-1", { screenshot_path: "/tmp/record-1.png", classification_attempts: 5 }),
+  unclassified("record-2", { window_class: "Code" }), // Stored before attempts were counted
+  unclassified("record-3", { window_title: "main.ts", classification_attempts: 1 }),
+  unclassified("record-4", { window_class: "Code", classification_attempts: 3 }),
+  unclassified("record-5", { classification_attempts: 1 }),
+  { ...unclassified("record-6", { window_class: "Code" }), classification_status: "classified" }
+]
+
+describe("SupabaseStorageProvider", () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "supabase-provider-test-"))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  it("retries the same unclassified records as SqliteStorageProvider", async () => {
+    const providers: StorageProvider[] = [
+      new SupabaseStorageProvider("https://project.supabase.co", "anon-key"),
+      new SqliteStorageProvider(path.join(dir, "activity.db"))
+    ]
+
+    const retried = await Promise.all(providers.map(async provider => {
+      for (const record of RECORDS) {
+        await provider.storeActivityRecord(record)
+      }
+      return (await provider.getUnclassifiedActivities(10, 3)).map(record => record.record_id)
+    }))
+    providers.forEach(provider => provider.close?.())
+
+    expect(retried[0]).toEqual(["record-1", "record-2", "record-3"])
+    expect(retried[1]).toEqual(retried[0])
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest"
+import { TrackingEvent } from "../StorageProvider"
+import { getGapReason } from "../TimeGaps"
+
+const at = (time: string) => new Date(`2026-03-02T${time}:00.000Z`)
+
+const event = (
+  event_type: TrackingEvent["event_type"],
+  reason: string | null,
+  started: string,
+  ended: string | null
+): TrackingEvent => ({
+  event_id: `${event_type}-${started}`,
+  event_type,
+  reason,
+  started_at: at(started).toISOString(),
+  ended_at: ended && at(ended).toISOString()
+})
+
+describe("getGapReason", () => {
+  it("guesses from the gap length when no event overlaps", () => {
+    const earlier = event("away", "idle", "07:00", "08:00")
+
+    expect(getGapReason(at("09:00"), at("09:30"), [earlier])).toBe("away_from_computer")
+    expect(getGapReason(at("09:00"), at("11:00"), [])).toBe("app_closed")
+  })
+
+  it("maps the away reason recorded by the idle monitor", () => {
+    expect(getGapReason(at("09:00"), at("09:30"), [event("away", "idle", "09:00", "09:30")])).toBe("system_idle")
+    expect(getGapReason(at("09:00"), at("11:00"), [event("away", "lock_screen", "08:50", "11:10")])).toBe("screen_locked")
+    expect(getGapReason(at("09:00"), at("09:30"), [event("away", "suspend", "09:05", "09:25")])).toBe("system_asleep")
+    expect(getGapReason(at("09:00"), at("09:30"), [event("away", null, "09:05", "09:25")])).toBe("away_from_computer")
+  })
+
+  it("labels a paused period as paused by the user", () => {
+    expect(getGapReason(at("09:00"), at("10:00"), [event("paused", "manual", "09:00", "10:00")])).toBe("user_paused")
+  })
+
+  it("picks the event that overlaps the gap the most", () => {
+    const events = [event("away", "idle", "08:50", "09:10"), event("paused", "manual", "09:10", "10:00")]
+
+    expect(getGapReason(at("09:00"), at("10:00"), events)).toBe("user_paused")
+  })
+
+  it("treats an open event as running until the end of the gap", () => {
+    expect(getGapReason(at("09:00"), at("12:00"), [event("away", "lock_screen", "09:00", null)])).toBe("screen_locked")
+  })
+})
@@ -0,0 +1,108 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { DEFAULT_TRACKING_SCHEDULE, TrackingSchedule, TrackingScheduleConfig } from "../TrackingSchedule"
+
+// Local times in the week of Monday 2 March 2026
+const at = (day: number, hours: number, minutes = 0) => new Date(2026, 2, day, hours, minutes)
+
+describe("TrackingSchedule", () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "tracking-schedule-test-"))
+    filePath = path.join(dir, "schedule.json")
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  const withConfig = async (config: Partial<TrackingScheduleConfig>): Promise<TrackingSchedule> => {
+    const schedule = new TrackingSchedule(filePath)
+    await schedule.setConfig({ ...DEFAULT_TRACKING_SCHEDULE, enabled: true, ...config })
+    return schedule
+  }
+
+  describe("isActive", () => {
+    it("allows capture at any time while the schedule is off", () => {
+      const schedule = new TrackingSchedule(filePath)
+
+      expect(schedule.isActive(at(1, 3))).toBe(true)
+      expect(schedule.isActive(at(2, 23))).toBe(true)
+    })
+
+    it("follows the hours of each weekday, end exclusive", async () => {
+      const schedule = await withConfig({})
+
+      expect(schedule.isActive(at(2, 8, 59))).toBe(false)
+      expect(schedule.isActive(at(2, 9))).toBe(true)
+      expect(schedule.isActive(at(2, 17, 59))).toBe(true)
+      expect(schedule.isActive(at(2, 18))).toBe(false)
+      expect(schedule.isActive(at(1, 12))).toBe(false) // Sunday
+    })
+
+    it("runs overnight hours into the next day", async () => {
+      const schedule = await withConfig({
+        days: { ...DEFAULT_TRACKING_SCHEDULE.days, monday: [{ start: "22:00", end: "02:00" }], tuesday: [] }
+      })
+
+      expect(schedule.isActive(at(2, 23))).toBe(true)
+      expect(schedule.isActive(at(3, 1, 59))).toBe(true)
+      expect(schedule.isActive(at(3, 2))).toBe(false)
+      expect(schedule.isActive(at(2, 1))).toBe(false) // Sunday had no overnight hours
+    })
+
+    it("ends hours at midnight with 24:00", async () => {
+      const schedule = await withConfig({
+        days: { ...DEFAULT_TRACKING_SCHEDULE.days, monday: [{ start: "20:00", end: "24:00" }], tuesday: [] }
+      })
+
+      expect(schedule.isActive(at(2, 23, 59))).toBe(true)
+      expect(schedule.isActive(at(3, 0))).toBe(false)
+    })
+
+    it("skips holidays", async () => {
+      const schedule = await withConfig({ holidays: ["2026-03-03"] })
+
+      expect(schedule.isActive(at(2, 10))).toBe(true)
+      expect(schedule.isActive(at(3, 10))).toBe(false)
+    })
+  })
+
+  describe("validate", () => {
+    it("fills in missing days and sorts holidays", () => {
+      const config = TrackingSchedule.validate({
+        enabled: 1,
+        days: { saturday: [{ start: "10:00", end: "12:00" }] },
+        holidays: ["2026-12-25", "2026-01-01"]
+      })
+
+      expect(config.enabled).toBe(true)
+      expect(config.days.saturday).toEqual([{ start: "10:00", end: "12:00" }])
+      expect(config.days.monday).toEqual(DEFAULT_TRACKING_SCHEDULE.days.monday)
+      expect(config.holidays).toEqual(["2026-01-01", "2026-12-25"])
+    })
+
+    it("rejects invalid hours and dates", () => {
+      expect(() => TrackingSchedule.validate(null)).toThrow("Schedule must be an object")
+      expect(() => TrackingSchedule.validate({ days: { monday: "9-5" } })).toThrow("Hours for monday must be a list")
+      expect(() => TrackingSchedule.validate({ days: { monday: [{ start: "9:00", end: "17:00" }] } })).toThrow(/use HH:MM/)
+      expect(() => TrackingSchedule.validate({ days: { monday: [{ start: "24:00", end: "24:00" }] } })).toThrow(/Empty hours/)
+      expect(() => TrackingSchedule.validate({ holidays: ["25/12/2026"] })).toThrow(/YYYY-MM-DD/)
+    })
+  })
+
+  it("saves the schedule and reads it back, keeping the default for a broken file", async () => {
+    await withConfig({ holidays: ["2026-03-03"] })
+    expect(new TrackingSchedule(filePath).getConfig()).toMatchObject({ enabled: true, holidays: ["2026-03-03"] })
+
+    fs.writeFileSync(filePath, "{ not json")
+    expect(new TrackingSchedule(filePath).getConfig()).toEqual(DEFAULT_TRACKING_SCHEDULE)
+  })
+})
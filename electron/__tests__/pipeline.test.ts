@@ -0,0 +1,185 @@
+import fs from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import type { AppState } from "../main"
+import { FixtureCaptureSource } from "../FixtureCaptureSource"
+import { ProcessingHelper } from "../ProcessingHelper"
+import { SettingsHelper } from "../SettingsHelper"
+import { StorageHelper } from "../StorageHelper"
+
+// Created before the electron mock, which hands it out as userData
+const { userDataDir } = vi.hoisted(() => {
+  const nodeFs: typeof import("node:fs") = require("node:fs")
+  const nodeOs: typeof import("node:os") = require("node:os")
+  const nodePath: typeof import("node:path") = require("node:path")
+  return { userDataDir: nodeFs.mkdtempSync(nodePath.join(nodeOs.tmpdir(), "pipeline-test-")) }
+})
+
+// Only the userData path and frame sampling touch Electron
+vi.mock("electron", () => ({
+  app: { getPath: () => userDataDir },
+  nativeImage: {
+    createFromPath: (framePath: string) => ({ resize: () => ({ framePath }) })
+  }
+}))
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures")
+const CAPTURE_FIXTURES = path.join(FIXTURES_DIR, "capture")
+const MODEL_FIXTURES = path.join(FIXTURES_DIR, "model")
+
+const DAY_START = new Date("2026-03-02T00:00:00.000Z")
+const DAY_END = new Date("2026-03-02T23:59:59.999Z")
+
+// The health reporting ProcessingHelper calls back into
+const createAppState = () => ({
+  reportCaptureSuccess: vi.fn(),
+  reportCaptureQueued: vi.fn(),
+  reportCaptureFailure: vi.fn()
+})
+
+describe("capture, classification and storage through the mocks", () => {
+  let captureDir: string
+  let appState: ReturnType<typeof createAppState>
+  let processingHelper: ProcessingHelper
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.spyOn(console, "error").mockImplementation(() => {})
+
+    SettingsHelper.initialize(path.join(userDataDir, "settings.json"))
+    await SettingsHelper.update({
+      models: { provider: "mock", model: "mock", mockFixturesDir: MODEL_FIXTURES },
+      // A scripted error is not retried into the next fixture
+      analysis: { maxPromptRetries: 1, retryDelayMs: 0 }
+    })
+  })
+
+  afterAll(() => {
+    fs.rmSync(userDataDir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  beforeEach(() => {
+    captureDir = fs.mkdtempSync(path.join(os.tmpdir(), "pipeline-capture-"))
+    // A fresh database per test; fails rather than skips when better-sqlite3 cannot load
+    StorageHelper.initialize({ backend: "sqlite", sqlitePath: path.join(captureDir, "activity.db") })
+    appState = createAppState()
+    processingHelper = new ProcessingHelper(appState as unknown as AppState)
+  })
+
+  afterEach(() => {
+    processingHelper.stopOutboxRetries()
+    processingHelper.stopClassificationRetries()
+    processingHelper.stopRetentionJob()
+    fs.rmSync(captureDir, { recursive: true, force: true })
+  })
+
+  const captureFixture = async (source: FixtureCaptureSource, name: string) => {
+    const screenshotPath = path.join(captureDir, `${name}.png`)
+    await source.capture(screenshotPath)
+    return [{ path: screenshotPath, display: "1" }]
+  }
+
+  it("stores a classified record, then keeps a failed capture for retry", async () => {
+    const source = new FixtureCaptureSource(CAPTURE_FIXTURES)
+    const window = { window_class: "Code", window_title: "ProcessingHelper.ts - tracker", window_pid: 42 }
+
+    const first = await captureFixture(source, "first")
+    await processingHelper.processAutomaticScreenshot(first, {
+      capturedAt: "2026-03-02T09:00:00.000Z",
+      durationSeconds: 60,
+      activeWindow: window,
+      idleSeconds: 0
+    })
+    const second = await captureFixture(source, "second")
+    await processingHelper.processAutomaticScreenshot(second, {
+      capturedAt: "2026-03-02T09:01:00.000Z",
+      durationSeconds: 60,
+      activeWindow: window,
+      idleSeconds: 0
+    })
+
+    const records = await StorageHelper.getActivitiesInRange(DAY_START, DAY_END)
+    expect(records).toHaveLength(2)
+    expect(records[0]).toMatchObject({
+      app_classification: "VS Code - ProcessingHelper.ts",
+      cognitive_state: "deep_focus", // "Deep Focus" normalized
+      classification_status: "classified",
+      window_class: "Code",
+      screenshot_path: null
+    })
+    expect(records[1]).toMatchObject({
+      app_classification: "Code - ProcessingHelper.ts - tracker",
+      classification_status: "unclassified",
+      classification_error: expect.stringContaining("Mock model unavailable"),
+      cognitive_state: null
+    })
+
+    // The classified capture is deleted; the failed one waits for the retry job
+    expect(fs.existsSync(first[0].path)).toBe(false)
+    expect(fs.existsSync(second[0].path)).toBe(false)
+    expect(fs.existsSync(records[1].screenshot_path!)).toBe(true)
+
+    expect(appState.reportCaptureSuccess).toHaveBeenCalledWith("VS Code - ProcessingHelper.ts", expect.any(Number))
+    expect(appState.reportCaptureFailure)
+      .toHaveBeenCalledWith("classification", expect.stringContaining("Mock model unavailable"))
+    expect(processingHelper.getOutboxSize()).toBe(0)
+  })
+
+  it("does not report a stored capture as a storage failure when its screenshot cannot be deleted", async () => {
+    const source = new FixtureCaptureSource(CAPTURE_FIXTURES)
+    const screenshots = await captureFixture(source, "first")
+    const unlink = vi.spyOn(fs.promises, "unlink").mockRejectedValueOnce(new Error("EBUSY"))
+
+    await processingHelper.processAutomaticScreenshot(screenshots, {
+      capturedAt: "2026-03-02T09:00:00.000Z",
+      durationSeconds: 60,
+      idleSeconds: 0
+    })
+    unlink.mockRestore()
+
+    const records = await StorageHelper.getActivitiesInRange(DAY_START, DAY_END)
+    expect(records).toHaveLength(1)
+    expect(records[0].classification_status).toBe("classified")
+    expect(appState.reportCaptureSuccess).toHaveBeenCalledTimes(1)
+    expect(appState.reportCaptureFailure).not.toHaveBeenCalled()
+  })
+
+  it("stores a record classified from window metadata alone", async () => {
+    await processingHelper.processWindowActivity({
+      capturedAt: "2026-03-02T10:00:00.000Z",
+      durationSeconds: 60,
+      activeWindow: { window_class: "Code", window_title: "main.ts - tracker", window_pid: 42 },
+      idleSeconds: 0
+    })
+
+    const records = await StorageHelper.getActivitiesInRange(DAY_START, DAY_END)
+    expect(records).toHaveLength(1)
+    expect(records[0]).toMatchObject({
+      app_classification: "VS Code - ProcessingHelper.ts",
+      classification_status: "classified",
+      window_title: "main.ts - tracker"
+    })
+    expect(appState.reportCaptureSuccess).toHaveBeenCalledTimes(1)
+  })
+
+  it("replays fixtures in order and saves the frame sampled for change detection", async () => {
+    const source = new FixtureCaptureSource(CAPTURE_FIXTURES)
+    const first = path.join(captureDir, "first.png")
+    const second = path.join(captureDir, "second.png")
+
+    await source.capture(first)
+    const [frame] = await source.captureFrames(160) as unknown as Array<{ framePath: string }>
+    await source.capture(second)
+
+    expect(fs.readFileSync(first)).toEqual(fs.readFileSync(path.join(CAPTURE_FIXTURES, "frame-001.png")))
+    expect(frame.framePath).toBe(path.join(CAPTURE_FIXTURES, "frame-002.png"))
+    expect(fs.readFileSync(second)).toEqual(fs.readFileSync(frame.framePath))
+  })
+
+  it("rejects a fixtures directory without PNGs", () => {
+    expect(() => new FixtureCaptureSource(MODEL_FIXTURES)).toThrow(/No PNG fixtures/)
+  })
+})
@@ -4,31 +4,102 @@ import { WindowHelper } from "./WindowHelper"
 import { ScreenshotHelper } from "./ScreenshotHelper"
 import { ShortcutsHelper } from "./shortcuts"
 import { ProcessingHelper } from "./ProcessingHelper"
-import { StorageHelper } from "./StorageHelper"
+import { IdleMonitor } from "./IdleMonitor"
+import { TrackingPause } from "./TrackingPause"
+import { FocusBlock } from "./FocusBlock"
+import { TrayHelper } from "./TrayHelper"
+import { ActiveWindowHelper } from "./ActiveWindowHelper"
+import { StorageHelper, TrackingEvent } from "./StorageHelper"
+import { ActivityOutbox } from "./ActivityOutbox"
+import { Settings, SettingsHelper } from "./SettingsHelper"
+import { OutOfVocabularyValue } from "./ActivitySchema"
 import dotenv from "dotenv"
 import path from "path"
+import { v4 as uuidv4 } from "uuid"
 
-// Load environment variables before anything else
+// Load environment variables before anything else. They are only read
+// once, to create the settings file on first run.
 const envPath = path.join(__dirname, '..', '.env')
 const envResult = dotenv.config({ path: envPath })
 
 if (envResult.error) {
-  console.error(`Failed to load .env file from ${envPath}:`, envResult.error)
-  process.exit(1)
+  console.warn(`⚠️ No .env file loaded from ${envPath}, using saved settings`)
 }
 
-// Validate critical environment variables
-const validateEnvironment = (): { valid: boolean; errors: string[] } => {
+SettingsHelper.initialize(path.join(app.getPath("userData"), "settings.json"))
+
+// Pause length used by the pause shortcut
+const DEFAULT_PAUSE_MINUTES = 30
+const EVENT_OUTBOX_RETRY_INTERVAL_MS = 60000
+
+/**
+ * What automatic capture is doing right now, most specific reason first
+ */
+export type TrackingState = "active" | "paused" | "off_schedule" | "away" | "stopped"
+
+export interface TrackingStatus {
+  state: TrackingState
+  pausedUntil: string | null // End of a timed pause
+  focusBlock: { label: string | null; startedAt: string } | null // Focus block in progress
+}
+
+/**
+ * Where an automatic capture failed. "quota" is a classification failure
+ * caused by the model provider's rate limit or quota.
+ */
+export type CaptureFailureType = "capture" | "redaction" | "classification" | "quota" | "storage"
+
+/**
+ * Outcome of automatic captures since the app started
+ */
+export interface CaptureHealth {
+  lastCaptureAt: string | null // Any attempt, successful or not
+  lastSuccessAt: string | null
+  lastClassification: string | null
+  lastClassificationLatencyMs: number | null
+  lastError: string | null // Set by a failed capture, cleared by the next success
+  lastErrorType: CaptureFailureType | null
+  queuedError: string | null // Set while records only reach the outbox, cleared once one is stored
+  failures: Record<CaptureFailureType, number>
+}
+
+/**
+ * Everything AppState knows about whether tracking works, for the tray
+ * and the renderer
+ */
+export interface HealthSnapshot {
+  services: {
+    storage: boolean
+    processingHelper: boolean
+    automaticScreenshots: boolean
+  }
+  tracking: TrackingStatus
+  capture: CaptureHealth
+  outboxSize: number // Records waiting to be stored
+  exclusionsError: string | null // Unreadable exclusion list; every capture is stored as private
+  // Most frequent values the model answered outside the vocabulary since the models were loaded
+  outOfVocabulary: Array<OutOfVocabularyValue & { count: number }>
+}
+
+// Out-of-vocabulary values listed in the health snapshot
+const MAX_OUT_OF_VOCABULARY_VALUES = 10
+
+// Validate settings the storage backend needs
+const validateStorageSettings = (): { valid: boolean; errors: string[] } => {
   const errors: string[] = []
-  const required = {
-    SUPABASE_URL: process.env.SUPABASE_URL,
-    SUPABASE_ANON_KEY: process.env.SUPABASE_ANON_KEY,
-    GEMINI_API_KEY: process.env.GEMINI_API_KEY
+  // Model provider keys are checked when ProcessingHelper builds its
+  // providers, since each task may use a different one
+  const required: Record<string, string | null> = {}
+  const storage = SettingsHelper.get().storage
+
+  if (storage.backend === "supabase") {
+    required["storage.supabaseUrl"] = storage.supabaseUrl
+    required["storage.supabaseAnonKey"] = storage.supabaseAnonKey
   }
 
   for (const [key, value] of Object.entries(required)) {
     if (!value) {
-      errors.push(`Missing required environment variable: ${key}`)
+      errors.push(`Missing required setting: ${key}`)
     }
   }
 
@@ -44,18 +115,21 @@ let servicesInitialized = false
 
 const initializeCoreServices = (): boolean => {
   try {
-    // Validate environment first
-    const envValidation = validateEnvironment()
-    if (!envValidation.valid) {
-      throw new Error("Environment validation failed")
+    // Validate settings first
+    const settingsValidation = validateStorageSettings()
+    if (!settingsValidation.valid) {
+      throw new Error("Storage settings validation failed")
     }
 
-    // Initialize Supabase
-    const supabaseUrl = process.env.SUPABASE_URL!
-    const supabaseKey = process.env.SUPABASE_ANON_KEY!
-    
-    StorageHelper.initialize(supabaseUrl, supabaseKey)
-    console.log("✅ Supabase initialized successfully")
+    // Initialize storage
+    const storage = SettingsHelper.get().storage
+    StorageHelper.initialize({
+      backend: storage.backend,
+      supabaseUrl: storage.supabaseUrl ?? undefined,
+      supabaseKey: storage.supabaseAnonKey ?? undefined,
+      sqlitePath: storage.sqlitePath || path.join(app.getPath("userData"), "activity.db")
+    })
+    console.log(`✅ Storage initialized successfully (${storage.backend})`)
     
     servicesInitialized = true
     return true
@@ -76,6 +150,12 @@ export class AppState {
   private screenshotHelper: ScreenshotHelper
   public shortcutsHelper: ShortcutsHelper
   public processingHelper: ProcessingHelper | null = null
+  public idleMonitor: IdleMonitor | null = null
+  public trackingPause: TrackingPause
+  public focusBlock: FocusBlock
+  public trayHelper: TrayHelper | null = null
+  // Tracking events that failed to store, replayed like activity records
+  private trackingEventOutbox: ActivityOutbox<TrackingEvent>
 
   // View management
   private view: "queue" | "solutions" = "queue"
@@ -92,11 +172,24 @@ export class AppState {
 
   // Health monitoring
   private healthStatus = {
-    supabase: servicesInitialized,
+    storage: servicesInitialized,
     processingHelper: false,
     automaticScreenshots: false
   }
 
+  private captureHealth: CaptureHealth = {
+    lastCaptureAt: null,
+    lastSuccessAt: null,
+    lastClassification: null,
+    lastClassificationLatencyMs: null,
+    lastError: null,
+    lastErrorType: null,
+    queuedError: null,
+    failures: { capture: 0, redaction: 0, classification: 0, quota: 0, storage: 0 }
+  }
+
+  private healthListeners = new Set<() => void>()
+
   // Processing events
   public readonly PROCESSING_EVENTS = {
     UNAUTHORIZED: "procesing-unauthorized",
@@ -121,10 +214,6 @@ export class AppState {
 
     // Initialize ProcessingHelper with error handling
     try {
-      if (!process.env.GEMINI_API_KEY) {
-        throw new Error("GEMINI_API_KEY not found")
-      }
-      
       this.processingHelper = new ProcessingHelper(this)
       this.healthStatus.processingHelper = true
       
@@ -137,6 +226,26 @@ export class AppState {
       this.healthStatus.processingHelper = false
     }
 
+    this.trackingEventOutbox = new ActivityOutbox<TrackingEvent>(
+      path.join(app.getPath("userData"), "tracking-event-outbox.json")
+    )
+    this.trackingEventOutbox.startRetrying(EVENT_OUTBOX_RETRY_INTERVAL_MS, (event) =>
+      StorageHelper.storeTrackingEvent(event)
+    )
+
+    // Pauses requested by the user are kept apart from idle pauses
+    this.trackingPause = new TrackingPause({
+      onPause: () => this.screenshotHelper.pauseAutomaticScreenshots("user"),
+      onResume: () => this.screenshotHelper.resumeAutomaticScreenshots("user"),
+      storeEvent: (event) => this.storeTrackingEvent(event)
+    })
+    this.focusBlock = new FocusBlock((event) => this.storeTrackingEvent(event))
+    this.screenshotHelper.setStatusListener(() => this.notifyTrackingStatus())
+    this.screenshotHelper.setFailureListener((type, message) => this.reportCaptureFailure(type, message))
+
+    // Settings edited at runtime are applied without a restart
+    SettingsHelper.onChange((settings, previous) => this.applySettings(settings, previous))
+
     // Initialize ShortcutsHelper
     this.shortcutsHelper = new ShortcutsHelper(this)
     
@@ -144,6 +253,29 @@ export class AppState {
     console.log("📊 System Health:", this.healthStatus)
   }
 
+  /**
+   * Store an away, pause or focus period or an annotation, falling back to
+   * the outbox when storage fails. While events are queued, new ones wait
+   * behind them so an open period is never stored after its close.
+   */
+  public async storeTrackingEvent(event: TrackingEvent): Promise<void> {
+    if (this.trackingEventOutbox.size() > 0) {
+      this.trackingEventOutbox.enqueue(event)
+      await this.trackingEventOutbox.flush((e) => StorageHelper.storeTrackingEvent(e))
+      return
+    }
+
+    const result = await StorageHelper.storeTrackingEvent(event)
+    if (!result.success) {
+      console.error("Failed to store tracking event, queued for retry:", result.error)
+      this.trackingEventOutbox.enqueue(event, result.error)
+    }
+  }
+
+  public stopTrackingEventRetries(): void {
+    this.trackingEventOutbox.stopRetrying()
+  }
+
   public static getInstance(): AppState {
     if (!AppState.instance) {
       AppState.instance = new AppState()
@@ -160,6 +292,82 @@ export class AppState {
     return { ...this.healthStatus }
   }
 
+  public getHealthSnapshot(): HealthSnapshot {
+    return {
+      services: this.getHealthStatus(),
+      tracking: this.getTrackingStatus(),
+      capture: { ...this.captureHealth, failures: { ...this.captureHealth.failures } },
+      outboxSize: this.processingHelper?.getOutboxSize() ?? 0,
+      exclusionsError: this.processingHelper?.getExclusionList().getLoadError() ?? null,
+      outOfVocabulary: this.processingHelper?.getLLMHelper().getOutOfVocabularyReport()
+        .slice(0, MAX_OUT_OF_VOCABULARY_VALUES) ?? []
+    }
+  }
+
+  /**
+   * Subscribe to health and tracking status changes
+   * @returns Unsubscribe function
+   */
+  public onHealthChange(listener: () => void): () => void {
+    this.healthListeners.add(listener)
+    return () => this.healthListeners.delete(listener)
+  }
+
+  public notifyHealthChange(): void {
+    this.getMainWindow()?.webContents.send("health-changed", this.getHealthSnapshot())
+    this.healthListeners.forEach(listener => {
+      try {
+        listener()
+      } catch (error) {
+        console.error("Health listener failed:", error)
+      }
+    })
+  }
+
+  /**
+   * Record an automatic capture that was classified and stored
+   * @param latencyMs Time the model took, or null when no model was called
+   */
+  public reportCaptureSuccess(classification: string, latencyMs: number | null): void {
+    const now = new Date().toISOString()
+    this.captureHealth = {
+      ...this.captureHealth,
+      lastCaptureAt: now,
+      lastSuccessAt: now,
+      lastClassification: classification,
+      lastClassificationLatencyMs: latencyMs ?? this.captureHealth.lastClassificationLatencyMs,
+      lastError: null,
+      lastErrorType: null,
+      queuedError: null
+    }
+    this.notifyHealthChange()
+  }
+
+  /**
+   * Record an automatic capture whose record could only be queued in the
+   * outbox. Tracking stays degraded until a record is stored again.
+   */
+  public reportCaptureQueued(message: string): void {
+    this.captureHealth = {
+      ...this.captureHealth,
+      lastCaptureAt: new Date().toISOString(),
+      queuedError: message,
+      failures: { ...this.captureHealth.failures, storage: this.captureHealth.failures.storage + 1 }
+    }
+    this.notifyHealthChange()
+  }
+
+  public reportCaptureFailure(type: CaptureFailureType, message: string): void {
+    this.captureHealth = {
+      ...this.captureHealth,
+      lastCaptureAt: new Date().toISOString(),
+      lastError: message,
+      lastErrorType: type,
+      failures: { ...this.captureHealth.failures, [type]: this.captureHealth.failures[type] + 1 }
+    }
+    this.notifyHealthChange()
+  }
+
   // Getters and Setters
   public getMainWindow(): BrowserWindow | null {
     return this.windowHelper.getMainWindow()
@@ -245,8 +453,8 @@ export class AppState {
 
   public startAutomaticScreenshots(): void {
     // Validate system health before starting
-    if (!this.healthStatus.supabase) {
-      console.error("❌ Cannot start automatic screenshots: Supabase not initialized")
+    if (!this.healthStatus.storage) {
+      console.error("❌ Cannot start automatic screenshots: Storage not initialized")
       return
     }
     
@@ -255,21 +463,213 @@ export class AppState {
       return
     }
     
+    const capture = SettingsHelper.get().capture
+    if (capture.mode === "window_metadata" && !ActiveWindowHelper.isSupported()) {
+      console.error("❌ Cannot start window tracking: active window lookup needs Linux/X11")
+      return
+    }
+    
     try {
-      console.log("📸 Starting automatic screenshots for productivity tracking...")
+      console.log(`📸 Starting automatic ${capture.mode === "screenshot" ? "screenshots" : "window tracking"} for productivity tracking...`)
       this.screenshotHelper.startAutomaticScreenshots(
-        45000,
+        capture.schedule,
         () => this.hideMainWindow(),
-        () => this.showMainWindow()
+        () => this.showMainWindow(),
+        capture.mode,
+        capture.multiDisplayStrategy
       )
       this.healthStatus.automaticScreenshots = true
+      this.notifyHealthChange()
       console.log("✅ Automatic screenshots started successfully")
+
+      // Lock screens and screensavers are recorded as away periods instead of
+      // captured. The monitor outlives restarts so an away period in progress
+      // stays one event; only a new idle threshold replaces it.
+      if (this.idleMonitor?.getIdleThresholdSeconds() !== capture.idleThresholdSeconds) {
+        this.idleMonitor?.stop()
+        this.idleMonitor = new IdleMonitor(capture.idleThresholdSeconds, {
+          onAway: () => this.screenshotHelper.pauseAutomaticScreenshots("away"),
+          onReturn: () => this.screenshotHelper.resumeAutomaticScreenshots("away"),
+          storeEvent: (event) => this.storeTrackingEvent(event)
+        })
+        this.idleMonitor.start()
+      }
     } catch (error) {
       console.error("❌ Failed to start automatic screenshots:", error)
       this.healthStatus.automaticScreenshots = false
+      this.notifyHealthChange()
+    }
+  }
+
+  /**
+   * Apply saved settings changes to the running services
+   */
+  private applySettings(settings: Settings, previous: Settings): void {
+    // Capture that could not start for lack of storage or a model may start once they are fixed
+    const servicesWereReady = this.healthStatus.storage && this.healthStatus.processingHelper
+
+    const { retentionDays, ...connection } = settings.storage
+    const { retentionDays: previousRetentionDays, ...previousConnection } = previous.storage
+    if (SettingsHelper.changed(connection, previousConnection)) {
+      this.healthStatus.storage = initializeCoreServices()
+    }
+    if (retentionDays !== previousRetentionDays) {
+      this.processingHelper?.applyRetention()
+    }
+
+    if (SettingsHelper.changed(settings.models, previous.models)) {
+      try {
+        if (this.processingHelper) {
+          this.processingHelper.reloadModels()
+        } else {
+          this.processingHelper = new ProcessingHelper(this)
+          this.screenshotHelper.setProcessingHelper(this.processingHelper)
+        }
+        this.healthStatus.processingHelper = true
+        console.log("✅ Model providers reloaded")
+      } catch (error) {
+        // A working ProcessingHelper keeps its previous providers
+        console.error("❌ Failed to apply model settings:", error)
+        this.healthStatus.processingHelper = this.processingHelper !== null
+      }
+    }
+
+    if (settings.classification.activityRulesPath !== previous.classification.activityRulesPath) {
+      this.processingHelper?.reloadActivityRules()
+    }
+
+    const capture = settings.capture
+    if (capture.redactionConfigPath !== previous.capture.redactionConfigPath) {
+      this.screenshotHelper.reloadRedactionConfig()
+    }
+    if (capture.source !== previous.capture.source || capture.fixturesDir !== previous.capture.fixturesDir) {
+      this.screenshotHelper.setCaptureSource(ScreenshotHelper.createCaptureSource())
+    }
+
+    // Restart capture so the new schedule, mode and idle threshold take effect
+    const wasRunning = this.screenshotHelper.isAutomaticActive()
+    if (wasRunning && SettingsHelper.changed(capture, previous.capture)) {
+      this.startAutomaticScreenshots()
+    } else if (!wasRunning && !servicesWereReady && this.healthStatus.storage && this.healthStatus.processingHelper) {
+      // Settings that fixed a startup failure let capture start now;
+      // capture the user stopped stays stopped
+      this.startAutomaticScreenshots()
+    }
+
+    if (SettingsHelper.changed(settings.shortcuts, previous.shortcuts)) {
+      this.shortcutsHelper.applyBindings(settings.shortcuts)
+    }
+
+    this.getMainWindow()?.webContents.send("settings-changed", SettingsHelper.redactSecrets(settings))
+    this.notifyHealthChange()
+  }
+
+  // Tracking pause/resume methods
+  public getTrackingStatus(): TrackingStatus {
+    let state: TrackingState = "active"
+    if (!this.screenshotHelper.isAutomaticActive()) {
+      state = "stopped"
+    } else if (this.trackingPause.isPaused()) {
+      state = "paused"
+    } else if (!this.screenshotHelper.isWithinSchedule()) {
+      state = "off_schedule"
+    } else if (this.screenshotHelper.isPausedFor("away")) {
+      state = "away"
+    }
+    return {
+      state,
+      pausedUntil: this.trackingPause.getPausedUntil(),
+      focusBlock: this.focusBlock.getCurrent()
+    }
+  }
+
+  /**
+   * @param minutes Resume automatically after this long; null pauses until resumed
+   */
+  public pauseTracking(minutes: number | null): void {
+    this.trackingPause.pause(minutes)
+    this.notifyTrackingStatus()
+  }
+
+  public resumeTracking(): void {
+    this.trackingPause.resume()
+    this.notifyTrackingStatus()
+  }
+
+  public toggleTrackingPause(): void {
+    if (this.trackingPause.isPaused()) {
+      this.resumeTracking()
+    } else {
+      this.pauseTracking(DEFAULT_PAUSE_MINUTES)
     }
   }
 
+  /**
+   * @param label What the block is for; starting again renames the block in progress
+   */
+  public startFocusBlock(label: string | null): void {
+    this.focusBlock.start(label)
+    this.notifyTrackingStatus()
+  }
+
+  public stopFocusBlock(): void {
+    this.focusBlock.stop()
+    this.notifyTrackingStatus()
+  }
+
+  public toggleFocusBlock(): void {
+    if (this.focusBlock.isActive()) {
+      this.stopFocusBlock()
+    } else {
+      this.startFocusBlock(null)
+    }
+  }
+
+  /**
+   * Bring the window up with the quick-annotate prompt open
+   */
+  public openQuickAnnotate(): void {
+    this.showMainWindow()
+    this.getMainWindow()?.webContents.send("open-annotate")
+  }
+
+  /**
+   * Tag what the user is doing right now, e.g. "this is Project X". Stored
+   * as an "annotation" tracking event at the current time; if storage
+   * fails it waits in the outbox like the other tracking events.
+   */
+  public async annotateActivity(label: string): Promise<{ success: boolean; error?: string }> {
+    const text = label.trim()
+    if (!text) {
+      return { success: false, error: "Annotation must not be empty" }
+    }
+
+    const now = new Date().toISOString()
+    await this.storeTrackingEvent({
+      event_id: uuidv4(),
+      event_type: "annotation",
+      reason: "user",
+      label: text,
+      started_at: now,
+      ended_at: now
+    })
+    console.log(`📝 Activity annotated: ${text}`)
+    return { success: true }
+  }
+
+  private notifyTrackingStatus(): void {
+    this.getMainWindow()?.webContents.send("tracking-status-changed", this.getTrackingStatus())
+    this.notifyHealthChange()
+  }
+
+  /**
+   * Bring the window up on the given renderer view
+   */
+  public showView(view: "insights" | "diagnostics" | "settings" | "activity"): void {
+    this.showMainWindow()
+    this.getMainWindow()?.webContents.send("navigate", view)
+  }
+
   public async getImagePreview(filepath: string): Promise<string> {
     return this.screenshotHelper.getImagePreview(filepath)
   }
@@ -336,13 +736,21 @@ async function initializeApp() {
       
       // Register global shortcuts
       appState.shortcutsHelper.registerGlobalShortcuts()
+
+      // The tray is the only sign of tracking once the window is hidden
+      appState.trayHelper = new TrayHelper(appState)
+      appState.trayHelper.create()
       
       // Wait a moment for window to be fully ready
       await new Promise(resolve => setTimeout(resolve, 1000))
       
       // Start automatic screenshots if core dependencies are ready
       const health = appState.getHealthStatus()
-      if (health.supabase && health.processingHelper) {
+      if (health.storage) {
+        // Periods a crash left open would otherwise label every later gap
+        await StorageHelper.closeInterruptedTrackingEvents()
+      }
+      if (health.storage && health.processingHelper) {
         appState.startAutomaticScreenshots()
       } else {
         console.error("❌ Core dependencies not ready, skipping automatic screenshots")
@@ -365,7 +773,15 @@ async function initializeApp() {
 
     app.on('before-quit', () => {
       console.log("🛑 App shutting down gracefully...")
-      // Here you could add cleanup logic
+      appState.processingHelper?.stopOutboxRetries()
+      appState.processingHelper?.stopClassificationRetries()
+      appState.processingHelper?.stopRetentionJob()
+      appState.idleMonitor?.stop()
+      appState.trackingPause.stop()
+      appState.focusBlock.stop()
+      appState.stopTrackingEventRetries()
+      appState.getScreenshotHelper().stopAutomaticScreenshots()
+      appState.trayHelper?.destroy()
     })
 
     app.dock?.hide()
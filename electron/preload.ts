@@ -1,4 +1,15 @@
 import { contextBridge, ipcRenderer } from "electron"
+import type { ExclusionEntry } from "./ExclusionList"
+import type { Goal, ProjectTime } from "./GoalList"
+import type { TrackingScheduleConfig } from "./TrackingSchedule"
+import type { Settings, SettingsPatch } from "./SettingsHelper"
+import type { RedactionConfig } from "./RedactionHelper"
+import type { ShortcutStatus } from "./shortcuts"
+import type { HealthSnapshot, TrackingStatus } from "./main"
+import type { ActivityRecord } from "./StorageProvider"
+import type { ActivityEnumField, ActivityOverrides } from "./ActivitySchema"
+
+type ActivityLog = { records: ActivityRecord[]; vocabulary: Record<ActivityEnumField, string[]> }
 
 // Types for the exposed Electron API
 interface ElectronAPI {
@@ -51,6 +62,9 @@ interface ElectronAPI {
         topApp: string
         dayStart: string
         dayEnd: string
+        unclassifiedRecords: number
+        privateRecords: number
+        projectMinutes: Record<string, number>
       }
       date: string
       activityCount: number
@@ -66,6 +80,9 @@ interface ElectronAPI {
       topApp: string
       dayStart: string
       dayEnd: string
+      unclassifiedRecords: number
+      privateRecords: number
+      projectMinutes: Record<string, number>
     }
   }>
   getHourlyBreakdown: (date?: string) => Promise<{
@@ -76,8 +93,55 @@ interface ElectronAPI {
       count: number
       focusCount: number
       goalRelatedCount: number
+      unclassifiedCount: number
+      privateCount: number
+      minutes: number
+      focusMinutes: number
+      goalRelatedMinutes: number
+      unclassifiedMinutes: number
+      privateMinutes: number
     }>
   }>
+  getActivityLog: (date?: string) => Promise<{ success: boolean; error?: string; data?: ActivityLog }>
+  setActivityOverrides: (
+    recordId: string,
+    overrides: ActivityOverrides | null
+  ) => Promise<{ success: boolean; error?: string }>
+  relabelActivities: (
+    start: string,
+    end: string,
+    overrides: ActivityOverrides
+  ) => Promise<{ success: boolean; error?: string; updated?: number }>
+  onNavigate: (callback: (view: "insights" | "diagnostics" | "settings" | "activity") => void) => () => void
+  getHealth: () => Promise<{ success: boolean; data: HealthSnapshot }>
+  onHealthChanged: (callback: (health: HealthSnapshot) => void) => () => void
+  getTrackingStatus: () => Promise<{ success: boolean; data: TrackingStatus }>
+  pauseTracking: (minutes: number | null) => Promise<{ success: boolean; error?: string; data?: TrackingStatus }>
+  resumeTracking: () => Promise<{ success: boolean; data: TrackingStatus }>
+  onTrackingStatusChanged: (callback: (status: TrackingStatus) => void) => () => void
+  startFocusBlock: (label: string | null) => Promise<{ success: boolean; data: TrackingStatus }>
+  stopFocusBlock: () => Promise<{ success: boolean; data: TrackingStatus }>
+  annotateActivity: (label: string) => Promise<{ success: boolean; error?: string }>
+  onOpenAnnotate: (callback: () => void) => () => void
+  getTrackingSchedule: () => Promise<{ success: boolean; data: TrackingScheduleConfig }>
+  setTrackingSchedule: (config: TrackingScheduleConfig) => Promise<{
+    success: boolean
+    error?: string
+    data?: TrackingScheduleConfig
+  }>
+  getExclusions: () => Promise<{ success: boolean; error?: string; data?: ExclusionEntry[] }>
+  setExclusions: (entries: ExclusionEntry[]) => Promise<{ success: boolean; error?: string; data?: ExclusionEntry[] }>
+  getGoals: () => Promise<{ success: boolean; error?: string; data?: Goal[] }>
+  setGoals: (goals: Goal[]) => Promise<{ success: boolean; error?: string; data?: Goal[] }>
+  getProjectTime: (date?: string) => Promise<{ success: boolean; error?: string; data?: ProjectTime[] }>
+  getSettings: () => Promise<{ success: boolean; data: Settings }>
+  updateSettings: (patch: SettingsPatch) => Promise<{ success: boolean; error?: string; data?: Settings }>
+  resetSettings: () => Promise<{ success: boolean; error?: string; data?: Settings }>
+  onSettingsChanged: (callback: (settings: Settings) => void) => () => void
+  getRedactionConfig: () => Promise<{ success: boolean; data: RedactionConfig }>
+  setRedactionConfig: (config: RedactionConfig) => Promise<{ success: boolean; error?: string; data?: RedactionConfig }>
+  getShortcuts: () => Promise<{ success: boolean; data: ShortcutStatus[] }>
+  setShortcutsSuspended: (suspended: boolean) => Promise<{ success: boolean; data: ShortcutStatus[] }>
 }
 
 export const PROCESSING_EVENTS = {
@@ -222,6 +286,88 @@ contextBridge.exposeInMainWorld("electronAPI", {
   getDailyStats: (date?: string) => 
     ipcRenderer.invoke("get-daily-stats", date),
   getHourlyBreakdown: (date?: string) => 
-    ipcRenderer.invoke("get-hourly-breakdown", date)
+    ipcRenderer.invoke("get-hourly-breakdown", date),
+
+  // ACTIVITY LOG APIS
+  getActivityLog: (date?: string) => ipcRenderer.invoke("get-activity-log", date),
+  setActivityOverrides: (recordId: string, overrides: ActivityOverrides | null) =>
+    ipcRenderer.invoke("set-activity-overrides", recordId, overrides),
+  relabelActivities: (start: string, end: string, overrides: ActivityOverrides) =>
+    ipcRenderer.invoke("relabel-activities", start, end, overrides),
+
+  onNavigate: (callback: (view: "insights" | "diagnostics" | "settings" | "activity") => void) => {
+    const subscription = (_: any, view: "insights" | "diagnostics" | "settings" | "activity") => callback(view)
+    ipcRenderer.on("navigate", subscription)
+    return () => {
+      ipcRenderer.removeListener("navigate", subscription)
+    }
+  },
+
+  // HEALTH APIS
+  getHealth: () => ipcRenderer.invoke("get-health"),
+  onHealthChanged: (callback: (health: HealthSnapshot) => void) => {
+    const subscription = (_: any, health: HealthSnapshot) => callback(health)
+    ipcRenderer.on("health-changed", subscription)
+    return () => {
+      ipcRenderer.removeListener("health-changed", subscription)
+    }
+  },
+
+  // TRACKING CONTROL APIS
+  getTrackingStatus: () => ipcRenderer.invoke("get-tracking-status"),
+  pauseTracking: (minutes: number | null) =>
+    ipcRenderer.invoke("pause-tracking", minutes),
+  resumeTracking: () => ipcRenderer.invoke("resume-tracking"),
+  onTrackingStatusChanged: (callback: (status: TrackingStatus) => void) => {
+    const subscription = (_: any, status: TrackingStatus) => callback(status)
+    ipcRenderer.on("tracking-status-changed", subscription)
+    return () => {
+      ipcRenderer.removeListener("tracking-status-changed", subscription)
+    }
+  },
+  startFocusBlock: (label: string | null) => ipcRenderer.invoke("start-focus-block", label),
+  stopFocusBlock: () => ipcRenderer.invoke("stop-focus-block"),
+  annotateActivity: (label: string) => ipcRenderer.invoke("annotate-activity", label),
+  onOpenAnnotate: (callback: () => void) => {
+    const subscription = () => callback()
+    ipcRenderer.on("open-annotate", subscription)
+    return () => {
+      ipcRenderer.removeListener("open-annotate", subscription)
+    }
+  },
+  getTrackingSchedule: () => ipcRenderer.invoke("get-tracking-schedule"),
+  setTrackingSchedule: (config: TrackingScheduleConfig) =>
+    ipcRenderer.invoke("set-tracking-schedule", config),
+
+  // EXCLUSION LIST APIS
+  getExclusions: () => ipcRenderer.invoke("get-exclusions"),
+  setExclusions: (entries: ExclusionEntry[]) =>
+    ipcRenderer.invoke("set-exclusions", entries),
+
+  // GOAL APIS
+  getGoals: () => ipcRenderer.invoke("get-goals"),
+  setGoals: (goals: Goal[]) => ipcRenderer.invoke("set-goals", goals),
+  getProjectTime: (date?: string) => ipcRenderer.invoke("get-project-time", date),
+
+  // SETTINGS APIS
+  getSettings: () => ipcRenderer.invoke("get-settings"),
+  updateSettings: (patch: SettingsPatch) => ipcRenderer.invoke("update-settings", patch),
+  resetSettings: () => ipcRenderer.invoke("reset-settings"),
+  onSettingsChanged: (callback: (settings: Settings) => void) => {
+    const subscription = (_: any, settings: Settings) => callback(settings)
+    ipcRenderer.on("settings-changed", subscription)
+    return () => {
+      ipcRenderer.removeListener("settings-changed", subscription)
+    }
+  },
+
+  // PRIVACY APIS
+  getRedactionConfig: () => ipcRenderer.invoke("get-redaction-config"),
+  setRedactionConfig: (config: RedactionConfig) =>
+    ipcRenderer.invoke("set-redaction-config", config),
+
+  // SHORTCUT APIS
+  getShortcuts: () => ipcRenderer.invoke("get-shortcuts"),
+  setShortcutsSuspended: (suspended: boolean) => ipcRenderer.invoke("set-shortcuts-suspended", suspended)
 } as ElectronAPI)/ /   U p d a t e d  
  
\ No newline at end of file
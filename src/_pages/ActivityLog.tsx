@@ -0,0 +1,378 @@
+import React, { useEffect, useState } from 'react'
+import {
+  ActivityEnumField,
+  ActivityField,
+  ActivityLog as ActivityLogData,
+  ActivityOverrides,
+  ActivityRecord,
+  Goal,
+  ViewType
+} from '../types/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { Button } from '../components/ui/button'
+import { Loader } from '../components/ui/loader'
+
+interface ActivityLogProps {
+  setView: React.Dispatch<React.SetStateAction<ViewType>>
+}
+
+const ENUM_FIELDS: ActivityEnumField[] = [
+  'goal_relevance',
+  'cognitive_state',
+  'context_switching',
+  'attention_residue',
+  'procrastination_signal',
+  'energy_level'
+]
+
+const humanize = (value: string): string => value.replace(/_/g, ' ')
+
+const formatTime = (timestamp?: string): string =>
+  timestamp ? new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '-'
+
+const selectClass =
+  'bg-gray-800 border border-gray-700 rounded px-1 py-0.5 text-xs text-white focus:outline-none focus:border-blue-500'
+
+// Empty values mean "no override" and are left out; a null project_id is kept
+const withoutEmpty = (overrides: ActivityOverrides): ActivityOverrides =>
+  Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== '' && value !== undefined)
+  ) as ActivityOverrides
+
+// Select value standing for a project_id override of null
+const NO_PROJECT = '__none__'
+
+const goalName = (goals: Goal[], id: string | null | undefined): string =>
+  id ? goals.find((goal) => goal.id === id)?.name || 'Deleted goal' : 'none'
+
+/**
+ * One field: the corrected value when there is one, with the model's value
+ * kept visible for auditing
+ */
+const FieldValue: React.FC<{ record: ActivityRecord; field: ActivityField }> = ({ record, field }) => {
+  const original = record[field] ?? null
+  const corrected = record.overrides?.[field]
+  if (!corrected || corrected === original) {
+    return <span className="text-gray-300">{original ? humanize(original) : '-'}</span>
+  }
+  return (
+    <span title={`Model: ${original ? humanize(original) : 'none'}`}>
+      <span className="text-blue-300">{humanize(corrected)}</span>
+      <span className="block text-[10px] text-gray-500 line-through">{original ? humanize(original) : 'none'}</span>
+    </span>
+  )
+}
+
+/**
+ * The goal the record counts toward, corrected or as the model attributed it
+ */
+const ProjectValue: React.FC<{ record: ActivityRecord; goals: Goal[] }> = ({ record, goals }) => {
+  const original = record.project_id ?? null
+  if (!record.overrides || !('project_id' in record.overrides) || record.overrides.project_id === original) {
+    return <span className="text-gray-300">{original ? goalName(goals, original) : '-'}</span>
+  }
+  return (
+    <span title={`Model: ${goalName(goals, original)}`}>
+      <span className="text-blue-300">{goalName(goals, record.overrides.project_id)}</span>
+      <span className="block text-[10px] text-gray-500 line-through">{goalName(goals, original)}</span>
+    </span>
+  )
+}
+
+const OverrideEditor: React.FC<{
+  overrides: ActivityOverrides
+  vocabulary: ActivityLogData['vocabulary']
+  goals: Goal[]
+  onChange: (overrides: ActivityOverrides) => void
+  emptyLabel: string
+}> = ({ overrides, vocabulary, goals, onChange, emptyLabel }) => (
+  <div className="grid grid-cols-4 gap-2">
+    <label className="col-span-4 flex items-center gap-2">
+      <span className="text-gray-400 w-40">app</span>
+      <input
+        className={`${selectClass} flex-1`}
+        value={overrides.app_classification ?? ''}
+        placeholder={emptyLabel}
+        onChange={(e) => onChange({ ...overrides, app_classification: e.target.value })}
+      />
+    </label>
+    {ENUM_FIELDS.map((field) => (
+      <label key={field} className="col-span-2 flex items-center gap-2">
+        <span className="text-gray-400 w-40">{humanize(field)}</span>
+        <select
+          className={`${selectClass} flex-1`}
+          value={overrides[field] ?? ''}
+          onChange={(e) => onChange({ ...overrides, [field]: e.target.value })}
+        >
+          <option value="">{emptyLabel}</option>
+          {vocabulary[field].map((value) => (
+            <option key={value} value={value}>
+              {humanize(value)}
+            </option>
+          ))}
+        </select>
+      </label>
+    ))}
+    <label className="col-span-2 flex items-center gap-2">
+      <span className="text-gray-400 w-40">project</span>
+      <select
+        className={`${selectClass} flex-1`}
+        value={overrides.project_id === null ? NO_PROJECT : overrides.project_id ?? ''}
+        onChange={(e) => {
+          const { project_id, ...rest } = overrides
+          if (!e.target.value) onChange(rest)
+          else onChange({ ...rest, project_id: e.target.value === NO_PROJECT ? null : e.target.value })
+        }}
+      >
+        <option value="">{emptyLabel}</option>
+        <option value={NO_PROJECT}>No project</option>
+        {goals.map((goal) => (
+          <option key={goal.id} value={goal.id}>
+            {goal.name}
+          </option>
+        ))}
+      </select>
+    </label>
+  </div>
+)
+
+const ActivityLog: React.FC<ActivityLogProps> = ({ setView }) => {
+  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0])
+  const [log, setLog] = useState<ActivityLogData | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [goals, setGoals] = useState<Goal[]>([])
+
+  // Single record being corrected
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<ActivityOverrides>({})
+
+  // Bulk relabel
+  const [rangeStart, setRangeStart] = useState('09:00')
+  const [rangeEnd, setRangeEnd] = useState('10:00')
+  const [relabel, setRelabel] = useState<ActivityOverrides>({})
+
+  useEffect(() => {
+    loadLog()
+  }, [selectedDate])
+
+  useEffect(() => {
+    window.electronAPI.getGoals().then((result) => {
+      if (result.success && result.data) setGoals(result.data)
+    })
+  }, [])
+
+  const loadLog = async () => {
+    setLoading(true)
+    try {
+      const result = await window.electronAPI.getActivityLog(selectedDate)
+      if (result.success && result.data) {
+        setLog(result.data)
+        setError(null)
+      } else {
+        setError(result.error || 'Failed to load the activity log')
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const startEditing = (record: ActivityRecord) => {
+    setEditingId(record.record_id || null)
+    setDraft(record.overrides || {})
+    setMessage(null)
+  }
+
+  const saveOverrides = async (recordId: string, overrides: ActivityOverrides | null) => {
+    const result = await window.electronAPI.setActivityOverrides(recordId, overrides && withoutEmpty(overrides))
+    if (result.success) {
+      setEditingId(null)
+      setError(null)
+      await loadLog()
+    } else {
+      setError(result.error || 'Failed to save the correction')
+    }
+  }
+
+  const applyRelabel = async () => {
+    // Times are local to the selected day
+    const start = new Date(`${selectedDate}T${rangeStart}:00`)
+    const end = new Date(`${selectedDate}T${rangeEnd}:59.999`)
+    const result = await window.electronAPI.relabelActivities(
+      start.toISOString(),
+      end.toISOString(),
+      withoutEmpty(relabel)
+    )
+    if (result.success) {
+      setMessage(`Relabeled ${result.updated ?? 0} records.`)
+      setError(null)
+      setRelabel({})
+      await loadLog()
+    } else {
+      setError(result.error || 'Failed to relabel records')
+    }
+  }
+
+  const records = log?.records || []
+  const correctedCount = records.filter((record) => record.overrides).length
+
+  return (
+    <div className="p-6 bg-black text-white min-h-screen">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Activity Log</h1>
+        <Button
+          variant="ghost"
+          onClick={() => setView('insights')}
+          className="text-sm text-gray-400 hover:text-white px-2 py-1"
+        >
+          ← Back to Insights
+        </Button>
+      </div>
+
+      <div className="flex gap-4 items-center mb-6">
+        <input
+          type="date"
+          value={selectedDate}
+          onChange={(e) => setSelectedDate(e.target.value)}
+          max={new Date().toISOString().split('T')[0]}
+          className="px-3 py-2 bg-gray-900 border border-gray-700 rounded text-white focus:outline-none focus:border-gray-500"
+        />
+        {loading && <Loader className="h-4 w-4" />}
+        <span className="text-sm text-gray-400">
+          {records.length} records, {correctedCount} corrected. Corrections replace the model output in all insights.
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+      {message && <p className="text-sm text-green-400 mb-4">{message}</p>}
+
+      {/* Bulk relabel */}
+      {log && (
+        <Card className="bg-gray-900 border-gray-800 mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Relabel a time range</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-xs">
+            <div className="flex items-center gap-2">
+              <span className="text-gray-400">From</span>
+              <input type="time" className={selectClass} value={rangeStart} onChange={(e) => setRangeStart(e.target.value)} />
+              <span className="text-gray-400">to</span>
+              <input type="time" className={selectClass} value={rangeEnd} onChange={(e) => setRangeEnd(e.target.value)} />
+            </div>
+            <OverrideEditor
+              overrides={relabel}
+              vocabulary={log.vocabulary}
+              goals={goals}
+              onChange={setRelabel}
+              emptyLabel="Keep"
+            />
+            <Button
+              onClick={applyRelabel}
+              disabled={Object.keys(withoutEmpty(relabel)).length === 0}
+              className="text-xs"
+            >
+              Relabel records
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Records */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-400 uppercase tracking-wide">
+              <th className="py-2 pr-3">Time</th>
+              <th className="py-2 pr-3">Min</th>
+              <th className="py-2 pr-3">App</th>
+              {ENUM_FIELDS.map((field) => (
+                <th key={field} className="py-2 pr-3">{humanize(field)}</th>
+              ))}
+              <th className="py-2 pr-3">Project</th>
+              <th className="py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {records.map((record, index) => {
+              const isEditing = !!record.record_id && editingId === record.record_id
+              return (
+                <React.Fragment key={record.record_id || index}>
+                  <tr className="border-t border-gray-800 align-top">
+                    <td className="py-2 pr-3 text-gray-400 whitespace-nowrap">{formatTime(record.captured_at || record.created_at)}</td>
+                    <td className="py-2 pr-3 text-gray-400">
+                      {record.duration_seconds != null ? Math.round(record.duration_seconds / 6) / 10 : '-'}
+                    </td>
+                    <td className="py-2 pr-3 max-w-xs">
+                      <FieldValue record={record} field="app_classification" />
+                      {record.classification_status && record.classification_status !== 'classified' && (
+                        <span className="block text-[10px] text-yellow-400">{record.classification_status}</span>
+                      )}
+                    </td>
+                    {ENUM_FIELDS.map((field) => (
+                      <td key={field} className="py-2 pr-3">
+                        <FieldValue record={record} field={field} />
+                      </td>
+                    ))}
+                    <td className="py-2 pr-3">
+                      <ProjectValue record={record} goals={goals} />
+                    </td>
+                    <td className="py-2 whitespace-nowrap">
+                      {record.record_id ? (
+                        <button
+                          type="button"
+                          className="text-blue-400 hover:text-blue-300"
+                          onClick={() => (isEditing ? setEditingId(null) : startEditing(record))}
+                        >
+                          {isEditing ? 'Cancel' : 'Correct'}
+                        </button>
+                      ) : (
+                        <span className="text-gray-600" title="Stored before records had ids">-</span>
+                      )}
+                    </td>
+                  </tr>
+                  {isEditing && log && (
+                    <tr>
+                      <td colSpan={ENUM_FIELDS.length + 5} className="pb-4 space-y-2">
+                        <OverrideEditor
+                          overrides={draft}
+                          vocabulary={log.vocabulary}
+                          goals={goals}
+                          onChange={setDraft}
+                          emptyLabel="Model value"
+                        />
+                        <div className="flex gap-2">
+                          <Button onClick={() => saveOverrides(record.record_id!, draft)} className="text-xs">
+                            Save correction
+                          </Button>
+                          {record.overrides && (
+                            <Button
+                              variant="ghost"
+                              onClick={() => saveOverrides(record.record_id!, null)}
+                              className="text-xs text-gray-400 hover:text-white"
+                            >
+                              Restore model values
+                            </Button>
+                          )}
+                          {record.overridden_at && (
+                            <span className="text-gray-500 self-center">
+                              Corrected {new Date(record.overridden_at).toLocaleString()}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              )
+            })}
+          </tbody>
+        </table>
+        {!loading && records.length === 0 && <p className="text-sm text-gray-500 mt-4">No records for this day.</p>}
+      </div>
+    </div>
+  )
+}
+
+export default ActivityLog
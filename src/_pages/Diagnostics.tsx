@@ -0,0 +1,247 @@
+import React, { useEffect, useState } from 'react'
+import { CaptureFailureType, HealthSnapshot, ViewType } from '../types/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card'
+import { Button } from '../components/ui/button'
+import { Loader } from '../components/ui/loader'
+
+interface DiagnosticsProps {
+  setView: React.Dispatch<React.SetStateAction<ViewType>>
+}
+
+interface Explanation {
+  title: string
+  cause: string
+  fix: string
+}
+
+const SERVICE_PROBLEMS: Record<keyof HealthSnapshot['services'], Explanation> = {
+  storage: {
+    title: 'Storage unavailable',
+    cause: 'The activity database could not be opened, so nothing can be recorded.',
+    fix: 'Check the storage settings: the SQLite path, or the Supabase URL and anon key. Saved changes apply right away.'
+  },
+  processingHelper: {
+    title: 'Classification unavailable',
+    cause: 'The model providers could not be set up, so captures cannot be classified.',
+    fix: 'Make sure the model settings include the API key for the configured provider. Saved changes apply right away.'
+  },
+  automaticScreenshots: {
+    title: 'Automatic capture not running',
+    cause: 'Capture did not start. Window metadata mode only works on Linux with X11.',
+    fix: 'Check the console output from startup for the reason, fix it and restart the app.'
+  }
+}
+
+const FAILURE_EXPLANATIONS: Record<CaptureFailureType, Explanation> = {
+  capture: {
+    title: 'Screen capture failed',
+    cause: 'The screen or the focused window could not be read.',
+    fix: 'On macOS, allow Screen Recording for the app under System Settings → Privacy & Security. On Linux, run inside an X11 session.'
+  },
+  redaction: {
+    title: 'Redaction failed',
+    cause: 'A capture could not be redacted, so it was discarded instead of being sent unredacted.',
+    fix: 'Check that redaction.json in the app data folder is valid JSON. With OCR on, the language data must download or langPath must point to it.'
+  },
+  classification: {
+    title: 'Classification failed',
+    cause: 'The model did not return a usable classification. The captures are stored as unclassified and retried automatically.',
+    fix: 'Check the model provider settings and that the configured model accepts images.'
+  },
+  quota: {
+    title: 'Model quota or rate limit reached',
+    cause: 'The model provider rejected requests because of its rate limit or quota. The captures are retried later.',
+    fix: 'Wait for the quota to reset, raise it with your provider, or capture less often.'
+  },
+  storage: {
+    title: 'Storing records failed',
+    cause: 'Records could not be written and are queued on disk.',
+    fix: 'They are replayed automatically once storage is reachable again. Check your network connection or the database path.'
+  }
+}
+
+const TRACKING_NOTES: Partial<Record<HealthSnapshot['tracking']['state'], string>> = {
+  paused: 'Tracking is paused, so no captures are taken until it is resumed.',
+  off_schedule: 'It is outside your working hours, so capture is paused until they start.',
+  away: 'You are idle or your screen is locked. Capture resumes when you are back.',
+  stopped: 'Automatic capture is not running.'
+}
+
+const formatTime = (iso: string | null): string =>
+  iso ? new Date(iso).toLocaleTimeString() : 'Never'
+
+const Diagnostics: React.FC<DiagnosticsProps> = ({ setView }) => {
+  const [health, setHealth] = useState<HealthSnapshot | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.getHealth().then((result) => setHealth(result.data))
+    return window.electronAPI.onHealthChanged(setHealth)
+  }, [])
+
+  if (!health) {
+    return (
+      <div className="p-6 bg-black text-white min-h-screen">
+        <Loader className="h-8 w-8 mx-auto" />
+      </div>
+    )
+  }
+
+  const { capture, tracking, outboxSize } = health
+  const serviceProblems = (Object.keys(SERVICE_PROBLEMS) as Array<keyof typeof SERVICE_PROBLEMS>)
+    .filter((service) => !health.services[service])
+  const failureTypes = (Object.keys(FAILURE_EXPLANATIONS) as CaptureFailureType[])
+    .filter((type) => capture.failures[type] > 0)
+
+  return (
+    <div className="p-6 bg-black text-white min-h-screen">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Diagnostics</h1>
+        <Button
+          variant="ghost"
+          onClick={() => setView('queue')}
+          className="text-sm text-gray-400 hover:text-white px-2 py-1"
+        >
+          ← Back
+        </Button>
+      </div>
+
+      {/* Counters */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <Card className="bg-gray-900 border-gray-800">
+          <CardContent className="p-4">
+            <div className="text-xs text-gray-400 uppercase tracking-wide">Last Successful Capture</div>
+            <div className="text-xl font-bold mt-1">{formatTime(capture.lastSuccessAt)}</div>
+            {capture.lastClassification && (
+              <div className="text-xs text-gray-500 mt-1 truncate">{capture.lastClassification}</div>
+            )}
+          </CardContent>
+        </Card>
+        <Card className="bg-gray-900 border-gray-800">
+          <CardContent className="p-4">
+            <div className="text-xs text-gray-400 uppercase tracking-wide">Classification Latency</div>
+            <div className="text-xl font-bold mt-1">
+              {capture.lastClassificationLatencyMs !== null
+                ? `${(capture.lastClassificationLatencyMs / 1000).toFixed(1)}s`
+                : 'N/A'}
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="bg-gray-900 border-gray-800">
+          <CardContent className="p-4">
+            <div className="text-xs text-gray-400 uppercase tracking-wide">Queued Records</div>
+            <div className={`text-xl font-bold mt-1 ${outboxSize > 0 ? 'text-yellow-400' : ''}`}>{outboxSize}</div>
+          </CardContent>
+        </Card>
+        <Card className="bg-gray-900 border-gray-800">
+          <CardContent className="p-4">
+            <div className="text-xs text-gray-400 uppercase tracking-wide">Quota Errors</div>
+            <div className={`text-xl font-bold mt-1 ${capture.failures.quota > 0 ? 'text-red-400' : ''}`}>
+              {capture.failures.quota}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Why there may be no data right now */}
+      {TRACKING_NOTES[tracking.state] && (
+        <Card className="bg-yellow-900/20 border-yellow-800 mb-6">
+          <CardContent className="p-4">
+            <p className="text-yellow-400">{TRACKING_NOTES[tracking.state]}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {health.exclusionsError && (
+        <Card className="bg-red-900/20 border-red-800 mb-4">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-red-400 text-base">Exclusion list unreadable</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm">
+            <p className="text-gray-300">
+              Every capture is stored as private, with only its time, until the list can be read: {health.exclusionsError}
+            </p>
+            <p className="text-gray-400 mt-2">
+              Fix: repair exclusions.json in the app data folder and restart, or save the exclusions again in Settings.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {capture.queuedError && (
+        <Card className="bg-yellow-900/20 border-yellow-800 mb-6">
+          <CardContent className="p-4">
+            <p className="text-yellow-400">
+              Captures are classified but their records are only queued: {capture.queuedError}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {serviceProblems.map((service) => (
+        <Card key={service} className="bg-red-900/20 border-red-800 mb-4">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-red-400 text-base">{SERVICE_PROBLEMS[service].title}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm">
+            <p className="text-gray-300">{SERVICE_PROBLEMS[service].cause}</p>
+            <p className="text-gray-400 mt-2">Fix: {SERVICE_PROBLEMS[service].fix}</p>
+          </CardContent>
+        </Card>
+      ))}
+
+      {/* Failures since the app started */}
+      <Card className="bg-gray-900 border-gray-800 mb-6">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-base">Failures since start</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm space-y-4">
+          {failureTypes.length === 0 && (
+            <p className="text-gray-400">No capture has failed since the app started.</p>
+          )}
+          {failureTypes.map((type) => (
+            <div key={type}>
+              <div className="flex justify-between">
+                <span className={type === capture.lastErrorType ? 'text-red-400 font-medium' : 'text-white font-medium'}>
+                  {FAILURE_EXPLANATIONS[type].title}
+                </span>
+                <span className="text-gray-400">{capture.failures[type]}×</span>
+              </div>
+              <p className="text-gray-300 mt-1">{FAILURE_EXPLANATIONS[type].cause}</p>
+              <p className="text-gray-400 mt-1">Fix: {FAILURE_EXPLANATIONS[type].fix}</p>
+            </div>
+          ))}
+          {capture.lastError && (
+            <p className="text-xs text-gray-500 break-words">
+              Latest error ({formatTime(capture.lastCaptureAt)}): {capture.lastError}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Model answers outside the vocabulary, which make classifications fail */}
+      {health.outOfVocabulary.length > 0 && (
+        <Card className="bg-gray-900 border-gray-800 mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Values outside the vocabulary</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm space-y-1">
+            <p className="text-gray-400 mb-2">
+              The model answered these values, which no field accepts, so those classifications were retried or stored as unclassified.
+            </p>
+            {health.outOfVocabulary.map(({ field, value, count }) => (
+              <div key={`${field}:${value}`} className="flex justify-between">
+                <span className="text-gray-300">
+                  {field.replace(/_/g, ' ')}: <span className="text-white">{value}</span>
+                </span>
+                <span className="text-gray-400">{count}×</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
+
+export default Diagnostics
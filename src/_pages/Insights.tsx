@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react'
-import { ViewType, ProductivityInsights, ProductivityStats } from '../types/navigation'
+import { ViewType, ProductivityInsights, ProductivityStats, ProjectTime } from '../types/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Loader } from '../components/ui/loader'
@@ -8,10 +8,14 @@ interface InsightsProps {
   setView: React.Dispatch<React.SetStateAction<ViewType>>
 }
 
+const formatMinutes = (minutes: number): string =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`
+
 const Insights: React.FC<InsightsProps> = ({ setView }) => {
   const [loading, setLoading] = useState(false)
   const [insights, setInsights] = useState<ProductivityInsights | null>(null)
   const [stats, setStats] = useState<ProductivityStats | null>(null)
+  const [projectTime, setProjectTime] = useState<ProjectTime[]>([])
   const [error, setError] = useState<string | null>(null)
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0])
   const [activeTab, setActiveTab] = useState<'summary' | 'narrative' | 'patterns' | 'recommendations'>('summary')
@@ -34,6 +38,10 @@ const Insights: React.FC<InsightsProps> = ({ setView }) => {
       console.error('Error loading stats:', err)
       setError('Failed to connect to productivity tracking service')
     }
+
+    // Goals are optional, so a failure here only hides the projects card
+    const projects = await window.electronAPI.getProjectTime(selectedDate)
+    setProjectTime(projects.success && projects.data ? projects.data : [])
   }
 
   const generateInsights = async () => {
@@ -85,18 +93,32 @@ const Insights: React.FC<InsightsProps> = ({ setView }) => {
     return contentMap[activeTab]
   }
 
+  // Unclassified and private captures can't feed insights, so they don't count toward the minimum
+  const classifiedRecords = stats
+    ? stats.totalRecords - (stats.unclassifiedRecords || 0) - (stats.privateRecords || 0)
+    : 0
+
   return (
     <div className="p-6 bg-black text-white min-h-screen">
       {/* Header */}
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Productivity Insights</h1>
-        <Button
-          variant="ghost"
-          onClick={() => setView('queue')}
-          className="text-sm text-gray-400 hover:text-white px-2 py-1"
-        >
-          ← Back to Queue
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            variant="ghost"
+            onClick={() => setView('activity')}
+            className="text-sm text-gray-400 hover:text-white px-2 py-1"
+          >
+            Activity Log
+          </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setView('queue')}
+            className="text-sm text-gray-400 hover:text-white px-2 py-1"
+          >
+            ← Back to Queue
+          </Button>
+        </div>
       </div>
 
       {/* Date Selector and Generate Button */}
@@ -110,7 +132,7 @@ const Insights: React.FC<InsightsProps> = ({ setView }) => {
         />
         <Button
           onClick={generateInsights}
-          disabled={loading || !stats || stats.totalRecords < 5}
+          disabled={loading || !stats || classifiedRecords < 5}
           variant="default"
           className="flex items-center gap-2"
         >
@@ -151,11 +173,51 @@ const Insights: React.FC<InsightsProps> = ({ setView }) => {
             <CardContent className="p-4">
               <div className="text-xs text-gray-400 uppercase tracking-wide">Data Points</div>
               <div className="text-2xl font-bold mt-1">{stats.totalRecords}</div>
+              {stats.unclassifiedRecords > 0 && (
+                <div className="text-xs text-gray-500 mt-1">{stats.unclassifiedRecords} unclassified</div>
+              )}
+              {stats.privateRecords > 0 && (
+                <div className="text-xs text-gray-500 mt-1">{stats.privateRecords} private</div>
+              )}
             </CardContent>
           </Card>
         </div>
       )}
 
+      {/* Time per project against each goal's daily target */}
+      {projectTime.length > 0 && (
+        <Card className="bg-gray-900 border-gray-800 mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Time per Project</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {projectTime.map((project) => {
+              const target = project.daily_target_minutes
+              const progress = target ? Math.min(100, Math.round((project.minutes / target) * 100)) : null
+              return (
+                <div key={project.goal_id}>
+                  <div className="flex justify-between text-sm">
+                    <span className={project.active ? 'text-gray-200' : 'text-gray-500'}>{project.name}</span>
+                    <span className="text-gray-400">
+                      {formatMinutes(project.minutes)}
+                      {target ? ` of ${formatMinutes(target)}` : ''}
+                    </span>
+                  </div>
+                  {progress !== null && (
+                    <div className="h-1.5 bg-gray-800 rounded mt-1">
+                      <div
+                        className={`h-1.5 rounded ${progress >= 100 ? 'bg-green-500' : 'bg-blue-500'}`}
+                        style={{ width: `${progress}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Error or Minimum Data Warning */}
       {error && (
         <Card className="bg-red-900/20 border-red-800 mb-6">
@@ -165,15 +227,22 @@ const Insights: React.FC<InsightsProps> = ({ setView }) => {
         </Card>
       )}
 
-      {stats && stats.totalRecords < 5 && !error && (
+      {stats && classifiedRecords < 5 && !error && (
         <Card className="bg-yellow-900/20 border-yellow-800 mb-6">
           <CardContent className="p-4">
             <p className="text-yellow-400">
-              Need at least 5 activities to generate insights. Current: {stats.totalRecords}
+              Need at least 5 classified activities to generate insights. Current: {classifiedRecords}
             </p>
             <p className="text-yellow-400/70 text-sm mt-2">
               The tracker takes a screenshot every 45 seconds while you work.
             </p>
+            <Button
+              variant="ghost"
+              onClick={() => setView('diagnostics')}
+              className="text-sm text-yellow-400 hover:text-white px-0 mt-2"
+            >
+              Why is there so little data? →
+            </Button>
           </CardContent>
         </Card>
       )}
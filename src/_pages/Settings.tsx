@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Settings as SettingsType, SettingsPatch, ViewType } from '../types/navigation'
+import { Button } from '../components/ui/button'
+import { Loader } from '../components/ui/loader'
+import CaptureSection from '../components/Settings/CaptureSection'
+import ModelSection from '../components/Settings/ModelSection'
+import StorageSection from '../components/Settings/StorageSection'
+import PrivacySection from '../components/Settings/PrivacySection'
+import ShortcutsSection from '../components/Settings/ShortcutsSection'
+import GoalsSection from '../components/Settings/GoalsSection'
+
+interface SettingsProps {
+  setView: React.Dispatch<React.SetStateAction<ViewType>>
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+// Same merge as SettingsHelper.update: nested objects merge, the rest is replaced
+const applyPatch = (base: any, patch: any): any => {
+  if (!isObject(base) || !isObject(patch)) return patch === undefined ? base : patch
+  const result: Record<string, any> = { ...base }
+  for (const [key, value] of Object.entries(patch)) {
+    result[key] = applyPatch(base[key], value)
+  }
+  return result
+}
+
+/**
+ * Quick checks so mistakes show up before saving. The main process
+ * validates everything again.
+ */
+const validate = (settings: SettingsType): string[] => {
+  const errors: string[] = []
+  const { schedule, idleThresholdSeconds } = settings.capture
+  const { storage, models } = settings
+  const isPositive = (value: number) => Number.isFinite(value) && value > 0
+
+  if (![schedule.frameIntervalMs, schedule.minIntervalMs, schedule.maxIntervalMs].every(isPositive)) {
+    errors.push('Capture intervals must be positive numbers.')
+  } else if (schedule.minIntervalMs > schedule.maxIntervalMs) {
+    errors.push('The shortest capture interval must not exceed the longest.')
+  }
+  if (!Number.isFinite(schedule.changeThreshold) || schedule.changeThreshold < 1 || schedule.changeThreshold > 64) {
+    errors.push('Change sensitivity must be between 1 and 64.')
+  }
+  if (!Number.isFinite(idleThresholdSeconds) || idleThresholdSeconds < 30) {
+    errors.push('The idle time must be at least 30 seconds.')
+  }
+
+  if (storage.backend === 'supabase' && (!storage.supabaseUrl || !storage.supabaseAnonKey)) {
+    errors.push('Supabase needs a URL and an anon key.')
+  }
+  if (storage.retentionDays !== null && !(storage.retentionDays >= 1)) {
+    errors.push('Records must be kept for at least one day.')
+  }
+
+  const providers = new Set(
+    Object.values(models.tasks).map((task) => task.provider || models.provider)
+  )
+  if (providers.has('gemini') && !models.geminiApiKey) {
+    errors.push('Gemini needs an API key.')
+  }
+  if (providers.has('openai') && !models.openaiApiKey && !models.openaiBaseUrl) {
+    errors.push('OpenAI needs an API key, or a base URL for a compatible server.')
+  }
+  const { temperature, topP, topK, maxOutputTokens } = models.generation
+  if (!(temperature >= 0 && temperature <= 2) || !(topP >= 0 && topP <= 1) || !(topK >= 1) || !(maxOutputTokens >= 1)) {
+    errors.push('Generation parameters are out of range.')
+  }
+  if (!(settings.analysis.minGapMinutes >= 1)) {
+    errors.push('Breaks must be at least one minute to count as gaps.')
+  }
+
+  const accelerators = Object.values(settings.shortcuts)
+    .filter((accelerator): accelerator is string => accelerator !== null)
+    .map((accelerator) => accelerator.toLowerCase())
+  if (new Set(accelerators).size !== accelerators.length) {
+    errors.push('Each shortcut can only be used for one action.')
+  }
+
+  return errors
+}
+
+const Settings: React.FC<SettingsProps> = ({ setView }) => {
+  const [saved, setSaved] = useState<SettingsType | null>(null)
+  const [draft, setDraft] = useState<SettingsType | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const savedRef = useRef<SettingsType | null>(null)
+  savedRef.current = saved
+
+  useEffect(() => {
+    window.electronAPI.getSettings().then((result) => {
+      setSaved(result.data)
+      setDraft(result.data)
+    })
+    // Saved elsewhere, e.g. a reset; unsaved edits are kept
+    return window.electronAPI.onSettingsChanged((settings) => {
+      setDraft((current) =>
+        JSON.stringify(current) === JSON.stringify(savedRef.current) ? settings : current
+      )
+      setSaved(settings)
+    })
+  }, [])
+
+  if (!saved || !draft) {
+    return (
+      <div className="p-6 bg-black text-white min-h-screen">
+        <Loader className="h-8 w-8 mx-auto" />
+      </div>
+    )
+  }
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(saved)
+  const errors = validate(draft)
+
+  const handleChange = (patch: SettingsPatch) => {
+    setDraft((current) => applyPatch(current, patch))
+  }
+
+  const handleSave = async () => {
+    if (errors.length > 0) return
+    setSaving(true)
+    const { version, ...patch } = draft
+    const result = await window.electronAPI.updateSettings(patch)
+    setSaving(false)
+    if (result.success && result.data) {
+      setSaved(result.data)
+      setDraft(result.data)
+      setSaveError(null)
+    } else {
+      setSaveError(result.error || 'Failed to save settings')
+    }
+  }
+
+  const handleReset = async () => {
+    if (!window.confirm('Reset all settings to their defaults? API keys will be cleared.')) return
+    const result = await window.electronAPI.resetSettings()
+    if (result.success && result.data) {
+      setSaved(result.data)
+      setDraft(result.data)
+      setSaveError(null)
+    } else {
+      setSaveError(result.error || 'Failed to reset settings')
+    }
+  }
+
+  return (
+    <div className="p-6 bg-black text-white min-h-screen">
+      {/* Header */}
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold">Settings</h1>
+        <Button
+          variant="ghost"
+          onClick={() => setView('queue')}
+          className="text-sm text-gray-400 hover:text-white px-2 py-1"
+        >
+          ← Back
+        </Button>
+      </div>
+
+      <CaptureSection settings={draft} onChange={handleChange} />
+      <ModelSection settings={draft} onChange={handleChange} />
+      <StorageSection settings={draft} onChange={handleChange} />
+      <PrivacySection settings={draft} onChange={handleChange} />
+      <GoalsSection />
+      <ShortcutsSection settings={draft} onChange={handleChange} />
+
+      <Button
+        variant="ghost"
+        onClick={handleReset}
+        className="text-xs text-gray-500 hover:text-red-400 mb-16"
+      >
+        Reset to defaults
+      </Button>
+
+      {/* Unsaved changes */}
+      {isDirty && (
+        <div className="fixed bottom-0 left-0 right-0 bg-gray-900 border-t border-gray-800 px-6 py-3 flex items-center gap-4">
+          <div className="flex-1 text-sm">
+            {errors.length > 0 ? (
+              errors.map((error) => <p key={error} className="text-red-400">{error}</p>)
+            ) : saveError ? (
+              <p className="text-red-400">{saveError}</p>
+            ) : (
+              <p className="text-gray-300">Unsaved changes</p>
+            )}
+          </div>
+          <Button variant="ghost" onClick={() => setDraft(saved)} className="text-sm text-gray-400 hover:text-white">
+            Discard
+          </Button>
+          <Button onClick={handleSave} disabled={saving || errors.length > 0} className="text-sm">
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Settings
@@ -1,11 +1,73 @@
 import React, { useState, useEffect, useRef } from "react"
 import { IoLogOutOutline } from "react-icons/io5"
+import { ShortcutAction, ShortcutStatus } from "../../types/navigation"
+import { normalizeAccelerator } from "../../../electron/AcceleratorFormat"
 
 interface QueueCommandsProps {
   onTooltipVisibilityChange: (visible: boolean, height: number) => void
   screenshots: Array<{ path: string; preview: string }>
 }
 
+const isMac = navigator.platform.toUpperCase().includes("MAC")
+
+// Modifiers are shown in the order OS menus list them
+const MODIFIER_ORDER = ["control", "alt", "shift", "command", "super", "meta"]
+const KEY_SYMBOLS: Record<string, string> = {
+  command: "⌘",
+  control: isMac ? "⌃" : "Ctrl",
+  alt: isMac ? "⌥" : "Alt",
+  shift: "⇧",
+  super: "Super",
+  meta: "Super",
+  return: "↵",
+  up: "↑",
+  down: "↓",
+  left: "←",
+  right: "→"
+}
+
+/**
+ * Key caps for an accelerator, e.g. ["⇧", "⌘", "P"]
+ */
+const toKeyCaps = (accelerator: string): string[] => {
+  const parts = normalizeAccelerator(accelerator, isMac).split("+")
+  const key = parts.pop() || ""
+  return [...parts.sort((a, b) => MODIFIER_ORDER.indexOf(a) - MODIFIER_ORDER.indexOf(b)), key].map(
+    (part) => KEY_SYMBOLS[part] || part.charAt(0).toUpperCase() + part.slice(1)
+  )
+}
+
+/**
+ * The keys currently bound to an action, as registered by the main process
+ */
+const KeyCaps: React.FC<{ status?: ShortcutStatus; bar?: boolean }> = ({ status, bar }) => {
+  const capClass = bar
+    ? "bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[11px] leading-none text-white/70"
+    : "bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none"
+
+  if (!status?.accelerator) {
+    return <span className="text-[10px] leading-none text-white/50 flex-shrink-0">Not set</span>
+  }
+  return (
+    <div
+      className={`flex gap-1 flex-shrink-0 ${status.registered ? "" : "opacity-50 line-through"}`}
+      title={status.error || undefined}
+    >
+      {toKeyCaps(status.accelerator).map((cap, i) =>
+        bar ? (
+          <button key={i} className={capClass}>
+            {cap}
+          </button>
+        ) : (
+          <span key={i} className={capClass}>
+            {cap}
+          </span>
+        )
+      )}
+    </div>
+  )
+}
+
 const QueueCommands: React.FC<QueueCommandsProps> = ({
   onTooltipVisibilityChange,
   screenshots
@@ -16,6 +78,17 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
   const [mediaRecorder, setMediaRecorder] = useState<MediaRecorder | null>(null)
   const [audioResult, setAudioResult] = useState<string | null>(null)
   const chunks = useRef<Blob[]>([])
+  const [shortcuts, setShortcuts] = useState<Partial<Record<ShortcutAction, ShortcutStatus>>>({})
+
+  // Hints follow the bindings in settings, refreshed after each save
+  useEffect(() => {
+    const load = () =>
+      window.electronAPI.getShortcuts().then((result) => {
+        setShortcuts(Object.fromEntries(result.data.map((status) => [status.action, status])))
+      })
+    load()
+    return window.electronAPI.onSettingsChanged(load)
+  }, [])
 
   useEffect(() => {
     let tooltipHeight = 0
@@ -75,14 +148,7 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
         {/* Show/Hide */}
         <div className="flex items-center gap-2">
           <span className="text-[11px] leading-none">Show/Hide</span>
-          <div className="flex gap-1">
-            <button className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[11px] leading-none text-white/70">
-              ⌘
-            </button>
-            <button className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[11px] leading-none text-white/70">
-              B
-            </button>
-          </div>
+          <KeyCaps status={shortcuts.toggleWindow} bar />
         </div>
 
         {/* Screenshot */}
@@ -90,28 +156,14 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
           <span className="text-[11px] leading-none truncate">
             {screenshots.length === 0 ? "Take first screenshot" : "Screenshot"}
           </span>
-          <div className="flex gap-1">
-            <button className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[11px] leading-none text-white/70">
-              ⌘
-            </button>
-            <button className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[11px] leading-none text-white/70">
-              H
-            </button>
-          </div>
+          <KeyCaps status={shortcuts.takeScreenshot} bar />
         </div>
 
         {/* Solve Command */}
         {screenshots.length > 0 && (
           <div className="flex items-center gap-2">
             <span className="text-[11px] leading-none">Solve</span>
-            <div className="flex gap-1">
-              <button className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[11px] leading-none text-white/70">
-                ⌘
-              </button>
-              <button className="bg-white/10 hover:bg-white/20 transition-colors rounded-md px-1.5 py-1 text-[11px] leading-none text-white/70">
-                ↵
-              </button>
-            </div>
+            <KeyCaps status={shortcuts.processScreenshots} bar />
           </div>
         )}
 
@@ -154,14 +206,7 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
                     <div className="space-y-1">
                       <div className="flex items-center justify-between">
                         <span className="truncate">Toggle Window</span>
-                        <div className="flex gap-1 flex-shrink-0">
-                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
-                            ⌘
-                          </span>
-                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
-                            B
-                          </span>
-                        </div>
+                        <KeyCaps status={shortcuts.toggleWindow} />
                       </div>
                       <p className="text-[10px] leading-relaxed text-white/70 truncate">
                         Show or hide this window.
@@ -171,14 +216,7 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
                     <div className="space-y-1">
                       <div className="flex items-center justify-between">
                         <span className="truncate">Take Screenshot</span>
-                        <div className="flex gap-1 flex-shrink-0">
-                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
-                            ⌘
-                          </span>
-                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
-                            H
-                          </span>
-                        </div>
+                        <KeyCaps status={shortcuts.takeScreenshot} />
                       </div>
                       <p className="text-[10px] leading-relaxed text-white/70 truncate">
                         Take a screenshot of the problem description. The tool
@@ -191,19 +229,23 @@ const QueueCommands: React.FC<QueueCommandsProps> = ({
                     <div className="space-y-1">
                       <div className="flex items-center justify-between">
                         <span className="truncate">Solve Problem</span>
-                        <div className="flex gap-1 flex-shrink-0">
-                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
-                            ⌘
-                          </span>
-                          <span className="bg-white/10 px-1.5 py-0.5 rounded text-[10px] leading-none">
-                            ↵
-                          </span>
-                        </div>
+                        <KeyCaps status={shortcuts.processScreenshots} />
                       </div>
                       <p className="text-[10px] leading-relaxed text-white/70 truncate">
                         Generate a solution based on the current problem.
                       </p>
                     </div>
+
+                    {/* Pause Tracking Command */}
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="truncate">Pause Tracking</span>
+                        <KeyCaps status={shortcuts.toggleTrackingPause} />
+                      </div>
+                      <p className="text-[10px] leading-relaxed text-white/70 truncate">
+                        Pause productivity tracking for 30 minutes, or resume it.
+                      </p>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from "react"
+import { TrackingStatus } from "../../types/navigation"
+
+const PAUSE_OPTIONS: Array<{ label: string; minutes: number | null }> = [
+  { label: "15m", minutes: 15 },
+  { label: "30m", minutes: 30 },
+  { label: "1h", minutes: 60 },
+  { label: "Until resumed", minutes: null }
+]
+
+const describeStatus = (status: TrackingStatus): string => {
+  switch (status.state) {
+    case "active":
+      return "Tracking active"
+    case "paused":
+      return status.pausedUntil
+        ? `Paused until ${new Date(status.pausedUntil).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+        : "Paused"
+    case "off_schedule":
+      return "Outside working hours"
+    case "away":
+      return "Away"
+    case "stopped":
+      return "Tracking stopped"
+  }
+}
+
+const TrackingControls: React.FC = () => {
+  const [status, setStatus] = useState<TrackingStatus | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.getTrackingStatus().then((result) => setStatus(result.data))
+    return window.electronAPI.onTrackingStatusChanged(setStatus)
+  }, [])
+
+  const handlePause = async (minutes: number | null) => {
+    const result = await window.electronAPI.pauseTracking(minutes)
+    setError(result.success ? null : result.error || "Failed to pause tracking")
+    if (result.data) setStatus(result.data)
+  }
+
+  const handleResume = async () => {
+    const result = await window.electronAPI.resumeTracking()
+    setError(null)
+    setStatus(result.data)
+  }
+
+  const handleFocusBlock = async () => {
+    const result = status?.focusBlock
+      ? await window.electronAPI.stopFocusBlock()
+      : await window.electronAPI.startFocusBlock(null)
+    setStatus(result.data)
+  }
+
+  if (!status) return null
+
+  const buttonClass =
+    "bg-white/10 hover:bg-white/20 transition-colors rounded-md px-2 py-1 text-[11px] leading-none text-white/70"
+
+  return (
+    <div className="text-xs text-white/90 backdrop-blur-md bg-black/60 rounded-lg py-2 px-4 flex items-center gap-3 w-fit">
+      <span
+        className={`w-2 h-2 rounded-full ${
+          status.state === "active" ? "bg-green-400" : status.state === "stopped" ? "bg-red-400" : "bg-yellow-400"
+        }`}
+      />
+      <span className="text-[11px] leading-none">{describeStatus(status)}</span>
+
+      {status.state === "paused" ? (
+        <button className={buttonClass} onClick={handleResume} type="button">
+          Resume
+        </button>
+      ) : (
+        status.state !== "stopped" && (
+          <div className="flex items-center gap-1">
+            <span className="text-[11px] leading-none text-white/50">Pause</span>
+            {PAUSE_OPTIONS.map((option) => (
+              <button
+                key={option.label}
+                className={buttonClass}
+                onClick={() => handlePause(option.minutes)}
+                type="button"
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        )
+      )}
+
+      <button className={buttonClass} onClick={handleFocusBlock} type="button">
+        {status.focusBlock
+          ? `End focus block (since ${new Date(status.focusBlock.startedAt).toLocaleTimeString([], {
+            hour: "2-digit",
+            minute: "2-digit"
+          })})`
+          : "Start focus block"}
+      </button>
+
+      {error && <span className="text-[11px] leading-none text-red-400">{error}</span>}
+    </div>
+  )
+}
+
+export default TrackingControls
@@ -0,0 +1,88 @@
+import React from "react"
+import { Field, NumberField, SectionProps, SelectField, SettingsSection } from "./fields"
+import WorkingHoursEditor from "./WorkingHoursEditor"
+import ExclusionsEditor from "./ExclusionsEditor"
+
+const CaptureSection: React.FC<SectionProps> = ({ settings, onChange }) => {
+  const { schedule } = settings.capture
+  const setSchedule = (changes: Partial<typeof schedule>) => onChange({ capture: { schedule: changes } })
+
+  return (
+    <SettingsSection
+      title="Capture"
+      description="How often the screen is checked and captured. Changes restart capture right away."
+    >
+      <div className="grid grid-cols-2 gap-4">
+        <Field label="Check for changes every">
+          <NumberField
+            value={schedule.frameIntervalMs}
+            onChange={(frameIntervalMs) => setSchedule({ frameIntervalMs })}
+            min={1}
+            scale={1000}
+            unit="seconds"
+          />
+        </Field>
+        <Field label="Change sensitivity" hint="Lower captures on smaller changes (1-64)">
+          <NumberField
+            value={schedule.changeThreshold}
+            onChange={(changeThreshold) => setSchedule({ changeThreshold })}
+            min={1}
+            max={64}
+          />
+        </Field>
+        <Field label="Capture at most every">
+          <NumberField
+            value={schedule.minIntervalMs}
+            onChange={(minIntervalMs) => setSchedule({ minIntervalMs })}
+            min={1}
+            scale={1000}
+            unit="seconds"
+          />
+        </Field>
+        <Field label="Capture at least every" hint="Even when nothing changed">
+          <NumberField
+            value={schedule.maxIntervalMs}
+            onChange={(maxIntervalMs) => setSchedule({ maxIntervalMs })}
+            min={1}
+            scale={60000}
+            unit="minutes"
+          />
+        </Field>
+        <Field label="Pause when idle for">
+          <NumberField
+            value={settings.capture.idleThresholdSeconds}
+            onChange={(idleThresholdSeconds) => onChange({ capture: { idleThresholdSeconds } })}
+            min={1}
+            scale={60}
+            unit="minutes"
+          />
+        </Field>
+        <Field label="Multiple displays">
+          <SelectField
+            value={settings.capture.multiDisplayStrategy}
+            options={[
+              { value: "focused", label: "Capture the display under the cursor" },
+              { value: "combined", label: "Capture all displays together" }
+            ]}
+            onChange={(multiDisplayStrategy) => onChange({ capture: { multiDisplayStrategy } })}
+          />
+        </Field>
+      </div>
+
+      <div className="border-t border-gray-800 pt-4">
+        <h3 className="font-medium mb-2">Working hours</h3>
+        <WorkingHoursEditor />
+      </div>
+
+      <div className="border-t border-gray-800 pt-4">
+        <h3 className="font-medium mb-1">Excluded apps and sites</h3>
+        <p className="text-xs text-gray-400 mb-2">
+          Never captured; only the time spent is recorded. Every filled-in field must match.
+        </p>
+        <ExclusionsEditor />
+      </div>
+    </SettingsSection>
+  )
+}
+
+export default CaptureSection
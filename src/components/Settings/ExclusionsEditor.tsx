@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from "react"
+import { ExclusionEntry } from "../../types/navigation"
+import { SaveRow, inputClass } from "./fields"
+
+const COLUMNS: Array<{ key: keyof ExclusionEntry; placeholder: string }> = [
+  { key: "label", placeholder: "Name" },
+  { key: "window_class", placeholder: "App (window class)" },
+  { key: "window_title", placeholder: "Window title contains" },
+  { key: "domain", placeholder: "Site domain" }
+]
+
+/**
+ * Apps and sites that are never captured, saved on their own through the
+ * exclusions IPC
+ */
+const ExclusionsEditor: React.FC = () => {
+  const [entries, setEntries] = useState<ExclusionEntry[] | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.getExclusions().then((result) => {
+      setEntries(result.data ?? [])
+      if (!result.success) setError(result.error || "Failed to load exclusions")
+    })
+  }, [])
+
+  if (!entries) return null
+
+  const updateEntry = (index: number, key: keyof ExclusionEntry, value: string) => {
+    setEntries(entries.map((entry, i) => (i === index ? { ...entry, [key]: value || undefined } : entry)))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setSaved(false)
+    const result = await window.electronAPI.setExclusions(entries)
+    setSaving(false)
+    if (result.success && result.data) {
+      setEntries(result.data)
+      setError(null)
+      setSaved(true)
+    } else {
+      setError(result.error || "Failed to save exclusions")
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries.length === 0 && <p className="text-gray-400">Nothing is excluded.</p>}
+      {entries.map((entry, index) => (
+        <div key={index} className="flex gap-2">
+          {COLUMNS.map((column) => (
+            <input
+              key={column.key}
+              className={inputClass}
+              value={entry[column.key] ?? ""}
+              placeholder={column.placeholder}
+              onChange={(e) => updateEntry(index, column.key, e.target.value)}
+            />
+          ))}
+          <button
+            type="button"
+            className="text-gray-400 hover:text-red-400 px-2"
+            onClick={() => setEntries(entries.filter((_, i) => i !== index))}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="text-xs text-blue-400 hover:text-blue-300"
+        onClick={() => setEntries([...entries, {}])}
+      >
+        + Add exclusion
+      </button>
+      <SaveRow onSave={handleSave} saving={saving} error={error} saved={saved} label="Save exclusions" />
+    </div>
+  )
+}
+
+export default ExclusionsEditor
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from "react"
+import { Goal } from "../../types/navigation"
+import { SaveRow, SettingsSection, ToggleField, inputClass } from "./fields"
+
+type ListKey = "keywords" | "apps" | "repos"
+
+const LIST_COLUMNS: Array<{ key: ListKey; placeholder: string }> = [
+  { key: "keywords", placeholder: "Keywords, comma separated" },
+  { key: "apps", placeholder: "Apps, e.g. Figma, Code" },
+  { key: "repos", placeholder: "Repositories or folders" }
+]
+
+// Empty items are kept while typing and dropped when saved
+const toList = (text: string): string[] => text.split(",").map((item) => item.trim())
+
+const newGoal = (): Goal => ({ id: "", name: "", active: true, daily_target_minutes: null })
+
+/**
+ * Goals are saved on their own through the goals IPC. Active goals are
+ * given to the model, which then judges goal relevance against them and
+ * attributes each capture to one.
+ */
+const GoalsSection: React.FC = () => {
+  const [goals, setGoals] = useState<Goal[] | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.getGoals().then((result) => {
+      setGoals(result.data ?? [])
+      if (!result.success) setError(result.error || "Failed to load goals")
+    })
+  }, [])
+
+  if (!goals) return null
+
+  const updateGoal = (index: number, changes: Partial<Goal>) => {
+    setGoals(goals.map((goal, i) => (i === index ? { ...goal, ...changes } : goal)))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setSaved(false)
+    const result = await window.electronAPI.setGoals(goals)
+    setSaving(false)
+    if (result.success && result.data) {
+      setGoals(result.data)
+      setError(null)
+      setSaved(true)
+    } else {
+      setError(result.error || "Failed to save goals")
+    }
+  }
+
+  return (
+    <SettingsSection
+      title="Goals"
+      description="What you are working toward. Activity that advances an active goal counts as goal related and is reported as time on that project."
+    >
+      <div className="space-y-4">
+        {goals.length === 0 && <p className="text-gray-400">No goals yet; any work counts as goal related.</p>}
+        {goals.map((goal, index) => (
+          <div key={goal.id || `new-${index}`} className="space-y-2 border-b border-gray-800 pb-4">
+            <div className="flex gap-2">
+              <input
+                className={inputClass}
+                value={goal.name}
+                placeholder="Name"
+                onChange={(e) => updateGoal(index, { name: e.target.value })}
+              />
+              <input
+                className={`${inputClass} w-40`}
+                type="number"
+                min={1}
+                value={goal.daily_target_minutes ?? ""}
+                placeholder="Minutes per day"
+                onChange={(e) =>
+                  updateGoal(index, { daily_target_minutes: e.target.value === "" ? null : Number(e.target.value) })
+                }
+              />
+              <button
+                type="button"
+                className="text-gray-400 hover:text-red-400 px-2"
+                onClick={() => setGoals(goals.filter((_, i) => i !== index))}
+              >
+                ×
+              </button>
+            </div>
+            <input
+              className={inputClass}
+              value={goal.description ?? ""}
+              placeholder="Description"
+              onChange={(e) => updateGoal(index, { description: e.target.value || undefined })}
+            />
+            <div className="flex gap-2">
+              {LIST_COLUMNS.map((column) => (
+                <input
+                  key={column.key}
+                  className={inputClass}
+                  value={(goal[column.key] ?? []).join(", ")}
+                  placeholder={column.placeholder}
+                  onChange={(e) => updateGoal(index, { [column.key]: e.target.value ? toList(e.target.value) : undefined })}
+                />
+              ))}
+            </div>
+            <ToggleField
+              checked={goal.active}
+              onChange={(active) => updateGoal(index, { active })}
+              label="Active (inactive goals keep their past time but are not used for classification)"
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          className="text-xs text-blue-400 hover:text-blue-300"
+          onClick={() => setGoals([...goals, newGoal()])}
+        >
+          + Add goal
+        </button>
+        <SaveRow onSave={handleSave} saving={saving} error={error} saved={saved} label="Save goals" />
+      </div>
+    </SettingsSection>
+  )
+}
+
+export default GoalsSection
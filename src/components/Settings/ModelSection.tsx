@@ -0,0 +1,164 @@
+import React from "react"
+import { Settings } from "../../types/navigation"
+import { Field, NumberField, SectionProps, SelectField, SettingsSection, TextField } from "./fields"
+
+type ModelProviderName = Settings["models"]["provider"]
+type ModelTask = keyof Settings["models"]["tasks"]
+
+const PROVIDERS: Array<{ value: ModelProviderName; label: string }> = [
+  { value: "gemini", label: "Google Gemini" },
+  { value: "openai", label: "OpenAI or compatible" },
+  { value: "ollama", label: "Ollama (local)" },
+  { value: "mock", label: "Mock (testing)" }
+]
+
+const TASKS: Array<{ task: ModelTask; label: string }> = [
+  { task: "vision", label: "Screenshots" },
+  { task: "text", label: "Window titles and insights" },
+  { task: "audio", label: "Audio" }
+]
+
+const ModelSection: React.FC<SectionProps> = ({ settings, onChange }) => {
+  const { models, analysis } = settings
+  // Keys and URLs are only asked for when some task uses that provider
+  const used = new Set<ModelProviderName>(
+    TASKS.map(({ task }) => models.tasks[task].provider || models.provider)
+  )
+
+  return (
+    <SettingsSection
+      title="AI provider"
+      description="Which model classifies captures and writes insights. Changes apply to the next request."
+    >
+      <div className="grid grid-cols-2 gap-4">
+        <Field label="Provider">
+          <SelectField
+            value={models.provider}
+            options={PROVIDERS}
+            onChange={(provider) => onChange({ models: { provider } })}
+          />
+        </Field>
+        <Field label="Model">
+          <TextField
+            value={models.model}
+            onChange={(model) => onChange({ models: { model } })}
+            placeholder="Provider default"
+          />
+        </Field>
+
+        {used.has("gemini") && (
+          <Field label="Gemini API key">
+            <TextField
+              value={models.geminiApiKey}
+              onChange={(geminiApiKey) => onChange({ models: { geminiApiKey } })}
+              secret
+            />
+          </Field>
+        )}
+        {used.has("openai") && (
+          <>
+            <Field label="OpenAI API key">
+              <TextField
+                value={models.openaiApiKey}
+                onChange={(openaiApiKey) => onChange({ models: { openaiApiKey } })}
+                secret
+              />
+            </Field>
+            <Field label="OpenAI base URL" hint="For OpenAI-compatible servers">
+              <TextField
+                value={models.openaiBaseUrl}
+                onChange={(openaiBaseUrl) => onChange({ models: { openaiBaseUrl } })}
+                placeholder="https://api.openai.com/v1"
+              />
+            </Field>
+          </>
+        )}
+        {used.has("ollama") && (
+          <Field label="Ollama URL">
+            <TextField
+              value={models.ollamaBaseUrl}
+              onChange={(ollamaBaseUrl) => onChange({ models: { ollamaBaseUrl } })}
+              placeholder="http://localhost:11434"
+            />
+          </Field>
+        )}
+      </div>
+
+      <div className="border-t border-gray-800 pt-4">
+        <h3 className="font-medium mb-2">Per task</h3>
+        <div className="grid grid-cols-[10rem_1fr_1fr] gap-2 items-center">
+          {TASKS.map(({ task, label }) => (
+            <React.Fragment key={task}>
+              <span className="text-gray-300">{label}</span>
+              <SelectField<ModelProviderName | "">
+                value={models.tasks[task].provider ?? ""}
+                options={[{ value: "", label: "Same as above" }, ...PROVIDERS]}
+                onChange={(provider) => onChange({ models: { tasks: { [task]: { provider: provider || null } } } })}
+              />
+              <TextField
+                value={models.tasks[task].model}
+                onChange={(model) => onChange({ models: { tasks: { [task]: { model } } } })}
+                placeholder="Default model"
+              />
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+
+      <div className="border-t border-gray-800 pt-4 grid grid-cols-2 gap-4">
+        <Field label="Temperature" hint="Lower gives more consistent classifications (0-2)">
+          <NumberField
+            value={models.generation.temperature}
+            onChange={(temperature) => onChange({ models: { generation: { temperature } } })}
+            min={0}
+            max={2}
+            step={0.1}
+          />
+        </Field>
+        <Field label="Top P">
+          <NumberField
+            value={models.generation.topP}
+            onChange={(topP) => onChange({ models: { generation: { topP } } })}
+            min={0}
+            max={1}
+            step={0.05}
+          />
+        </Field>
+        <Field label="Top K">
+          <NumberField
+            value={models.generation.topK}
+            onChange={(topK) => onChange({ models: { generation: { topK } } })}
+            min={1}
+          />
+        </Field>
+        <Field label="Max output tokens">
+          <NumberField
+            value={models.generation.maxOutputTokens}
+            onChange={(maxOutputTokens) => onChange({ models: { generation: { maxOutputTokens } } })}
+            min={1}
+          />
+        </Field>
+        <Field label="Window-only captures">
+          <SelectField
+            value={settings.classification.windowClassifier}
+            options={[
+              { value: "llm", label: "Rules, then the model" },
+              { value: "rules", label: "Rules only, no model calls" }
+            ]}
+            onChange={(windowClassifier) => onChange({ classification: { windowClassifier } })}
+          />
+        </Field>
+        <Field label="Breaks count as gaps after">
+          <NumberField
+            value={analysis.minGapMinutes}
+            onChange={(minGapMinutes) => onChange({ analysis: { minGapMinutes } })}
+            min={1}
+            unit="minutes"
+          />
+        </Field>
+      </div>
+    </SettingsSection>
+  )
+}
+
+export default ModelSection
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from "react"
+import { PiiPattern, RedactionConfig } from "../../types/navigation"
+import { Field, SaveRow, SectionProps, SelectField, SettingsSection, ToggleField, inputClass } from "./fields"
+
+const PII_PATTERNS: Array<{ value: PiiPattern; label: string }> = [
+  { value: "email", label: "Email addresses" },
+  { value: "card", label: "Card numbers" },
+  { value: "token", label: "API keys and tokens" }
+]
+
+const toLines = (values: string[]): string => values.join("\n")
+const fromLines = (text: string): string[] => text.split("\n").map((line) => line.trim()).filter(Boolean)
+
+/**
+ * Redaction is saved on its own through the redaction config IPC
+ */
+const RedactionEditor: React.FC = () => {
+  const [config, setConfig] = useState<RedactionConfig | null>(null)
+  const [denylist, setDenylist] = useState("")
+  const [customPatterns, setCustomPatterns] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = (loaded: RedactionConfig) => {
+    setConfig(loaded)
+    setDenylist(toLines(loaded.windowDenylist))
+    setCustomPatterns(toLines(loaded.ocr.customPatterns))
+  }
+
+  useEffect(() => {
+    window.electronAPI.getRedactionConfig().then((result) => load(result.data))
+  }, [])
+
+  if (!config) return null
+
+  const togglePattern = (pattern: PiiPattern, enabled: boolean) => {
+    const patterns = enabled
+      ? [...config.ocr.patterns, pattern]
+      : config.ocr.patterns.filter((existing) => existing !== pattern)
+    setConfig({ ...config, ocr: { ...config.ocr, patterns } })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setSaved(false)
+    const result = await window.electronAPI.setRedactionConfig({
+      ...config,
+      windowDenylist: fromLines(denylist),
+      ocr: { ...config.ocr, customPatterns: fromLines(customPatterns) }
+    })
+    setSaving(false)
+    if (result.success && result.data) {
+      load(result.data)
+      setError(null)
+      setSaved(true)
+    } else {
+      setError(result.error || "Failed to save redaction settings")
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Field label="Black out windows matching" hint="One pattern per line, matched against app and window title">
+        <textarea className={inputClass} rows={4} value={denylist} onChange={(e) => setDenylist(e.target.value)} />
+      </Field>
+
+      <ToggleField
+        checked={config.ocr.enabled}
+        onChange={(enabled) => setConfig({ ...config, ocr: { ...config.ocr, enabled } })}
+        label="Blur sensitive text found on screen (runs locally)"
+      />
+      {config.ocr.enabled && (
+        <div className="space-y-2 pl-6">
+          {PII_PATTERNS.map((pattern) => (
+            <ToggleField
+              key={pattern.value}
+              checked={config.ocr.patterns.includes(pattern.value)}
+              onChange={(enabled) => togglePattern(pattern.value, enabled)}
+              label={pattern.label}
+            />
+          ))}
+          <Field label="Also blur text matching" hint="One regular expression per line">
+            <textarea
+              className={inputClass}
+              rows={3}
+              value={customPatterns}
+              onChange={(e) => setCustomPatterns(e.target.value)}
+            />
+          </Field>
+        </div>
+      )}
+
+      {config.regions.length > 0 && (
+        <p className="text-xs text-gray-500">
+          {config.regions.length} fixed screen regions are blacked out; edit them in redaction.json.
+        </p>
+      )}
+      <SaveRow onSave={handleSave} saving={saving} error={error} saved={saved} label="Save redaction" />
+    </div>
+  )
+}
+
+const PrivacySection: React.FC<SectionProps> = ({ settings, onChange }) => (
+  <SettingsSection
+    title="Privacy"
+    description="What leaves your screen. Screenshots are redacted before they are sent to the model."
+  >
+    <Field label="Capture">
+      <SelectField
+        value={settings.capture.mode}
+        options={[
+          { value: "screenshot", label: "Screenshots" },
+          { value: "window_metadata", label: "Window titles only, never screenshots (Linux/X11)" }
+        ]}
+        onChange={(mode) => onChange({ capture: { mode } })}
+      />
+    </Field>
+
+    <div className="border-t border-gray-800 pt-4">
+      <RedactionEditor />
+    </div>
+  </SettingsSection>
+)
+
+export default PrivacySection
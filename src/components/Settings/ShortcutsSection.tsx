@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from "react"
+import { ShortcutAction, ShortcutStatus } from "../../types/navigation"
+import { SectionProps, SettingsSection } from "./fields"
+import { normalizeAccelerator } from "../../../electron/AcceleratorFormat"
+
+const isMac = navigator.platform.toUpperCase().includes("MAC")
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: "Up",
+  ArrowDown: "Down",
+  ArrowLeft: "Left",
+  ArrowRight: "Right",
+  Enter: "Return",
+  " ": "Space",
+  "+": "Plus"
+}
+
+/**
+ * Electron accelerator for a key press, or null while only modifiers are held
+ */
+const toAccelerator = (e: KeyboardEvent): string | null => {
+  if (["Control", "Shift", "Alt", "Meta", "AltGraph"].includes(e.key)) return null
+
+  let key = KEY_NAMES[e.key] || e.key
+  // Letters and digits by position, so Shift and Alt don't change the key
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3)
+  else if (/^Digit\d$/.test(e.code)) key = e.code.slice(5)
+  else if (key.length === 1) key = key.toUpperCase()
+
+  const modifiers = [
+    e.ctrlKey && "Control",
+    e.metaKey && (isMac ? "Command" : "Super"),
+    e.altKey && "Alt",
+    e.shiftKey && "Shift"
+  ].filter(Boolean)
+  return [...modifiers, key].join("+")
+}
+
+const formatAccelerator = (accelerator: string): string =>
+  accelerator
+    .replace(/CommandOrControl|CmdOrCtrl/, isMac ? "⌘" : "Ctrl")
+    .replace("Command", "⌘")
+    .replace("Control", "Ctrl")
+    .split("+")
+    .join(" + ")
+
+// Same comparison the main process uses, aliases such as CommandOrControl included
+const sameAccelerator = (a: string, b: string): boolean =>
+  normalizeAccelerator(a, isMac) === normalizeAccelerator(b, isMac)
+
+/**
+ * Global shortcuts, edited in the unsaved settings. Registration results
+ * come from the main process and refresh after each save.
+ */
+const ShortcutsSection: React.FC<SectionProps> = ({ settings, onChange }) => {
+  const [statuses, setStatuses] = useState<ShortcutStatus[]>([])
+  const [recording, setRecording] = useState<ShortcutAction | null>(null)
+
+  useEffect(() => {
+    window.electronAPI.getShortcuts().then((result) => setStatuses(result.data))
+    return window.electronAPI.onSettingsChanged(() => {
+      window.electronAPI.getShortcuts().then((result) => setStatuses(result.data))
+    })
+  }, [])
+
+  // Global shortcuts are released while recording so the keys reach this window
+  useEffect(() => {
+    if (!recording) return
+    window.electronAPI.setShortcutsSuspended(true)
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      if (e.key === "Escape" && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+        setRecording(null)
+        return
+      }
+      const accelerator = toAccelerator(e)
+      if (!accelerator) return
+      onChange({ shortcuts: { [recording]: accelerator } })
+      setRecording(null)
+    }
+
+    window.addEventListener("keydown", handleKeyDown, true)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true)
+      window.electronAPI.setShortcutsSuspended(false).then((result) => setStatuses(result.data))
+    }
+  }, [recording])
+
+  const setBinding = (action: ShortcutAction, accelerator: string | null) =>
+    onChange({ shortcuts: { [action]: accelerator } })
+
+  return (
+    <SettingsSection
+      title="Shortcuts"
+      description="Global shortcuts, available while the app runs in the background. Changes apply when saved."
+    >
+      <div className="space-y-2">
+        {statuses.map((status) => {
+          const accelerator = settings.shortcuts[status.action]
+          const duplicate =
+            accelerator &&
+            statuses.find(
+              (other) =>
+                other.action !== status.action &&
+                settings.shortcuts[other.action] &&
+                sameAccelerator(accelerator, settings.shortcuts[other.action]!)
+            )
+          // Registration results describe the saved binding only
+          const saved = accelerator === status.accelerator
+          const isRecording = recording === status.action
+
+          return (
+            <div key={status.action} className="flex items-center gap-3">
+              <span className="flex-1 text-gray-300">{status.label}</span>
+              <div className="w-64">
+                <span
+                  className={`font-mono text-xs rounded px-2 py-1 ${
+                    isRecording ? "bg-blue-900 text-blue-200" : "bg-gray-800"
+                  }`}
+                >
+                  {isRecording ? "Press keys… (Esc to cancel)" : accelerator ? formatAccelerator(accelerator) : "Disabled"}
+                </span>
+                {duplicate && <p className="text-xs text-red-400 mt-1">Also used for “{duplicate.label}”</p>}
+                {!duplicate && saved && status.error && (
+                  <p className="text-xs text-yellow-400 mt-1">{status.error}</p>
+                )}
+              </div>
+              <button
+                type="button"
+                className="text-xs text-blue-400 hover:text-blue-300"
+                onClick={() => setRecording(isRecording ? null : status.action)}
+              >
+                {isRecording ? "Cancel" : "Change"}
+              </button>
+              <button
+                type="button"
+                className="text-xs text-gray-400 hover:text-white disabled:opacity-30"
+                disabled={accelerator === status.defaultAccelerator}
+                onClick={() => setBinding(status.action, status.defaultAccelerator)}
+              >
+                Default
+              </button>
+              <button
+                type="button"
+                className="text-xs text-gray-400 hover:text-red-400 disabled:opacity-30"
+                disabled={accelerator === null}
+                onClick={() => setBinding(status.action, null)}
+              >
+                Disable
+              </button>
+            </div>
+          )
+        })}
+      </div>
+    </SettingsSection>
+  )
+}
+
+export default ShortcutsSection
@@ -0,0 +1,76 @@
+import React from "react"
+import { Field, NumberField, SectionProps, SelectField, SettingsSection, TextField, ToggleField } from "./fields"
+
+const DEFAULT_RETENTION_DAYS = 90
+
+const StorageSection: React.FC<SectionProps> = ({ settings, onChange }) => {
+  const { storage } = settings
+
+  return (
+    <SettingsSection
+      title="Storage"
+      description="Where activity records are kept. Switching backends reconnects right away; existing records are not copied."
+    >
+      <Field label="Backend">
+        <SelectField
+          value={storage.backend}
+          options={[
+            { value: "sqlite", label: "Local database (SQLite)" },
+            { value: "supabase", label: "Supabase" }
+          ]}
+          onChange={(backend) => onChange({ storage: { backend } })}
+        />
+      </Field>
+
+      {storage.backend === "sqlite" ? (
+        <Field label="Database file">
+          <TextField
+            value={storage.sqlitePath}
+            onChange={(sqlitePath) => onChange({ storage: { sqlitePath } })}
+            placeholder="activity.db in the app data folder"
+          />
+        </Field>
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          <Field
+            label="Supabase URL"
+            hint="Run supabase/migrations/20260301000000_activity_tracking.sql in the project's SQL editor first."
+          >
+            <TextField
+              value={storage.supabaseUrl}
+              onChange={(supabaseUrl) => onChange({ storage: { supabaseUrl } })}
+              placeholder="https://your-project.supabase.co"
+            />
+          </Field>
+          <Field label="Supabase anon key">
+            <TextField
+              value={storage.supabaseAnonKey}
+              onChange={(supabaseAnonKey) => onChange({ storage: { supabaseAnonKey } })}
+              secret
+            />
+          </Field>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <ToggleField
+          checked={storage.retentionDays !== null}
+          onChange={(enabled) => onChange({ storage: { retentionDays: enabled ? DEFAULT_RETENTION_DAYS : null } })}
+          label="Delete old records"
+        />
+        {storage.retentionDays !== null && (
+          <Field label="Keep records for">
+            <NumberField
+              value={storage.retentionDays}
+              onChange={(retentionDays) => onChange({ storage: { retentionDays } })}
+              min={1}
+              unit="days"
+            />
+          </Field>
+        )}
+      </div>
+    </SettingsSection>
+  )
+}
+
+export default StorageSection
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from "react"
+import { TrackingScheduleConfig } from "../../types/navigation"
+import { Field, SaveRow, ToggleField, inputClass } from "./fields"
+
+type Weekday = keyof TrackingScheduleConfig["days"]
+
+const WEEKDAYS: Weekday[] = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"]
+
+// Hours are edited as "09:00-12:00, 13:00-18:00"
+const formatHours = (windows: Array<{ start: string; end: string }>): string =>
+  windows.map((window) => `${window.start}-${window.end}`).join(", ")
+
+const parseHours = (day: Weekday, text: string): Array<{ start: string; end: string }> =>
+  text
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const match = part.match(/^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/)
+      if (!match) throw new Error(`Hours for ${day} must look like 09:00-17:00`)
+      return { start: match[1].padStart(5, "0"), end: match[2].padStart(5, "0") }
+    })
+
+/**
+ * Working hours outside of which capture is paused, saved on its own
+ * through the tracking schedule IPC
+ */
+const WorkingHoursEditor: React.FC = () => {
+  const [schedule, setSchedule] = useState<TrackingScheduleConfig | null>(null)
+  const [hours, setHours] = useState<Record<Weekday, string> | null>(null)
+  const [holidays, setHolidays] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const load = (config: TrackingScheduleConfig) => {
+    setSchedule(config)
+    setHours(Object.fromEntries(WEEKDAYS.map((day) => [day, formatHours(config.days[day])])) as Record<Weekday, string>)
+    setHolidays(config.holidays.join(", "))
+  }
+
+  useEffect(() => {
+    window.electronAPI.getTrackingSchedule().then((result) => load(result.data))
+  }, [])
+
+  if (!schedule || !hours) return null
+
+  const handleSave = async () => {
+    setSaved(false)
+    try {
+      const days = Object.fromEntries(
+        WEEKDAYS.map((day) => [day, parseHours(day, hours[day])])
+      ) as TrackingScheduleConfig["days"]
+      const holidayList = holidays.split(/[\s,]+/).filter(Boolean)
+
+      setSaving(true)
+      const result = await window.electronAPI.setTrackingSchedule({ ...schedule, days, holidays: holidayList })
+      if (!result.success || !result.data) throw new Error(result.error || "Failed to save working hours")
+      load(result.data)
+      setError(null)
+      setSaved(true)
+    } catch (err: any) {
+      setError(err.message)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <ToggleField
+        checked={schedule.enabled}
+        onChange={(enabled) => setSchedule({ ...schedule, enabled })}
+        label="Only capture during working hours"
+      />
+      {schedule.enabled && (
+        <>
+          <div className="grid grid-cols-[6rem_1fr] gap-2 items-center">
+            {WEEKDAYS.map((day) => (
+              <React.Fragment key={day}>
+                <span className="capitalize text-gray-300">{day}</span>
+                <input
+                  className={inputClass}
+                  value={hours[day]}
+                  placeholder="No tracking"
+                  onChange={(e) => setHours({ ...hours, [day]: e.target.value })}
+                />
+              </React.Fragment>
+            ))}
+          </div>
+          <Field label="Holidays" hint="Dates as YYYY-MM-DD, separated by commas">
+            <input className={inputClass} value={holidays} onChange={(e) => setHolidays(e.target.value)} />
+          </Field>
+        </>
+      )}
+      <SaveRow onSave={handleSave} saving={saving} error={error} saved={saved} label="Save working hours" />
+    </div>
+  )
+}
+
+export default WorkingHoursEditor
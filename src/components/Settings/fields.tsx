@@ -0,0 +1,137 @@
+import React from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "../ui/card"
+import { Settings, SettingsPatch } from "../../types/navigation"
+
+/**
+ * Sections edit the unsaved settings on the Settings page
+ */
+export interface SectionProps {
+  settings: Settings
+  onChange: (patch: SettingsPatch) => void
+}
+
+export const inputClass =
+  "w-full bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+
+export const SettingsSection: React.FC<{
+  title: string
+  description?: string
+  children: React.ReactNode
+}> = ({ title, description, children }) => (
+  <Card className="bg-gray-900 border-gray-800 mb-6">
+    <CardHeader className="pb-2">
+      <CardTitle className="text-base">{title}</CardTitle>
+      {description && <p className="text-xs text-gray-400">{description}</p>}
+    </CardHeader>
+    <CardContent className="space-y-4 text-sm">{children}</CardContent>
+  </Card>
+)
+
+export const Field: React.FC<{
+  label: string
+  hint?: string
+  children: React.ReactNode
+}> = ({ label, hint, children }) => (
+  <label className="block">
+    <span className="block text-xs text-gray-400 uppercase tracking-wide mb-1">{label}</span>
+    {children}
+    {hint && <span className="block text-xs text-gray-500 mt-1">{hint}</span>}
+  </label>
+)
+
+// Empty input means unset. Saved secrets arrive masked; focusing one
+// selects the mask so typing replaces it.
+export const TextField: React.FC<{
+  value: string | null
+  onChange: (value: string | null) => void
+  placeholder?: string
+  secret?: boolean
+}> = ({ value, onChange, placeholder, secret }) => (
+  <input
+    className={inputClass}
+    type={secret ? "password" : "text"}
+    value={value ?? ""}
+    placeholder={placeholder}
+    onFocus={secret ? (e) => e.target.select() : undefined}
+    onChange={(e) => onChange(e.target.value || null)}
+  />
+)
+
+/**
+ * @param scale Stored value per displayed unit, e.g. 1000 to edit milliseconds as seconds
+ */
+export const NumberField: React.FC<{
+  value: number
+  onChange: (value: number) => void
+  min?: number
+  max?: number
+  step?: number
+  scale?: number
+  unit?: string
+}> = ({ value, onChange, min, max, step, scale = 1, unit }) => (
+  <div className="flex items-center gap-2">
+    <input
+      className={`${inputClass} w-32`}
+      type="number"
+      value={Number.isFinite(value) ? value / scale : ""}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => onChange(e.target.value === "" ? NaN : Number(e.target.value) * scale)}
+    />
+    {unit && <span className="text-gray-400">{unit}</span>}
+  </div>
+)
+
+export function SelectField<T extends string>({
+  value,
+  options,
+  onChange
+}: {
+  value: T
+  options: Array<{ value: T; label: string }>
+  onChange: (value: T) => void
+}) {
+  return (
+    <select className={inputClass} value={value} onChange={(e) => onChange(e.target.value as T)}>
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export const ToggleField: React.FC<{
+  checked: boolean
+  onChange: (checked: boolean) => void
+  label: string
+}> = ({ checked, onChange, label }) => (
+  <label className="flex items-center gap-2 cursor-pointer">
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} />
+    <span>{label}</span>
+  </label>
+)
+
+// Save button and result for editors that save on their own
+export const SaveRow: React.FC<{
+  onSave: () => void
+  saving: boolean
+  error: string | null
+  saved: boolean
+  label?: string
+}> = ({ onSave, saving, error, saved, label = "Save" }) => (
+  <div className="flex items-center gap-3">
+    <button
+      type="button"
+      className="bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md px-3 py-1 text-xs text-white"
+      onClick={onSave}
+      disabled={saving}
+    >
+      {saving ? "Saving..." : label}
+    </button>
+    {error && <span className="text-xs text-red-400">{error}</span>}
+    {!error && saved && <span className="text-xs text-green-400">Saved</span>}
+  </div>
+)
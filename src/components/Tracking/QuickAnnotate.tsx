@@ -0,0 +1,54 @@
+import React, { useEffect, useRef, useState } from "react"
+
+interface QuickAnnotateProps {
+  onClose: () => void
+}
+
+/**
+ * Prompt opened by the annotate shortcut. The text tags what the user is
+ * doing right now and is stored as an annotation event.
+ */
+const QuickAnnotate: React.FC<QuickAnnotateProps> = ({ onClose }) => {
+  const [label, setLabel] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    inputRef.current?.focus()
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!label.trim()) return
+    setSaving(true)
+    const result = await window.electronAPI.annotateActivity(label)
+    setSaving(false)
+    if (result.success) {
+      onClose()
+    } else {
+      setError(result.error || "Failed to save annotation")
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="text-xs text-white/90 backdrop-blur-md bg-black/80 rounded-lg py-2 px-3 mb-2 flex items-center gap-2 w-[28rem]"
+    >
+      <span className="text-[11px] leading-none text-white/50">What are you working on?</span>
+      <input
+        ref={inputRef}
+        className="flex-1 bg-white/10 rounded-md px-2 py-1 text-[11px] text-white placeholder-white/30 focus:outline-none"
+        value={label}
+        placeholder="e.g. Project X"
+        disabled={saving}
+        onChange={(e) => setLabel(e.target.value)}
+        onKeyDown={(e) => e.key === "Escape" && onClose()}
+      />
+      {error && <span className="text-[11px] leading-none text-red-400">{error}</span>}
+    </form>
+  )
+}
+
+export default QuickAnnotate
@@ -3,7 +3,7 @@
 /**
  * All possible views in the application
  */
-export type ViewType = "queue" | "solutions" | "debug" | "insights"
+export type ViewType = "queue" | "solutions" | "debug" | "insights" | "diagnostics" | "settings" | "activity"
 
 /**
  * Props for components that can navigate between views
@@ -29,6 +29,9 @@ export interface ProductivityStats {
   topApp: string
   dayStart: string
   dayEnd: string
+  unclassifiedRecords: number // Captures the model could not classify
+  privateRecords: number // Time in excluded apps, never captured
+  projectMinutes: Record<string, number> // Keyed by goal id
 }
 
 export interface HourlyBreakdownItem {
@@ -36,4 +39,241 @@ export interface HourlyBreakdownItem {
   count: number
   focusCount: number
   goalRelatedCount: number
+  unclassifiedCount: number
+  privateCount: number
+  // Time-weighted totals, in minutes
+  minutes: number
+  focusMinutes: number
+  goalRelatedMinutes: number
+  unclassifiedMinutes: number
+  privateMinutes: number
+}
+
+export type ActivityEnumField =
+  | "goal_relevance"
+  | "cognitive_state"
+  | "context_switching"
+  | "attention_residue"
+  | "procrastination_signal"
+  | "energy_level"
+
+export type ActivityField = "app_classification" | ActivityEnumField
+
+/**
+ * Fields the user corrected, see ActivitySchema.ts. project_id is a goal
+ * id, or null for no project.
+ */
+export type ActivityOverrides = Partial<Record<ActivityField, string>> & { project_id?: string | null }
+
+/**
+ * A stored record, see StorageProvider.ts. The classification fields hold
+ * the model output; corrections are kept in overrides.
+ */
+export interface ActivityRecord extends Partial<Record<ActivityEnumField, string | null>> {
+  record_id?: string
+  app_classification: string
+  classification_status?: "classified" | "unclassified" | "private"
+  classification_error?: string | null
+  captured_at?: string
+  created_at?: string
+  duration_seconds?: number | null
+  window_class?: string | null
+  window_title?: string | null
+  overrides?: ActivityOverrides | null
+  overridden_at?: string | null
+  project_id?: string | null
+}
+
+export interface ActivityLog {
+  records: ActivityRecord[]
+  vocabulary: Record<ActivityEnumField, string[]> // Values each field accepts
+}
+
+/**
+ * App or site that is never captured, see ExclusionList.ts
+ */
+export interface ExclusionEntry {
+  label?: string
+  window_class?: string
+  window_title?: string
+  domain?: string
+}
+
+/**
+ * Something the user is working toward, see GoalList.ts
+ */
+export interface Goal {
+  id: string // Empty for goals not saved yet
+  name: string
+  description?: string
+  keywords?: string[]
+  apps?: string[]
+  repos?: string[]
+  daily_target_minutes?: number | null
+  active: boolean
+}
+
+/**
+ * Time attributed to one goal on a day
+ */
+export interface ProjectTime {
+  goal_id: string
+  name: string
+  minutes: number
+  daily_target_minutes: number | null
+  active: boolean
+}
+
+/**
+ * What automatic capture is doing right now, see AppState.getTrackingStatus
+ */
+export interface TrackingStatus {
+  state: "active" | "paused" | "off_schedule" | "away" | "stopped"
+  pausedUntil: string | null
+  focusBlock: { label: string | null; startedAt: string } | null
+}
+
+/**
+ * Working hours for automatic capture, see TrackingSchedule.ts
+ */
+export interface TrackingScheduleConfig {
+  enabled: boolean
+  days: Record<
+    "sunday" | "monday" | "tuesday" | "wednesday" | "thursday" | "friday" | "saturday",
+    Array<{ start: string; end: string }>
+  >
+  holidays: string[]
+}
+
+export type CaptureFailureType = "capture" | "redaction" | "classification" | "quota" | "storage"
+
+/**
+ * Tracking health pushed by the main process, see AppState.getHealthSnapshot
+ */
+export interface HealthSnapshot {
+  services: {
+    storage: boolean
+    processingHelper: boolean
+    automaticScreenshots: boolean
+  }
+  tracking: TrackingStatus
+  capture: {
+    lastCaptureAt: string | null
+    lastSuccessAt: string | null
+    lastClassification: string | null
+    lastClassificationLatencyMs: number | null
+    lastError: string | null
+    lastErrorType: CaptureFailureType | null
+    queuedError: string | null
+    failures: Record<CaptureFailureType, number>
+  }
+  outboxSize: number
+  exclusionsError: string | null
+  outOfVocabulary: Array<{ field: ActivityEnumField; value: string; count: number }>
+}
+
+type ModelProviderName = "gemini" | "openai" | "ollama" | "mock"
+type ModelTask = "vision" | "text" | "audio"
+
+/**
+ * Application settings, see SettingsHelper.ts. null means unset and falls
+ * back to the default.
+ */
+export interface Settings {
+  version: number
+  storage: {
+    backend: "sqlite" | "supabase"
+    sqlitePath: string | null
+    supabaseUrl: string | null
+    supabaseAnonKey: string | null
+    retentionDays: number | null
+  }
+  capture: {
+    mode: "screenshot" | "window_metadata"
+    multiDisplayStrategy: "focused" | "combined"
+    schedule: {
+      frameIntervalMs: number
+      minIntervalMs: number
+      maxIntervalMs: number
+      changeThreshold: number
+    }
+    idleThresholdSeconds: number
+    source: "desktop" | "fixtures"
+    fixturesDir: string | null
+    redactionConfigPath: string | null
+  }
+  classification: {
+    windowClassifier: "llm" | "rules"
+    activityRulesPath: string | null
+  }
+  models: {
+    provider: ModelProviderName
+    model: string | null
+    tasks: Record<ModelTask, { provider: ModelProviderName | null; model: string | null }>
+    generation: {
+      temperature: number
+      topK: number
+      topP: number
+      maxOutputTokens: number
+    }
+    geminiApiKey: string | null
+    openaiApiKey: string | null
+    openaiBaseUrl: string | null
+    ollamaBaseUrl: string | null
+    mockFixturesDir: string | null
+  }
+  analysis: {
+    minGapMinutes: number
+    maxSessionHours: number
+    maxActivitiesPerPrompt: number
+    maxPromptRetries: number
+    retryDelayMs: number
+  }
+  shortcuts: Record<ShortcutAction, string | null>
+}
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] }
+
+export type SettingsPatch = DeepPartial<Omit<Settings, "version">>
+
+export type ShortcutAction =
+  | "toggleWindow"
+  | "takeScreenshot"
+  | "processScreenshots"
+  | "resetView"
+  | "moveWindowLeft"
+  | "moveWindowRight"
+  | "moveWindowUp"
+  | "moveWindowDown"
+  | "toggleTrackingPause"
+  | "annotateActivity"
+  | "toggleFocusBlock"
+
+/**
+ * Registration result for one global shortcut, see shortcuts.ts
+ */
+export interface ShortcutStatus {
+  action: ShortcutAction
+  label: string
+  accelerator: string | null
+  defaultAccelerator: string
+  registered: boolean
+  error: string | null
+}
+
+export type PiiPattern = "email" | "card" | "token"
+
+/**
+ * What is hidden from captures before classification, see RedactionHelper.ts
+ */
+export interface RedactionConfig {
+  regions: Array<{ x: number; y: number; width: number; height: number; display?: string }>
+  windowDenylist: string[]
+  ocr: {
+    enabled: boolean
+    patterns: PiiPattern[]
+    customPatterns: string[]
+    language: string
+    langPath?: string
+  }
 }
\ No newline at end of file
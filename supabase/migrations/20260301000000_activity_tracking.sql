@@ -0,0 +1,67 @@
+-- Schema the Supabase storage backend expects, see SupabaseStorageProvider.ts.
+-- Run it in the project's SQL editor, or with `supabase db push`. Every
+-- statement can be run again, and existing activity_records tables from
+-- before record ids are brought up to date.
+--
+-- The app connects with the anon key. Row level security is left off here;
+-- if you enable it, add policies that let the anon role select, insert and
+-- update both tables and delete from them.
+
+create table if not exists activity_records (
+  id bigint generated by default as identity primary key,
+  app_classification text,
+  goal_relevance text,
+  cognitive_state text,
+  context_switching text,
+  attention_residue text,
+  procrastination_signal text,
+  energy_level text,
+  created_at timestamptz not null default now()
+);
+
+-- Columns added since the first version, in the order of ACTIVITY_COLUMNS
+-- in SqliteStorageProvider.ts
+alter table activity_records
+  add column if not exists record_id text,
+  add column if not exists captured_at timestamptz,
+  add column if not exists classification_status text,
+  add column if not exists classification_error text,
+  add column if not exists classification_attempts integer,
+  add column if not exists screenshot_path text,
+  add column if not exists duration_seconds double precision,
+  add column if not exists window_class text,
+  add column if not exists window_title text,
+  add column if not exists window_pid integer,
+  add column if not exists primary_display text,
+  add column if not exists overrides jsonb,
+  add column if not exists overridden_at timestamptz,
+  add column if not exists project_id text;
+
+-- Records are upserted on record_id so a replayed record is never stored twice
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'activity_records_record_id_key'
+  ) then
+    alter table activity_records add constraint activity_records_record_id_key unique (record_id);
+  end if;
+end
+$$;
+
+create index if not exists activity_records_captured_at_idx on activity_records (captured_at);
+create index if not exists activity_records_created_at_idx on activity_records (created_at);
+
+-- Away, paused, annotation and focus_block periods, see TrackingEvent
+create table if not exists tracking_events (
+  event_id text primary key,
+  event_type text not null,
+  reason text,
+  started_at timestamptz not null,
+  ended_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+alter table tracking_events
+  add column if not exists label text;
+
+create index if not exists tracking_events_started_at_idx on tracking_events (started_at);